@@ -15,7 +15,13 @@ import { ThemeProvider } from './src/context/ThemeContext';
 import SplashScreen from './src/screens/SplashScreen';
 import AuthScreen from './src/screens/AuthScreen';
 import HomeScreen from './src/screens/HomeScreen';
+import ConversationsScreen from './src/screens/ConversationsScreen';
 import ChatScreen from './src/screens/ChatScreen';
+import SearchScreen from './src/screens/SearchScreen';
+import ScheduledMessagesScreen from './src/screens/ScheduledMessagesScreen';
+import SafetyNumberScreen from './src/screens/SafetyNumberScreen';
+import StarredMessagesScreen from './src/screens/StarredMessagesScreen';
+import ChatSettingsScreen from './src/screens/ChatSettingsScreen';
 import AdminChatScreen from './src/screens/AdminChatScreen';
 import PhotoGalleryScreen from './src/screens/PhotoGalleryScreen';
 import VideoCallScreen from './src/screens/VideoCallScreen';
@@ -66,7 +72,13 @@ export default function App() {
               <Stack.Screen name="Splash" component={SplashScreen} />
               <Stack.Screen name="Auth" component={AuthScreen} />
               <Stack.Screen name="Home" component={HomeScreen} />
+              <Stack.Screen name="Conversations" component={ConversationsScreen} />
               <Stack.Screen name="Chat" component={ChatScreen} />
+              <Stack.Screen name="Search" component={SearchScreen} />
+              <Stack.Screen name="ScheduledMessages" component={ScheduledMessagesScreen} />
+              <Stack.Screen name="SafetyNumber" component={SafetyNumberScreen} />
+              <Stack.Screen name="StarredMessages" component={StarredMessagesScreen} />
+              <Stack.Screen name="ChatSettings" component={ChatSettingsScreen} />
               <Stack.Screen name="AdminChat" component={AdminChatScreen} />
               <Stack.Screen name="PhotoGallery" component={PhotoGalleryScreen} />
               <Stack.Screen name="VideoCall" component={VideoCallScreen} />
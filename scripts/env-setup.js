@@ -19,7 +19,7 @@ const ENV_FILES = {
 };
 
 const REQUIRED_VARS = ['API_BASE_URL', 'WEBSOCKET_URL'];
-const RECOMMENDED_VARS = ['JWT_SECRET', 'ENCRYPTION_KEY']; // Not required but recommended
+const RECOMMENDED_VARS = ['JWT_SECRET']; // Not required but recommended
 
 /**
  * Check if a file exists
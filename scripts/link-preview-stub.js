@@ -0,0 +1,68 @@
+#!/usr/bin/env node
+
+/**
+ * Link Preview Stub Server
+ *
+ * Stands in for the backend's /link-preview endpoint so link previews can
+ * be tried without the real unfurler. Point the app at it with
+ * LINK_PREVIEW_URL=http://<this machine's LAN address>:4000/link-preview
+ *
+ * Responses depend on the requested URL:
+ *   contains "notfound" -> 404 (no preview)
+ *   contains "error"    -> 500 (retried later)
+ *   contains "slow"     -> answered after 3 seconds
+ *   anything else       -> a preview titled after the link's host
+ *
+ * Set STUB_IMAGE_URL to include an image in every preview.
+ */
+
+const http = require('http');
+
+const PORT = Number(process.env.PORT) || 4000;
+const SLOW_DELAY = 3000;
+
+function previewFor(url) {
+  const host = url.replace(/^https?:\/\//i, '').split(/[/?#]/)[0];
+  return {
+    url,
+    title: `Preview of ${host}`,
+    description: `Stub preview for ${url}`,
+    imageUrl: process.env.STUB_IMAGE_URL || null,
+    siteName: host,
+  };
+}
+
+function send(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
+
+const server = http.createServer((req, res) => {
+  const requestUrl = new URL(req.url, `http://localhost:${PORT}`);
+  const target = requestUrl.searchParams.get('url');
+  console.log(`${req.method} ${requestUrl.pathname} ${target || ''}`);
+
+  if (req.method !== 'GET' || requestUrl.pathname !== '/link-preview') {
+    send(res, 404, { message: 'Not found' });
+    return;
+  }
+  if (!target) {
+    send(res, 400, { message: 'url is required' });
+    return;
+  }
+  if (target.includes('notfound')) {
+    send(res, 404, { message: 'No preview available' });
+    return;
+  }
+  if (target.includes('error')) {
+    send(res, 500, { message: 'Unfurl failed' });
+    return;
+  }
+
+  const delay = target.includes('slow') ? SLOW_DELAY : 0;
+  setTimeout(() => send(res, 200, previewFor(target)), delay);
+});
+
+server.listen(PORT, () => {
+  console.log(`Link preview stub listening on http://localhost:${PORT}/link-preview`);
+});
@@ -0,0 +1,308 @@
+import React, { RefObject, useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../context/ThemeContext';
+import { Message } from '../services/websocket';
+import { formatDuration, messagePreviewText } from '../services/messagePreview';
+import { timerLabel } from '../services/disappearing';
+import VoiceRecordButton, { VoiceRecording, VoiceRecordingState } from './VoiceRecordButton';
+
+interface ChatComposerProps {
+  inputRef: RefObject<TextInput>;
+  text: string;
+  onChangeText: (text: string) => void;
+  // Sent message being edited in place of a new one
+  editingMessage: Message | null;
+  onCancelEdit: () => void;
+  replyingTo: Message | null;
+  replyAuthor?: string;
+  onCancelReply: () => void;
+  // Seconds after which new messages disappear, if turned on
+  disappearAfter: number | null;
+  onTimerPress: () => void;
+  scheduledCount: number;
+  onScheduledPress: () => void;
+  sending: boolean;
+  onSend: () => void;
+  onSchedule: () => void;
+  onAttach: () => void;
+  onAttachViewOnce: () => void;
+  onVoiceRecorded: (recording: VoiceRecording) => void;
+}
+
+const QUICK_EMOJIS = ['💖', '😘', '🌹', '✨', '🌙', '💫'];
+
+export default function ChatComposer({
+  inputRef,
+  text,
+  onChangeText,
+  editingMessage,
+  onCancelEdit,
+  replyingTo,
+  replyAuthor,
+  onCancelReply,
+  disappearAfter,
+  onTimerPress,
+  scheduledCount,
+  onScheduledPress,
+  sending,
+  onSend,
+  onSchedule,
+  onAttach,
+  onAttachViewOnce,
+  onVoiceRecorded,
+}: ChatComposerProps) {
+  const { theme } = useTheme();
+  const [recordingState, setRecordingState] = useState<VoiceRecordingState | null>(null);
+
+  return (
+    <View style={styles.inputContainer}>
+      {editingMessage && (
+        <View style={[styles.replyComposer, { borderLeftColor: theme.colors.cosmicGold }]}>
+          <View style={styles.replyComposerText}>
+            <Text style={[styles.quoteAuthor, { color: theme.colors.cosmicGold }]}>
+              Editing message
+            </Text>
+            <Text style={[styles.quoteText, { color: theme.colors.moonlightSilver }]} numberOfLines={1}>
+              {editingMessage.content}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelEdit} style={styles.replyCancel}>
+            <Text style={[styles.replyCancelText, { color: theme.colors.moonlightSilver }]}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {replyingTo && (
+        <View style={[styles.replyComposer, { borderLeftColor: theme.colors.stardustPink }]}>
+          <View style={styles.replyComposerText}>
+            <Text style={[styles.quoteAuthor, { color: theme.colors.stardustPink }]}>
+              Replying to {replyAuthor}
+            </Text>
+            <Text style={[styles.quoteText, { color: theme.colors.moonlightSilver }]} numberOfLines={1}>
+              {messagePreviewText(replyingTo)}
+            </Text>
+          </View>
+          <TouchableOpacity onPress={onCancelReply} style={styles.replyCancel}>
+            <Text style={[styles.replyCancelText, { color: theme.colors.moonlightSilver }]}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+      {disappearAfter !== null && (
+        <TouchableOpacity style={styles.disappearingBanner} onPress={onTimerPress}>
+          <Text style={[styles.disappearingBannerText, { color: theme.colors.moonlightSilver }]}>
+            ⏳ New messages disappear after {timerLabel(disappearAfter)}
+          </Text>
+        </TouchableOpacity>
+      )}
+      {scheduledCount > 0 && !editingMessage && (
+        <TouchableOpacity style={styles.scheduledBanner} onPress={onScheduledPress}>
+          <Text style={[styles.scheduledBannerText, { color: theme.colors.cosmicGold }]}>
+            🕒 {scheduledCount} scheduled {scheduledCount === 1 ? 'message' : 'messages'} ›
+          </Text>
+        </TouchableOpacity>
+      )}
+      <View style={styles.inputWrapper}>
+        <TouchableOpacity
+          onPress={onAttach}
+          onLongPress={onAttachViewOnce}
+          style={styles.attachButton}
+          disabled={!!editingMessage}
+        >
+          <Text style={[styles.attachIcon, editingMessage && styles.sendButtonDisabled]}>📎</Text>
+        </TouchableOpacity>
+
+        {recordingState?.recording ? (
+          <View style={[styles.textInput, styles.recordingIndicator, { borderColor: theme.colors.border }]}>
+            <Text style={[styles.recordingDot, { color: theme.colors.error }]}>●</Text>
+            <Text style={[styles.recordingTime, { color: theme.colors.etherealWhite }]}>
+              {formatDuration(recordingState.durationMillis)}
+            </Text>
+            <Text
+              style={[
+                styles.recordingHint,
+                { color: recordingState.cancelling ? theme.colors.error : theme.colors.textSecondary },
+              ]}
+            >
+              {recordingState.cancelling ? 'Release to cancel' : '‹ Slide to cancel'}
+            </Text>
+          </View>
+        ) : (
+          <TextInput
+            ref={inputRef}
+            style={[styles.textInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
+            placeholder="Type a loving message..."
+            placeholderTextColor={theme.colors.textSecondary}
+            value={text}
+            onChangeText={onChangeText}
+            multiline
+            maxLength={500}
+          />
+        )}
+
+        {!text.trim() && !editingMessage ? (
+          <VoiceRecordButton
+            onRecorded={onVoiceRecorded}
+            onStateChange={setRecordingState}
+          />
+        ) : (
+          <TouchableOpacity
+            onPress={onSend}
+            // Edits go out straight away; new messages can be sent later
+            onLongPress={editingMessage ? undefined : onSchedule}
+            style={[styles.sendButton, sending && styles.sendButtonDisabled]}
+            disabled={sending}
+          >
+            <LinearGradient
+              colors={theme.colors.gradients.romantic}
+              style={styles.sendButtonGradient}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              {sending ? (
+                <ActivityIndicator size="small" color={theme.colors.etherealWhite} />
+              ) : (
+                <Text style={styles.sendIcon}>{editingMessage ? '✔️' : '💕'}</Text>
+              )}
+            </LinearGradient>
+          </TouchableOpacity>
+        )}
+      </View>
+
+      {/* Quick Emoji Reactions */}
+      <View style={styles.emojiContainer}>
+        {QUICK_EMOJIS.map((emoji, index) => (
+          <TouchableOpacity
+            key={index}
+            style={styles.emojiButton}
+            onPress={() => onChangeText(text + emoji)}
+          >
+            <Text style={styles.emoji}>{emoji}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  inputContainer: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+    borderTopWidth: 1,
+    borderTopColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  replyComposer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderLeftWidth: 3,
+    paddingLeft: 10,
+    paddingVertical: 6,
+    marginBottom: 10,
+    borderRadius: 4,
+    backgroundColor: 'rgba(255, 255, 255, 0.08)',
+  },
+  replyComposerText: {
+    flex: 1,
+  },
+  quoteAuthor: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  quoteText: {
+    fontSize: 13,
+    opacity: 0.85,
+  },
+  replyCancel: {
+    padding: 8,
+  },
+  replyCancelText: {
+    fontSize: 16,
+  },
+  scheduledBanner: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+    marginBottom: 8,
+  },
+  scheduledBannerText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  disappearingBanner: {
+    alignSelf: 'flex-start',
+    paddingVertical: 4,
+    marginBottom: 4,
+  },
+  disappearingBannerText: {
+    fontSize: 13,
+  },
+  inputWrapper: {
+    flexDirection: 'row',
+    alignItems: 'flex-end',
+    marginBottom: 12,
+  },
+  textInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    maxHeight: 100,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+    marginRight: 12,
+  },
+  attachButton: {
+    height: 44,
+    justifyContent: 'center',
+    marginRight: 8,
+  },
+  attachIcon: {
+    fontSize: 22,
+  },
+  recordingIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  recordingDot: {
+    fontSize: 14,
+    marginRight: 6,
+  },
+  recordingTime: {
+    fontSize: 16,
+    fontVariant: ['tabular-nums'],
+    marginRight: 12,
+  },
+  recordingHint: {
+    flex: 1,
+    fontSize: 14,
+    textAlign: 'right',
+  },
+  sendButton: {
+    width: 44,
+    height: 44,
+  },
+  sendButtonDisabled: {
+    opacity: 0.6,
+  },
+  sendButtonGradient: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  sendIcon: {
+    fontSize: 20,
+  },
+  emojiContainer: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  emojiButton: {
+    padding: 8,
+  },
+  emoji: {
+    fontSize: 24,
+  },
+});
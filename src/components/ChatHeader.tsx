@@ -0,0 +1,148 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, StatusBar, ActivityIndicator } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+
+interface ChatHeaderProps {
+  partnerName?: string;
+  // Connection state, typing or last seen
+  status: string;
+  verified: boolean;
+  // Partner's key changed since it was last trusted
+  keyChanged: boolean;
+  // Our account lists a device we haven't approved
+  ownKeyChanged: boolean;
+  exporting: boolean;
+  onBack: () => void;
+  onTimerPress: () => void;
+  onSafetyPress: () => void;
+  onSearchPress: () => void;
+  onExportPress: () => void;
+}
+
+export default function ChatHeader({
+  partnerName,
+  status,
+  verified,
+  keyChanged,
+  ownKeyChanged,
+  exporting,
+  onBack,
+  onTimerPress,
+  onSafetyPress,
+  onSearchPress,
+  onExportPress,
+}: ChatHeaderProps) {
+  const { theme } = useTheme();
+
+  return (
+    <>
+      <View style={styles.header}>
+        <TouchableOpacity onPress={onBack} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+
+        <View style={styles.headerCenter}>
+          <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>
+            {partnerName || 'My Love'} 💖
+          </Text>
+          <Text style={[styles.headerSubtitle, { color: theme.colors.moonlightSilver }]}>
+            {status}
+          </Text>
+        </View>
+
+        <View style={styles.headerActions}>
+          <TouchableOpacity style={styles.actionButton} onPress={onTimerPress}>
+            <Text style={styles.actionIcon}>⏳</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={onSafetyPress}>
+            <Text style={styles.actionIcon}>{verified ? '🔐' : '🔒'}</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={onSearchPress}>
+            <Text style={styles.actionIcon}>🔍</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={onExportPress} disabled={exporting}>
+            {exporting ? (
+              <ActivityIndicator size="small" color={theme.colors.stardustPink} />
+            ) : (
+              <Text style={styles.actionIcon}>📖</Text>
+            )}
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton}>
+            <Text style={styles.actionIcon}>📹</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {keyChanged && (
+        <TouchableOpacity
+          style={[styles.keyChangedBanner, { backgroundColor: theme.colors.surface }]}
+          onPress={onSafetyPress}
+        >
+          <Text style={[styles.keyChangedText, { color: theme.colors.cosmicGold }]}>
+            🔐 {partnerName || 'Your love'} has a new security key. Messages from it stay hidden until you verify ›
+          </Text>
+        </TouchableOpacity>
+      )}
+
+      {ownKeyChanged && (
+        <TouchableOpacity
+          style={[styles.keyChangedBanner, { backgroundColor: theme.colors.surface }]}
+          onPress={onSafetyPress}
+        >
+          <Text style={[styles.keyChangedText, { color: theme.colors.cosmicGold }]}>
+            🔐 A new device was added to your account. Nothing is sent to it until you approve it ›
+          </Text>
+        </TouchableOpacity>
+      )}
+    </>
+  );
+}
+
+const styles = StyleSheet.create({
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerCenter: {
+    alignItems: 'center',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  headerSubtitle: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  actionButton: {
+    padding: 8,
+  },
+  actionIcon: {
+    fontSize: 20,
+  },
+  keyChangedBanner: {
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+  },
+  keyChangedText: {
+    fontSize: 13,
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+});
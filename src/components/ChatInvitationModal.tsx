@@ -9,21 +9,7 @@ import {
 } from 'react-native';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useTheme } from '../context/ThemeContext';
-
-interface ChatInvitation {
-  id: string;
-  senderId: string;
-  recipientId: string;
-  message: string;
-  createdAt: string;
-  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
-  sender: {
-    id: string;
-    fullName: string;
-    email: string;
-    avatarUrl?: string;
-  };
-}
+import { ChatInvitation } from '../services/websocket';
 
 interface ChatInvitationModalProps {
   visible: boolean;
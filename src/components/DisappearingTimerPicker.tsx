@@ -0,0 +1,103 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { DISAPPEARING_TIMERS } from '../services/disappearing';
+
+interface DisappearingTimerPickerProps {
+  visible: boolean;
+  // Current timer in seconds; null when messages are kept
+  selected: number | null;
+  onSelect: (seconds: number | null) => void;
+  onClose: () => void;
+}
+
+export default function DisappearingTimerPicker({
+  visible,
+  selected,
+  onSelect,
+  onClose,
+}: DisappearingTimerPickerProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <View style={[styles.options, { backgroundColor: theme.colors.deepSpace }]}>
+            <Text style={[styles.title, { color: theme.colors.etherealWhite }]}>⏳ Disappearing messages</Text>
+            <Text style={[styles.hint, { color: theme.colors.moonlightSilver }]}>
+              New messages vanish from both phones this long after they're sent.
+            </Text>
+            {DISAPPEARING_TIMERS.map(timer => (
+              <TouchableOpacity
+                key={timer.label}
+                style={[styles.option, { borderTopColor: theme.colors.border }]}
+                onPress={() => onSelect(timer.seconds)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    { color: timer.seconds === selected ? theme.colors.stardustPink : theme.colors.etherealWhite },
+                  ]}
+                >
+                  {timer.seconds === selected ? `✓ ${timer.label}` : timer.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  options: {
+    minWidth: 260,
+    maxWidth: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 18,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+    marginHorizontal: 20,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    borderTopWidth: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,100 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+} from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import { EXPORT_FORMATS, ExportFormat } from '../services/conversationExport';
+
+interface ExportConversationModalProps {
+  visible: boolean;
+  onSelect: (format: ExportFormat) => void;
+  onClose: () => void;
+}
+
+export default function ExportConversationModal({
+  visible,
+  onSelect,
+  onClose,
+}: ExportConversationModalProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <View style={[styles.options, { backgroundColor: theme.colors.deepSpace }]}>
+            <Text style={[styles.title, { color: theme.colors.etherealWhite }]}>💝 Save your story</Text>
+            <Text style={[styles.hint, { color: theme.colors.moonlightSilver }]}>
+              Exports your whole conversation, loading older messages first. Deleted, disappearing and view-once messages stay out.
+            </Text>
+            {EXPORT_FORMATS.map(option => (
+              <TouchableOpacity
+                key={option.format}
+                style={[styles.option, { borderTopColor: theme.colors.border }]}
+                onPress={() => onSelect(option.format)}
+              >
+                <Text style={[styles.optionText, { color: theme.colors.etherealWhite }]}>{option.label}</Text>
+                <Text style={[styles.optionDescription, { color: theme.colors.textSecondary }]}>
+                  {option.description}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  options: {
+    minWidth: 260,
+    maxWidth: 320,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  title: {
+    fontSize: 17,
+    fontWeight: 'bold',
+    textAlign: 'center',
+    marginTop: 18,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+    textAlign: 'center',
+    marginHorizontal: 20,
+    marginTop: 6,
+    marginBottom: 12,
+  },
+  option: {
+    paddingVertical: 12,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+    borderTopWidth: 1,
+  },
+  optionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  optionDescription: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,88 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, Image, TouchableOpacity, StyleSheet, Linking } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import linkPreviews from '../services/linkPreviews';
+import { LinkPreview } from '../services/schemas';
+
+interface LinkPreviewCardProps {
+  url: string;
+}
+
+const hostname = (url: string) => url.replace(/^https?:\/\//i, '').split(/[/?#]/)[0];
+
+// Unfurled link under a message; renders nothing until there is something to show
+export default function LinkPreviewCard({ url }: LinkPreviewCardProps) {
+  const { theme } = useTheme();
+  const [preview, setPreview] = useState<LinkPreview | null | undefined>(() => linkPreviews.getCached(url));
+
+  useEffect(() => {
+    let active = true;
+    setPreview(linkPreviews.getCached(url));
+    linkPreviews.fetch(url).then(result => {
+      if (active) setPreview(result);
+    });
+    return () => {
+      active = false;
+    };
+  }, [url]);
+
+  if (!preview || (!preview.title && !preview.description)) return null;
+
+  return (
+    <TouchableOpacity
+      style={[styles.card, { borderLeftColor: theme.colors.cosmicGold }]}
+      onPress={() => Linking.openURL(url).catch(error => console.error('Failed to open link:', error))}
+      activeOpacity={0.8}
+    >
+      {preview.imageUrl && (
+        <Image source={{ uri: preview.imageUrl }} style={styles.image} resizeMode="cover" />
+      )}
+      <View style={styles.body}>
+        <Text style={[styles.site, { color: theme.colors.moonlightSilver }]} numberOfLines={1}>
+          {preview.siteName || hostname(url)}
+        </Text>
+        {preview.title && (
+          <Text style={[styles.title, { color: theme.colors.etherealWhite }]} numberOfLines={2}>
+            {preview.title}
+          </Text>
+        )}
+        {preview.description && (
+          <Text style={[styles.description, { color: theme.colors.etherealWhite }]} numberOfLines={3}>
+            {preview.description}
+          </Text>
+        )}
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    marginTop: 8,
+    borderLeftWidth: 3,
+    borderRadius: 8,
+    overflow: 'hidden',
+    backgroundColor: 'rgba(0, 0, 0, 0.2)',
+  },
+  image: {
+    width: '100%',
+    aspectRatio: 1.91,
+  },
+  body: {
+    paddingHorizontal: 10,
+    paddingVertical: 8,
+  },
+  site: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  description: {
+    fontSize: 13,
+    opacity: 0.85,
+    marginTop: 2,
+  },
+});
@@ -0,0 +1,172 @@
+import React, { useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  Dimensions,
+  Image,
+  Modal,
+} from 'react-native';
+import Animated, {
+  useSharedValue,
+  useAnimatedStyle,
+  withSpring,
+  withTiming,
+  runOnJS,
+} from 'react-native-reanimated';
+import { PinchGestureHandler, PanGestureHandler } from 'react-native-gesture-handler';
+import { ResizeMode, Video } from 'expo-av';
+import { useTheme } from '../context/ThemeContext';
+
+export interface ViewerMedia {
+  uri: string;
+  type: 'image' | 'video';
+  title?: string;
+  subtitle?: string;
+}
+
+interface MediaViewerProps {
+  visible: boolean;
+  media: ViewerMedia | null;
+  onClose: () => void;
+}
+
+const { width, height } = Dimensions.get('window');
+
+// Fullscreen photo/video viewer shared by the gallery and chat
+export default function MediaViewer({ visible, media, onClose }: MediaViewerProps) {
+  const { theme } = useTheme();
+
+  // Animation values
+  const scale = useSharedValue(1);
+  const translateX = useSharedValue(0);
+  const translateY = useSharedValue(0);
+  const opacity = useSharedValue(1);
+
+  useEffect(() => {
+    if (visible) {
+      scale.value = withSpring(1);
+      translateX.value = 0;
+      translateY.value = 0;
+      opacity.value = withTiming(1);
+    }
+  }, [visible]);
+
+  const close = () => {
+    opacity.value = withTiming(0, { duration: 300 }, () => {
+      runOnJS(onClose)();
+    });
+  };
+
+  const onPinchEvent = (event: any) => {
+    scale.value = event.nativeEvent.scale;
+  };
+
+  const onPanEvent = (event: any) => {
+    translateX.value = event.nativeEvent.translationX;
+    translateY.value = event.nativeEvent.translationY;
+  };
+
+  const animatedStyle = useAnimatedStyle(() => {
+    'worklet';
+    return {
+      opacity: opacity.value,
+    };
+  });
+
+  return (
+    <Modal
+      visible={visible}
+      transparent
+      animationType="fade"
+      onRequestClose={close}
+    >
+      <View style={styles.modalContainer}>
+        <TouchableOpacity style={styles.modalBackground} onPress={close} />
+
+        {media && media.type === 'video' && (
+          <Animated.View style={[styles.modalContent, animatedStyle]}>
+            <Video
+              source={{ uri: media.uri }}
+              style={styles.modalVideo}
+              resizeMode={ResizeMode.CONTAIN}
+              useNativeControls
+              shouldPlay
+            />
+          </Animated.View>
+        )}
+
+        {media && media.type === 'image' && (
+          <PanGestureHandler onGestureEvent={onPanEvent}>
+            <PinchGestureHandler onGestureEvent={onPinchEvent}>
+              <Animated.View style={[styles.modalContent, animatedStyle]}>
+                <Image source={{ uri: media.uri }} style={styles.modalImage} />
+
+                {(media.title || media.subtitle) && (
+                  <View style={styles.modalInfo}>
+                    {media.title && (
+                      <Text style={[styles.modalTitle, { color: theme.colors.etherealWhite }]}>
+                        {media.title}
+                      </Text>
+                    )}
+                    {media.subtitle && (
+                      <Text style={[styles.modalDate, { color: theme.colors.moonlightSilver }]}>
+                        {media.subtitle}
+                      </Text>
+                    )}
+                  </View>
+                )}
+              </Animated.View>
+            </PinchGestureHandler>
+          </PanGestureHandler>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.9)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  modalBackground: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+  },
+  modalContent: {
+    width: width * 0.9,
+    maxHeight: height * 0.8,
+    alignItems: 'center',
+  },
+  modalImage: {
+    width: '100%',
+    height: height * 0.6,
+    resizeMode: 'contain',
+    borderRadius: 16,
+  },
+  modalVideo: {
+    width: '100%',
+    height: height * 0.6,
+    borderRadius: 16,
+  },
+  modalInfo: {
+    marginTop: 16,
+    alignItems: 'center',
+  },
+  modalTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+    marginBottom: 4,
+  },
+  modalDate: {
+    fontSize: 14,
+    opacity: 0.8,
+  },
+});
@@ -0,0 +1,452 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Image, ActivityIndicator } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../context/ThemeContext';
+import { Message } from '../services/websocket';
+import { ChatMessage } from '../hooks/useOutboxMessages';
+import { formatDuration, messagePreviewText } from '../services/messagePreview';
+import { MessageLayout, formatExactTime, formatTime } from '../services/messageTimeline';
+import { summarizeReactions } from '../services/reactions';
+import { formatTimeLeft } from '../services/disappearing';
+import { firstLink, splitLinks } from '../services/links';
+import SwipeToReply from './SwipeToReply';
+import VoiceNoteBubble from './VoiceNoteBubble';
+import LinkPreviewCard from './LinkPreviewCard';
+
+interface MessageBubbleProps {
+  item: ChatMessage;
+  layout?: MessageLayout;
+  userId?: string;
+  // Message this one replies to, if it is loaded or the server sent a snapshot
+  quoted?: Message | null;
+  quotedAuthor?: string;
+  highlighted: boolean;
+  // Tapped to show its exact send and read times
+  revealed: boolean;
+  starred: boolean;
+  // Upload progress (0-1) while its attachment is in the outbox
+  uploadProgress?: number;
+  // Clock for the countdown of a disappearing message
+  now: number;
+  linkPreviewsEnabled: boolean;
+  onPress: (message: ChatMessage) => void;
+  onFailedPress: (message: ChatMessage) => void;
+  onLongPress: (message: ChatMessage) => void;
+  onDelete: (message: ChatMessage) => void;
+  onReply: (message: ChatMessage) => void;
+  onQuotePress: (messageId: string, createdAt?: string) => void;
+  onOpenMedia: (message: ChatMessage) => void;
+  onOpenViewOnce: (message: ChatMessage) => void;
+  onOpenLink: (url: string) => void;
+  onToggleReaction: (message: ChatMessage, emoji: string) => void;
+}
+
+// Delivery ticks shown on our own messages
+const receiptTicks = (status: Message['status']) => status === 'SENT' ? '✓' : '✓✓';
+
+export default function MessageBubble({
+  item,
+  layout,
+  userId,
+  quoted,
+  quotedAuthor,
+  highlighted,
+  revealed,
+  starred,
+  uploadProgress,
+  now,
+  linkPreviewsEnabled,
+  onPress,
+  onFailedPress,
+  onLongPress,
+  onDelete,
+  onReply,
+  onQuotePress,
+  onOpenMedia,
+  onOpenViewOnce,
+  onOpenLink,
+  onToggleReaction,
+}: MessageBubbleProps) {
+  const { theme } = useTheme();
+
+  const isMe = item.senderId === userId;
+  // Only the last message of a group shows its time, unless tapped
+  const showTime = !layout?.groupedWithNext || revealed;
+  const containerStyle = [
+    styles.messageContainer,
+    isMe ? styles.myMessage : styles.partnerMessage,
+    layout?.groupedWithPrevious && styles.groupedMessage,
+  ];
+
+  if (item.deletedAt) {
+    // Tombstone; can still be cleared from our own history
+    return (
+      <View style={containerStyle}>
+        <TouchableOpacity
+          style={[styles.messageBubble, styles.deletedBubble, { borderColor: theme.colors.border }]}
+          onPress={() => onPress(item)}
+          onLongPress={() => onDelete(item)}
+          activeOpacity={0.8}
+        >
+          <Text style={[styles.deletedText, { color: theme.colors.textSecondary }]}>
+            🚫 This message was deleted
+          </Text>
+        </TouchableOpacity>
+        {showTime && (
+          <Text style={[styles.messageTime, { color: theme.colors.textSecondary }]}>
+            {revealed ? formatExactTime(item.createdAt) : formatTime(item.createdAt)}
+          </Text>
+        )}
+      </View>
+    );
+  }
+
+  const failed = item.localStatus === 'failed';
+  const isMedia = item.type === 'IMAGE' || item.type === 'VIDEO';
+  const reactions = summarizeReactions(item.reactions, userId);
+  // Previews wait until the message is sent, so drafts of links aren't looked up
+  const previewUrl = linkPreviewsEnabled && item.type === 'TEXT' && !item.localStatus && item.content
+    ? firstLink(item.content)
+    : null;
+
+  // Send time, or the exact send and read times once tapped
+  const timestampText = () => {
+    const edited = item.editedAt ? ' · edited' : '';
+    if (!revealed) {
+      return `${formatTime(item.createdAt)}${edited}`;
+    }
+    const read = isMe && item.readAt ? ` · Read ${formatTime(item.readAt)}` : '';
+    return `${formatExactTime(item.createdAt)}${edited}${read}`;
+  };
+
+  const renderMedia = () => {
+    const isVideo = item.type === 'VIDEO';
+    const width = item.media?.width ?? item.localAttachment?.width;
+    const height = item.media?.height ?? item.localAttachment?.height;
+    const duration = item.media?.duration ?? item.localAttachment?.duration;
+    // Videos only have a preview once the server generated a thumbnail
+    const previewUri = isVideo
+      ? item.media?.thumbnailUrl
+      : item.media?.thumbnailUrl || item.media?.url || item.localAttachment?.uri;
+    const aspectRatio = width && height ? Math.min(Math.max(width / height, 0.6), 1.6) : 4 / 3;
+
+    return (
+      <TouchableOpacity
+        disabled={!item.media}
+        onPress={() => onOpenMedia(item)}
+        activeOpacity={0.8}
+        style={[styles.mediaThumb, { aspectRatio }, !!item.content && styles.mediaWithCaption]}
+      >
+        {previewUri ? (
+          <Image source={{ uri: previewUri }} style={styles.mediaImage} />
+        ) : (
+          <View style={[styles.mediaImage, { backgroundColor: theme.colors.deepSpace }]} />
+        )}
+        {isVideo && (
+          <View style={styles.mediaOverlay}>
+            <Text style={styles.mediaPlayIcon}>▶</Text>
+            {duration ? (
+              <Text style={[styles.mediaDuration, { color: theme.colors.etherealWhite }]}>
+                {formatDuration(duration)}
+              </Text>
+            ) : null}
+          </View>
+        )}
+        {item.localStatus === 'pending' && (
+          <View style={styles.mediaOverlay}>
+            <ActivityIndicator size="small" color={theme.colors.etherealWhite} />
+            {uploadProgress !== undefined && (
+              <Text style={[styles.mediaProgress, { color: theme.colors.etherealWhite }]}>
+                {Math.round(uploadProgress * 100)}%
+              </Text>
+            )}
+          </View>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  // Stands in for the media until the recipient opens it, once
+  const renderViewOnce = () => {
+    const label = item.type === 'VIDEO' ? 'video' : 'photo';
+    return (
+      <TouchableOpacity
+        disabled={isMe || !item.media}
+        onPress={() => onOpenViewOnce(item)}
+        activeOpacity={0.8}
+        style={styles.viewOnce}
+      >
+        <Text style={[styles.viewOnceIcon, { color: theme.colors.etherealWhite }]}>①</Text>
+        <Text style={[styles.viewOnceText, { color: theme.colors.etherealWhite }]}>
+          {isMe ? `View once ${label}` : `Tap to view ${label}`}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <SwipeToReply enabled={!item.localStatus} onReply={() => onReply(item)}>
+      <View style={containerStyle}>
+        <TouchableOpacity
+          disabled={item.localStatus === 'pending'}
+          onPress={() => (failed ? onFailedPress : onPress)(item)}
+          // Only delivered messages can be reacted to
+          onLongPress={item.localStatus ? undefined : () => onLongPress(item)}
+          activeOpacity={0.8}
+        >
+          <LinearGradient
+            colors={isMe ? theme.colors.gradients.romantic : theme.colors.gradients.starlight}
+            style={[
+              styles.messageBubble,
+              isMe ? styles.myBubble : styles.partnerBubble,
+              layout?.groupedWithPrevious && (isMe ? styles.myBubbleContinued : styles.partnerBubbleContinued),
+              layout?.groupedWithNext && styles.groupedBubble,
+              item.localStatus && styles.pendingBubble,
+              isMedia && !item.viewOnce && styles.mediaBubble,
+              highlighted && { borderWidth: 2, borderColor: theme.colors.cosmicGold },
+            ]}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+          >
+            {item.replyToId && (
+              <TouchableOpacity
+                style={[styles.quote, { borderLeftColor: theme.colors.etherealWhite }]}
+                onPress={() => item.replyToId && onQuotePress(item.replyToId, quoted?.createdAt)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.quoteAuthor, { color: theme.colors.etherealWhite }]}>
+                  {quoted ? quotedAuthor : 'Original message'}
+                </Text>
+                <Text style={[styles.quoteText, { color: theme.colors.etherealWhite }]} numberOfLines={2}>
+                  {quoted ? messagePreviewText(quoted) : 'Tap to view'}
+                </Text>
+              </TouchableOpacity>
+            )}
+            {isMedia && (item.viewOnce ? renderViewOnce() : renderMedia())}
+            {item.type === 'VOICE' && (
+              <VoiceNoteBubble
+                messageId={item.id}
+                uri={item.media?.url ?? item.localAttachment?.uri ?? ''}
+                durationMillis={item.media?.duration ?? item.localAttachment?.duration}
+                waveform={item.media?.waveform ?? item.localAttachment?.waveform}
+              />
+            )}
+            {!!item.content && !item.viewOnce && (
+              <Text style={[styles.messageText, isMedia && styles.mediaCaption, { color: theme.colors.etherealWhite }]}>
+                {splitLinks(item.content).map((part, index) =>
+                  part.url ? (
+                    <Text key={index} style={styles.link} onPress={() => onOpenLink(part.url!)}>
+                      {part.text}
+                    </Text>
+                  ) : (
+                    part.text
+                  )
+                )}
+              </Text>
+            )}
+            {previewUrl && <LinkPreviewCard url={previewUrl} />}
+          </LinearGradient>
+        </TouchableOpacity>
+        {reactions.length > 0 && (
+          <View style={[styles.reactionRow, isMe && styles.myReactionRow]}>
+            {reactions.map(reaction => (
+              <TouchableOpacity
+                key={reaction.emoji}
+                style={[
+                  styles.reactionChip,
+                  { borderColor: reaction.reactedByMe ? theme.colors.stardustPink : theme.colors.border },
+                ]}
+                onPress={() => onToggleReaction(item, reaction.emoji)}
+              >
+                <Text style={styles.reactionEmoji}>{reaction.emoji}</Text>
+                {reaction.count > 1 && (
+                  <Text style={[styles.reactionCount, { color: theme.colors.etherealWhite }]}>
+                    {reaction.count}
+                  </Text>
+                )}
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {(showTime || item.localStatus || item.expiresAt) && (
+          <Text style={[styles.messageTime, { color: failed ? theme.colors.error : theme.colors.textSecondary }]}>
+            {item.pinnedAt && '📌 '}
+            {starred && '⭐ '}
+            {failed ? 'Not sent · Tap to retry' :
+              item.localStatus === 'pending' ? 'Sending...' :
+                timestampText()}
+            {isMe && !item.localStatus && (
+              <Text style={item.status === 'READ' && { color: theme.colors.stardustPink }}>
+                {'  '}{receiptTicks(item.status)}
+              </Text>
+            )}
+            {item.expiresAt && !item.localStatus && `  ⏳ ${formatTimeLeft(item.expiresAt, now)}`}
+          </Text>
+        )}
+      </View>
+    </SwipeToReply>
+  );
+}
+
+const styles = StyleSheet.create({
+  messageContainer: {
+    marginVertical: 4,
+    maxWidth: '80%',
+  },
+  myMessage: {
+    alignSelf: 'flex-end',
+    alignItems: 'flex-end',
+  },
+  partnerMessage: {
+    alignSelf: 'flex-start',
+    alignItems: 'flex-start',
+  },
+  messageBubble: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 20,
+    marginBottom: 4,
+  },
+  myBubble: {
+    borderBottomRightRadius: 8,
+  },
+  partnerBubble: {
+    borderBottomLeftRadius: 8,
+  },
+  // Grouped bubbles sit close together with tighter corners on the sender's side
+  groupedMessage: {
+    marginTop: 0,
+  },
+  groupedBubble: {
+    marginBottom: 2,
+  },
+  myBubbleContinued: {
+    borderTopRightRadius: 8,
+  },
+  partnerBubbleContinued: {
+    borderTopLeftRadius: 8,
+  },
+  pendingBubble: {
+    opacity: 0.6,
+  },
+  quote: {
+    borderLeftWidth: 3,
+    paddingLeft: 8,
+    paddingVertical: 4,
+    marginBottom: 6,
+    borderRadius: 4,
+    backgroundColor: 'rgba(0, 0, 0, 0.15)',
+  },
+  quoteAuthor: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginBottom: 2,
+  },
+  quoteText: {
+    fontSize: 13,
+    opacity: 0.85,
+  },
+  // Specific paddings, so they override messageBubble's
+  mediaBubble: {
+    paddingHorizontal: 4,
+    paddingVertical: 4,
+  },
+  viewOnce: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  viewOnceIcon: {
+    fontSize: 20,
+    marginRight: 8,
+  },
+  viewOnceText: {
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  mediaCaption: {
+    paddingHorizontal: 10,
+    paddingBottom: 6,
+  },
+  mediaThumb: {
+    width: 220,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  mediaWithCaption: {
+    marginBottom: 6,
+  },
+  mediaImage: {
+    width: '100%',
+    height: '100%',
+  },
+  mediaOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.25)',
+  },
+  mediaPlayIcon: {
+    fontSize: 32,
+    color: '#FFFFFF',
+  },
+  mediaDuration: {
+    position: 'absolute',
+    right: 8,
+    bottom: 6,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  mediaProgress: {
+    marginTop: 6,
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  deletedBubble: {
+    borderWidth: 1,
+    backgroundColor: 'rgba(255, 255, 255, 0.05)',
+  },
+  deletedText: {
+    fontSize: 14,
+    fontStyle: 'italic',
+  },
+  messageText: {
+    fontSize: 16,
+    lineHeight: 20,
+  },
+  link: {
+    textDecorationLine: 'underline',
+  },
+  reactionRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginTop: -8,
+    marginBottom: 4,
+    paddingHorizontal: 8,
+  },
+  myReactionRow: {
+    justifyContent: 'flex-end',
+  },
+  reactionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    marginRight: 4,
+    marginTop: 2,
+    borderRadius: 12,
+    borderWidth: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.35)',
+  },
+  reactionEmoji: {
+    fontSize: 14,
+  },
+  reactionCount: {
+    fontSize: 12,
+    marginLeft: 3,
+    fontWeight: '600',
+  },
+  messageTime: {
+    fontSize: 12,
+    opacity: 0.6,
+  },
+});
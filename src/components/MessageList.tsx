@@ -0,0 +1,172 @@
+import React, { ReactNode, RefObject } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ActivityIndicator,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+  ViewToken,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../context/ThemeContext';
+import { ChatMessage } from '../hooks/useOutboxMessages';
+import { MessageLayout } from '../services/messageTimeline';
+import TypingIndicator from './TypingIndicator';
+
+interface MessageListProps {
+  listRef: RefObject<FlatList<ChatMessage>>;
+  // Newest first
+  messages: ChatMessage[];
+  layout: Map<string, MessageLayout>;
+  renderBubble: (item: ChatMessage, layout?: MessageLayout) => ReactNode;
+  typing: boolean;
+  loadingOlder: boolean;
+  // Messages that arrived while scrolled back through history
+  unseenCount: number;
+  onLoadOlder: () => void;
+  onAtLatestChange: (atLatest: boolean) => void;
+  // Must stay the same for the list's lifetime
+  onViewableItemsChanged: (info: { viewableItems: ViewToken[] }) => void;
+  onJumpToLatest: () => void;
+}
+
+// Distance from the newest message (in px) within which we consider the user "at the bottom"
+const AT_LATEST_THRESHOLD = 80;
+const VIEWABILITY_CONFIG = { itemVisiblePercentThreshold: 50 };
+
+export default function MessageList({
+  listRef,
+  messages,
+  layout,
+  renderBubble,
+  typing,
+  loadingOlder,
+  unseenCount,
+  onLoadOlder,
+  onAtLatestChange,
+  onViewableItemsChanged,
+  onJumpToLatest,
+}: MessageListProps) {
+  const { theme } = useTheme();
+
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    // The list is inverted, so offset 0 is the newest message
+    onAtLatestChange(event.nativeEvent.contentOffset.y <= AT_LATEST_THRESHOLD);
+  };
+
+  const handleScrollToIndexFailed = (info: { index: number; averageItemLength: number }) => {
+    // Item not measured yet: jump near it, then retry once it has rendered
+    listRef.current?.scrollToOffset({ offset: info.index * info.averageItemLength, animated: false });
+    setTimeout(() => {
+      listRef.current?.scrollToIndex({ index: info.index, animated: true, viewPosition: 0.5 });
+    }, 100);
+  };
+
+  const renderMessage = ({ item }: { item: ChatMessage }) => {
+    const itemLayout = layout.get(item.id);
+
+    return (
+      <View>
+        {itemLayout?.dayLabel && (
+          <View style={styles.daySeparator}>
+            <View style={[styles.daySeparatorLine, { backgroundColor: theme.colors.border }]} />
+            <Text style={[styles.daySeparatorText, { color: theme.colors.moonlightSilver }]}>
+              {itemLayout.dayLabel}
+            </Text>
+            <View style={[styles.daySeparatorLine, { backgroundColor: theme.colors.border }]} />
+          </View>
+        )}
+        {renderBubble(item, itemLayout)}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.messagesList}>
+      <FlatList
+        ref={listRef}
+        data={messages}
+        renderItem={renderMessage}
+        keyExtractor={(item) => item.id}
+        inverted
+        onEndReached={onLoadOlder}
+        onEndReachedThreshold={0.3}
+        onScroll={handleScroll}
+        onScrollToIndexFailed={handleScrollToIndexFailed}
+        onViewableItemsChanged={onViewableItemsChanged}
+        // Inverted, so the header sits below the newest message
+        ListHeaderComponent={typing ? <TypingIndicator /> : null}
+        viewabilityConfig={VIEWABILITY_CONFIG}
+        scrollEventThrottle={100}
+        // Keep the message being read in place when new ones arrive below it
+        maintainVisibleContentPosition={{ minIndexForVisible: 0, autoscrollToTopThreshold: AT_LATEST_THRESHOLD }}
+        ListFooterComponent={loadingOlder ? (
+          <ActivityIndicator style={styles.olderLoader} size="small" color={theme.colors.stardustPink} />
+        ) : null}
+        contentContainerStyle={styles.messagesContent}
+        showsVerticalScrollIndicator={false}
+      />
+
+      {unseenCount > 0 && (
+        <TouchableOpacity style={styles.jumpToLatest} onPress={onJumpToLatest} activeOpacity={0.8}>
+          <LinearGradient
+            colors={theme.colors.gradients.romantic}
+            style={styles.jumpToLatestGradient}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+          >
+            <Text style={[styles.jumpToLatestText, { color: theme.colors.etherealWhite }]}>
+              ↓ {unseenCount} new
+            </Text>
+          </LinearGradient>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  messagesList: {
+    flex: 1,
+  },
+  messagesContent: {
+    paddingHorizontal: 16,
+    paddingVertical: 16,
+  },
+  olderLoader: {
+    marginVertical: 12,
+  },
+  daySeparator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginVertical: 12,
+  },
+  daySeparatorLine: {
+    flex: 1,
+    height: StyleSheet.hairlineWidth,
+  },
+  daySeparatorText: {
+    fontSize: 12,
+    fontWeight: '600',
+    marginHorizontal: 12,
+  },
+  jumpToLatest: {
+    position: 'absolute',
+    right: 16,
+    bottom: 16,
+    borderRadius: 18,
+    overflow: 'hidden',
+  },
+  jumpToLatestGradient: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 18,
+  },
+  jumpToLatestText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,58 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+
+interface PinnedBannerProps {
+  count: number;
+  // Zero-based position of the pin on show
+  position: number;
+  preview: string;
+  onPress: () => void;
+}
+
+// Pinned message on show above the conversation; tapping it jumps there
+export default function PinnedBanner({ count, position, preview, onPress }: PinnedBannerProps) {
+  const { theme } = useTheme();
+
+  return (
+    <TouchableOpacity
+      style={[styles.banner, { borderBottomColor: theme.colors.border }]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      <Text style={styles.icon}>📌</Text>
+      <View style={styles.body}>
+        <Text style={[styles.label, { color: theme.colors.cosmicGold }]}>
+          {count > 1 ? `Pinned ${position + 1} of ${count}` : 'Pinned'}
+        </Text>
+        <Text style={[styles.text, { color: theme.colors.etherealWhite }]} numberOfLines={1}>
+          {preview}
+        </Text>
+      </View>
+    </TouchableOpacity>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+  },
+  icon: {
+    fontSize: 16,
+    marginRight: 10,
+  },
+  body: {
+    flex: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  text: {
+    fontSize: 14,
+  },
+});
@@ -0,0 +1,134 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../context/ThemeContext';
+import { REACTION_EMOJIS } from '../services/reactions';
+
+export interface MessageAction {
+  label: string;
+  onPress: () => void;
+  destructive?: boolean;
+}
+
+interface ReactionPickerProps {
+  visible: boolean;
+  // Emojis the current user has already reacted with
+  selected: string[];
+  // Extra message actions listed under the emojis (edit, delete, ...)
+  actions?: MessageAction[];
+  onSelect: (emoji: string) => void;
+  onClose: () => void;
+}
+
+export default function ReactionPicker({
+  visible,
+  selected,
+  actions = [],
+  onSelect,
+  onClose,
+}: ReactionPickerProps) {
+  const { theme } = useTheme();
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <LinearGradient
+            colors={theme.colors.gradients.starlight}
+            style={styles.picker}
+            start={{ x: 0, y: 0 }}
+            end={{ x: 1, y: 1 }}
+          >
+            {REACTION_EMOJIS.map(emoji => (
+              <TouchableOpacity
+                key={emoji}
+                style={[
+                  styles.emojiButton,
+                  selected.includes(emoji) && { backgroundColor: 'rgba(255, 255, 255, 0.25)' },
+                ]}
+                onPress={() => onSelect(emoji)}
+              >
+                <Text style={styles.emoji}>{emoji}</Text>
+              </TouchableOpacity>
+            ))}
+          </LinearGradient>
+
+          {actions.length > 0 && (
+            <View style={[styles.actions, { backgroundColor: theme.colors.deepSpace }]}>
+              {actions.map((action, index) => (
+                <TouchableOpacity
+                  key={action.label}
+                  style={[styles.actionButton, index > 0 && { borderTopColor: theme.colors.border, borderTopWidth: 1 }]}
+                  onPress={action.onPress}
+                >
+                  <Text
+                    style={[
+                      styles.actionText,
+                      { color: action.destructive ? theme.colors.error : theme.colors.etherealWhite },
+                    ]}
+                  >
+                    {action.label}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  picker: {
+    flexDirection: 'row',
+    paddingHorizontal: 8,
+    paddingVertical: 6,
+    borderRadius: 30,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 4 },
+    shadowOpacity: 0.3,
+    shadowRadius: 8,
+    elevation: 8,
+  },
+  emojiButton: {
+    padding: 8,
+    borderRadius: 22,
+  },
+  emoji: {
+    fontSize: 28,
+  },
+  actions: {
+    marginTop: 12,
+    minWidth: 220,
+    borderRadius: 16,
+    overflow: 'hidden',
+  },
+  actionButton: {
+    paddingVertical: 14,
+    paddingHorizontal: 20,
+    alignItems: 'center',
+  },
+  actionText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,274 @@
+import React, { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+  StyleSheet,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useTheme } from '../context/ThemeContext';
+
+interface ScheduleMessageModalProps {
+  visible: boolean;
+  title: string;
+  // When given, the message text can be edited alongside the time
+  content?: string;
+  initialSendAt?: Date;
+  submitLabel?: string;
+  onSubmit: (sendAt: Date, content?: string) => void;
+  onClose: () => void;
+}
+
+const MINUTE_STEP = 5;
+
+const atTime = (daysFromToday: number, hours: number, minutes = 0): Date => {
+  const date = new Date();
+  date.setDate(date.getDate() + daysFromToday);
+  date.setHours(hours, minutes, 0, 0);
+  return date;
+};
+
+// Quick picks for the moments couples schedule for most
+const presets = (): { label: string; sendAt: Date }[] => {
+  const inAnHour = new Date(Date.now() + 60 * 60 * 1000);
+  inAnHour.setSeconds(0, 0);
+  return [
+    { label: '🌙 Midnight', sendAt: atTime(1, 0) },
+    { label: '☀️ Tomorrow 8:00', sendAt: atTime(1, 8) },
+    { label: '⏰ In 1 hour', sendAt: inAnHour },
+  ];
+};
+
+// Next five-minute mark at least a few minutes from now
+const defaultSendAt = (): Date => {
+  const date = new Date(Date.now() + 10 * 60 * 1000);
+  date.setMinutes(Math.ceil(date.getMinutes() / MINUTE_STEP) * MINUTE_STEP, 0, 0);
+  return date;
+};
+
+export default function ScheduleMessageModal({
+  visible,
+  title,
+  content,
+  initialSendAt,
+  submitLabel = 'Schedule',
+  onSubmit,
+  onClose,
+}: ScheduleMessageModalProps) {
+  const { theme } = useTheme();
+  const [sendAt, setSendAt] = useState<Date>(defaultSendAt());
+  const [text, setText] = useState(content ?? '');
+
+  useEffect(() => {
+    // Start from the given values each time the modal opens
+    if (!visible) return;
+    setSendAt(initialSendAt ?? defaultSendAt());
+    setText(content ?? '');
+  }, [visible]);
+
+  const shift = (unit: 'day' | 'hour' | 'minute', amount: number) => {
+    const next = new Date(sendAt);
+    if (unit === 'day') next.setDate(next.getDate() + amount);
+    if (unit === 'hour') next.setHours(next.getHours() + amount);
+    if (unit === 'minute') next.setMinutes(next.getMinutes() + amount * MINUTE_STEP);
+    setSendAt(next);
+  };
+
+  const inPast = sendAt.getTime() <= Date.now();
+  const canSubmit = !inPast && (content === undefined || text.trim().length > 0);
+
+  const renderStepper = (unit: 'day' | 'hour' | 'minute', label: string) => (
+    <View style={styles.stepper}>
+      <TouchableOpacity style={styles.stepButton} onPress={() => shift(unit, 1)}>
+        <Text style={[styles.stepText, { color: theme.colors.etherealWhite }]}>＋</Text>
+      </TouchableOpacity>
+      <Text style={[styles.stepLabel, { color: theme.colors.moonlightSilver }]}>{label}</Text>
+      <TouchableOpacity style={styles.stepButton} onPress={() => shift(unit, -1)}>
+        <Text style={[styles.stepText, { color: theme.colors.etherealWhite }]}>－</Text>
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      transparent={true}
+      animationType="fade"
+      onRequestClose={onClose}
+    >
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.overlay}>
+          <TouchableWithoutFeedback>
+            <LinearGradient
+              colors={theme.colors.gradients.starlight}
+              style={styles.container}
+              start={{ x: 0, y: 0 }}
+              end={{ x: 1, y: 1 }}
+            >
+              <Text style={[styles.title, { color: theme.colors.etherealWhite }]}>{title}</Text>
+
+              {content !== undefined && (
+                <TextInput
+                  style={[styles.input, { color: theme.colors.etherealWhite, borderColor: theme.colors.border }]}
+                  value={text}
+                  onChangeText={setText}
+                  placeholder="Your love note..."
+                  placeholderTextColor={theme.colors.textSecondary}
+                  multiline
+                  maxLength={1000}
+                />
+              )}
+
+              <View style={styles.presets}>
+                {presets().map(preset => (
+                  <TouchableOpacity
+                    key={preset.label}
+                    style={[styles.preset, { borderColor: theme.colors.border }]}
+                    onPress={() => setSendAt(preset.sendAt)}
+                  >
+                    <Text style={[styles.presetText, { color: theme.colors.etherealWhite }]}>
+                      {preset.label}
+                    </Text>
+                  </TouchableOpacity>
+                ))}
+              </View>
+
+              <Text style={[styles.when, { color: inPast ? theme.colors.error : theme.colors.etherealWhite }]}>
+                {sendAt.toLocaleString([], {
+                  weekday: 'short',
+                  day: 'numeric',
+                  month: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                })}
+              </Text>
+              {inPast && (
+                <Text style={[styles.hint, { color: theme.colors.error }]}>Pick a time in the future</Text>
+              )}
+
+              <View style={styles.steppers}>
+                {renderStepper('day', 'Day')}
+                {renderStepper('hour', 'Hour')}
+                {renderStepper('minute', `${MINUTE_STEP} min`)}
+              </View>
+
+              <View style={styles.buttons}>
+                <TouchableOpacity style={styles.button} onPress={onClose}>
+                  <Text style={[styles.buttonText, { color: theme.colors.moonlightSilver }]}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, !canSubmit && styles.disabled]}
+                  disabled={!canSubmit}
+                  onPress={() => onSubmit(sendAt, content !== undefined ? text.trim() : undefined)}
+                >
+                  <Text style={[styles.buttonText, { color: theme.colors.stardustPink }]}>{submitLabel}</Text>
+                </TouchableOpacity>
+              </View>
+            </LinearGradient>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  overlay: {
+    flex: 1,
+    backgroundColor: 'rgba(0, 0, 0, 0.6)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+  },
+  container: {
+    width: '100%',
+    maxWidth: 400,
+    borderRadius: 20,
+    padding: 20,
+    alignItems: 'center',
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    marginBottom: 16,
+  },
+  input: {
+    width: '100%',
+    minHeight: 60,
+    maxHeight: 140,
+    borderWidth: 1,
+    borderRadius: 12,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    marginBottom: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    marginBottom: 16,
+  },
+  preset: {
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    margin: 4,
+  },
+  presetText: {
+    fontSize: 13,
+  },
+  when: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  hint: {
+    fontSize: 12,
+    marginTop: 4,
+  },
+  steppers: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+    width: '100%',
+    marginVertical: 16,
+  },
+  stepper: {
+    alignItems: 'center',
+  },
+  stepButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepText: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  stepLabel: {
+    fontSize: 12,
+    marginVertical: 6,
+  },
+  buttons: {
+    flexDirection: 'row',
+    width: '100%',
+  },
+  button: {
+    flex: 1,
+    paddingVertical: 12,
+    alignItems: 'center',
+  },
+  buttonText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  disabled: {
+    opacity: 0.4,
+  },
+});
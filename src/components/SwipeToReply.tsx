@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import Animated, {
+  Extrapolation,
+  interpolate,
+  runOnJS,
+  useAnimatedStyle,
+  useSharedValue,
+  withSpring,
+} from 'react-native-reanimated';
+
+interface SwipeToReplyProps {
+  enabled?: boolean;
+  onReply: () => void;
+  children: React.ReactNode;
+}
+
+// Drag distance (px) that triggers a reply, and how far the bubble can be pulled
+const REPLY_THRESHOLD = 60;
+const MAX_DRAG = 90;
+
+export default function SwipeToReply({ enabled = true, onReply, children }: SwipeToReplyProps) {
+  const translateX = useSharedValue(0);
+
+  // Horizontal drags only, so vertical scrolling of the list is unaffected
+  const pan = Gesture.Pan()
+    .enabled(enabled)
+    .activeOffsetX(15)
+    .failOffsetY([-10, 10])
+    .onUpdate((event) => {
+      translateX.value = Math.min(Math.max(event.translationX, 0), MAX_DRAG);
+    })
+    .onEnd(() => {
+      if (translateX.value >= REPLY_THRESHOLD) {
+        runOnJS(onReply)();
+      }
+      translateX.value = withSpring(0);
+    });
+
+  const contentStyle = useAnimatedStyle(() => ({
+    transform: [{ translateX: translateX.value }],
+  }));
+
+  const iconStyle = useAnimatedStyle(() => ({
+    opacity: interpolate(translateX.value, [0, REPLY_THRESHOLD], [0, 1], Extrapolation.CLAMP),
+    transform: [{ scale: interpolate(translateX.value, [0, REPLY_THRESHOLD], [0.5, 1], Extrapolation.CLAMP) }],
+  }));
+
+  return (
+    <GestureDetector gesture={pan}>
+      <View>
+        <Animated.View style={[styles.replyIcon, iconStyle]}>
+          <Text style={styles.replyIconText}>↩️</Text>
+        </Animated.View>
+        <Animated.View style={contentStyle}>
+          {children}
+        </Animated.View>
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  replyIcon: {
+    position: 'absolute',
+    left: 0,
+    top: 0,
+    bottom: 0,
+    justifyContent: 'center',
+  },
+  replyIconText: {
+    fontSize: 20,
+  },
+});
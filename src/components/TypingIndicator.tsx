@@ -0,0 +1,82 @@
+import React, { useEffect } from 'react';
+import { StyleSheet } from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import Animated, {
+  cancelAnimation,
+  useAnimatedStyle,
+  useSharedValue,
+  withDelay,
+  withRepeat,
+  withSequence,
+  withTiming,
+} from 'react-native-reanimated';
+import { useTheme } from '../context/ThemeContext';
+
+const DOT_COUNT = 3;
+const BOUNCE_HEIGHT = 5;
+const BOUNCE_DURATION = 300;
+// Offset between dots so they bounce one after another
+const DOT_STAGGER = 150;
+
+function Dot({ index, color }: { index: number; color: string }) {
+  const offset = useSharedValue(0);
+
+  useEffect(() => {
+    offset.value = withDelay(
+      index * DOT_STAGGER,
+      withRepeat(
+        withSequence(
+          withTiming(-BOUNCE_HEIGHT, { duration: BOUNCE_DURATION }),
+          withTiming(0, { duration: BOUNCE_DURATION }),
+          // Rest so the whole row finishes before the first dot goes again
+          withTiming(0, { duration: (DOT_COUNT - 1) * DOT_STAGGER })
+        ),
+        -1
+      )
+    );
+    return () => cancelAnimation(offset);
+  }, []);
+
+  const style = useAnimatedStyle(() => ({
+    transform: [{ translateY: offset.value }],
+  }));
+
+  return <Animated.View style={[styles.dot, { backgroundColor: color }, style]} />;
+}
+
+// Partner-side bubble with bouncing dots, shown while the partner types
+export default function TypingIndicator() {
+  const { theme } = useTheme();
+
+  return (
+    <LinearGradient
+      colors={theme.colors.gradients.starlight}
+      style={styles.bubble}
+      start={{ x: 0, y: 0 }}
+      end={{ x: 1, y: 1 }}
+    >
+      {Array.from({ length: DOT_COUNT }).map((_, index) => (
+        <Dot key={index} index={index} color={theme.colors.etherealWhite} />
+      ))}
+    </LinearGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  bubble: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    borderRadius: 20,
+    borderBottomLeftRadius: 8,
+    marginVertical: 4,
+  },
+  dot: {
+    width: 7,
+    height: 7,
+    borderRadius: 3.5,
+    marginHorizontal: 2,
+  },
+});
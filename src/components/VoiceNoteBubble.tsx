@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { useTheme } from '../context/ThemeContext';
+import voicePlayer, { PLAYBACK_RATES, VoicePlaybackStatus } from '../services/voicePlayer';
+import { formatDuration } from '../services/messagePreview';
+
+interface VoiceNoteBubbleProps {
+  messageId: string;
+  uri: string;
+  durationMillis?: number | null;
+  // Amplitude samples normalized to 0-1
+  waveform?: number[] | null;
+}
+
+const BAR_COUNT = 32;
+const MIN_BAR_HEIGHT = 3;
+const MAX_BAR_HEIGHT = 28;
+
+// Resample the stored waveform to a fixed number of bars
+const toBars = (waveform?: number[] | null): number[] => {
+  if (!waveform || waveform.length === 0) {
+    return new Array(BAR_COUNT).fill(0.2);
+  }
+  return Array.from({ length: BAR_COUNT }, (_, i) =>
+    waveform[Math.floor((i / BAR_COUNT) * waveform.length)]
+  );
+};
+
+export default function VoiceNoteBubble({ messageId, uri, durationMillis, waveform }: VoiceNoteBubbleProps) {
+  const { theme } = useTheme();
+  const [playback, setPlayback] = useState<VoicePlaybackStatus>(voicePlayer.getStatus());
+
+  useEffect(() => {
+    voicePlayer.on(setPlayback);
+    return () => voicePlayer.off(setPlayback);
+  }, []);
+
+  const isActive = playback.messageId === messageId;
+  const duration = (isActive && playback.durationMillis) || durationMillis || 0;
+  const progress = isActive && duration ? playback.positionMillis / duration : 0;
+  const bars = toBars(waveform);
+
+  const cycleRate = () => {
+    const next = PLAYBACK_RATES[(PLAYBACK_RATES.indexOf(playback.rate) + 1) % PLAYBACK_RATES.length];
+    voicePlayer.setRate(next);
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={[styles.playButton, { backgroundColor: 'rgba(255, 255, 255, 0.2)' }]}
+        onPress={() => voicePlayer.toggle(messageId, uri)}
+      >
+        <Text style={[styles.playIcon, { color: theme.colors.etherealWhite }]}>
+          {isActive && playback.isPlaying ? '❚❚' : '▶'}
+        </Text>
+      </TouchableOpacity>
+
+      <View style={styles.body}>
+        <View style={styles.waveform}>
+          {bars.map((level, index) => (
+            <View
+              key={index}
+              style={[
+                styles.bar,
+                {
+                  height: MIN_BAR_HEIGHT + level * (MAX_BAR_HEIGHT - MIN_BAR_HEIGHT),
+                  backgroundColor: theme.colors.etherealWhite,
+                  opacity: index / BAR_COUNT < progress ? 1 : 0.45,
+                },
+              ]}
+            />
+          ))}
+        </View>
+        <Text style={[styles.duration, { color: theme.colors.etherealWhite }]}>
+          {isActive && playback.positionMillis > 0
+            ? formatDuration(playback.positionMillis)
+            : formatDuration(duration)}
+        </Text>
+      </View>
+
+      <TouchableOpacity style={styles.rateButton} onPress={cycleRate}>
+        <Text style={[styles.rateText, { color: theme.colors.etherealWhite }]}>
+          {playback.rate}x
+        </Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    width: 240,
+  },
+  playButton: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 10,
+  },
+  playIcon: {
+    fontSize: 14,
+    fontWeight: 'bold',
+  },
+  body: {
+    flex: 1,
+  },
+  waveform: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    height: MAX_BAR_HEIGHT,
+  },
+  bar: {
+    flex: 1,
+    marginHorizontal: 1,
+    borderRadius: 2,
+  },
+  duration: {
+    fontSize: 11,
+    marginTop: 2,
+    opacity: 0.85,
+  },
+  rateButton: {
+    marginLeft: 8,
+    paddingHorizontal: 6,
+    paddingVertical: 2,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+  },
+  rateText: {
+    fontSize: 12,
+    fontWeight: '600',
+  },
+});
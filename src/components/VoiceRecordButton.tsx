@@ -0,0 +1,183 @@
+import React, { useRef } from 'react';
+import { View, Text, StyleSheet, Alert } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { LinearGradient } from 'expo-linear-gradient';
+import { Audio } from 'expo-av';
+import { useTheme } from '../context/ThemeContext';
+import voicePlayer from '../services/voicePlayer';
+
+export interface VoiceRecording {
+  uri: string;
+  durationMillis: number;
+  waveform: number[];
+}
+
+export interface VoiceRecordingState {
+  recording: boolean;
+  durationMillis: number;
+  // The finger has slid far enough left that releasing discards the note
+  cancelling: boolean;
+}
+
+interface VoiceRecordButtonProps {
+  disabled?: boolean;
+  onRecorded: (recording: VoiceRecording) => void;
+  onStateChange?: (state: VoiceRecordingState) => void;
+}
+
+const CANCEL_DISTANCE = 100;
+const MIN_DURATION = 700;
+const WAVEFORM_SAMPLES = 48;
+// Metering is reported in dBFS; anything below this floor counts as silence
+const METERING_FLOOR = -60;
+
+const normalizeMetering = (metering?: number) =>
+  metering === undefined ? 0 : Math.min(Math.max((metering - METERING_FLOOR) / -METERING_FLOOR, 0), 1);
+
+// Average raw samples down to a fixed-size waveform
+const downsample = (samples: number[]): number[] => {
+  if (samples.length <= WAVEFORM_SAMPLES) return samples;
+
+  const bucketSize = samples.length / WAVEFORM_SAMPLES;
+  return Array.from({ length: WAVEFORM_SAMPLES }, (_, i) => {
+    const bucket = samples.slice(Math.floor(i * bucketSize), Math.floor((i + 1) * bucketSize));
+    const average = bucket.reduce((sum, value) => sum + value, 0) / bucket.length;
+    return Math.round(average * 100) / 100;
+  });
+};
+
+// Hold to record a voice note; slide left to cancel, release to send
+export default function VoiceRecordButton({ disabled, onRecorded, onStateChange }: VoiceRecordButtonProps) {
+  const { theme } = useTheme();
+  const recordingRef = useRef<Promise<Audio.Recording | null> | null>(null);
+  const samplesRef = useRef<number[]>([]);
+  const durationRef = useRef(0);
+  const cancellingRef = useRef(false);
+
+  const notify = (recording: boolean) => {
+    onStateChange?.({
+      recording,
+      durationMillis: durationRef.current,
+      cancelling: cancellingRef.current,
+    });
+  };
+
+  const startRecording = async (): Promise<Audio.Recording | null> => {
+    samplesRef.current = [];
+    durationRef.current = 0;
+    cancellingRef.current = false;
+
+    try {
+      const permission = await Audio.requestPermissionsAsync();
+      if (!permission.granted) {
+        Alert.alert('Permission needed', 'Microphone access is needed to record voice messages.');
+        return null;
+      }
+
+      await voicePlayer.stop();
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: true, playsInSilentModeIOS: true });
+      const { recording } = await Audio.Recording.createAsync(
+        { ...Audio.RecordingOptionsPresets.HIGH_QUALITY, isMeteringEnabled: true },
+        status => {
+          if (!status.isRecording) return;
+          samplesRef.current.push(normalizeMetering(status.metering));
+          durationRef.current = status.durationMillis;
+          notify(true);
+        },
+        100
+      );
+      console.log('Voice recording started');
+      notify(true);
+      return recording;
+    } catch (error) {
+      console.error('Failed to start voice recording:', error);
+      return null;
+    }
+  };
+
+  const finishRecording = async () => {
+    const pending = recordingRef.current;
+    recordingRef.current = null;
+    const recording = await pending;
+    if (!recording) return;
+
+    try {
+      await recording.stopAndUnloadAsync();
+    } catch (error) {
+      // Thrown when stopped before any audio was captured
+      console.error('Failed to stop voice recording:', error);
+    }
+    await Audio.setAudioModeAsync({ allowsRecordingIOS: false }).catch(() => undefined);
+    notify(false);
+
+    const uri = recording.getURI();
+    if (cancellingRef.current || !uri) {
+      console.log('Voice recording cancelled');
+      return;
+    }
+    if (durationRef.current < MIN_DURATION) {
+      Alert.alert('Hold to record', 'Keep holding the microphone to record a voice message.');
+      return;
+    }
+
+    onRecorded({
+      uri,
+      durationMillis: durationRef.current,
+      waveform: downsample(samplesRef.current),
+    });
+  };
+
+  // Runs on the JS thread: recording is driven by expo-av, not worklets
+  const gesture = Gesture.Pan()
+    .enabled(!disabled)
+    .runOnJS(true)
+    .minDistance(0)
+    .onBegin(() => {
+      recordingRef.current = startRecording();
+    })
+    .onUpdate((event) => {
+      const cancelling = event.translationX < -CANCEL_DISTANCE;
+      if (cancelling !== cancellingRef.current) {
+        cancellingRef.current = cancelling;
+        notify(true);
+      }
+    })
+    .onFinalize(() => {
+      finishRecording();
+    });
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <View style={[styles.button, disabled && styles.disabled]}>
+        <LinearGradient
+          colors={theme.colors.gradients.romantic}
+          style={styles.gradient}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <Text style={styles.icon}>🎤</Text>
+        </LinearGradient>
+      </View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  button: {
+    width: 44,
+    height: 44,
+  },
+  disabled: {
+    opacity: 0.6,
+  },
+  gradient: {
+    width: '100%',
+    height: '100%',
+    borderRadius: 22,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  icon: {
+    fontSize: 20,
+  },
+});
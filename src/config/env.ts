@@ -11,6 +11,8 @@ interface EnvConfig {
   // API Configuration
   API_BASE_URL: string;
   WEBSOCKET_URL: string;
+  // Full URL of the link preview endpoint; empty uses the API's /link-preview
+  LINK_PREVIEW_URL: string;
 
   // App Configuration
   APP_NAME: string;
@@ -28,12 +30,12 @@ interface EnvConfig {
 
   // Security
   JWT_SECRET?: string;
-  ENCRYPTION_KEY?: string;
 
   // Feature flags
   ENABLE_WEBSOCKET: boolean;
   ENABLE_PUSH_NOTIFICATIONS: boolean;
   ENABLE_ANALYTICS: boolean;
+  ENABLE_LINK_PREVIEWS: boolean;
 }
 
 /**
@@ -92,6 +94,7 @@ export const ENV: EnvConfig = {
   // API Configuration
   API_BASE_URL: getEnvVar('API_BASE_URL', 'https://prs-c7e1.onrender.com'),
   WEBSOCKET_URL: getEnvVar('WEBSOCKET_URL', 'https://prs-c7e1.onrender.com/chat'),
+  LINK_PREVIEW_URL: getEnvVar('LINK_PREVIEW_URL', ''),
 
   // App Configuration
   APP_NAME: getEnvVar('APP_NAME', 'Cosmic Love'),
@@ -109,12 +112,12 @@ export const ENV: EnvConfig = {
 
   // Security (optional)
   JWT_SECRET: getEnvVar('JWT_SECRET', 'default-jwt-secret-for-development'),
-  ENCRYPTION_KEY: getEnvVar('ENCRYPTION_KEY', 'default-encryption-key-for-development'),
 
   // Feature flags
   ENABLE_WEBSOCKET: getBooleanEnvVar('ENABLE_WEBSOCKET', true),
   ENABLE_PUSH_NOTIFICATIONS: getBooleanEnvVar('ENABLE_PUSH_NOTIFICATIONS', false),
   ENABLE_ANALYTICS: getBooleanEnvVar('ENABLE_ANALYTICS', false),
+  ENABLE_LINK_PREVIEWS: getBooleanEnvVar('ENABLE_LINK_PREVIEWS', true),
 };
 
 /**
@@ -1,14 +1,15 @@
 import React, { createContext, useContext, useEffect, useState, ReactNode } from 'react';
 import * as SecureStore from 'expo-secure-store';
 import apiService from '../services/api';
-
-interface User {
-  id: string;
-  email: string;
-  fullName?: string;
-  avatarUrl?: string;
-  role: string;
-}
+import messageStore from '../services/messageStore';
+import outboxService from '../services/outbox';
+import unreadStore from '../services/unreadStore';
+import draftStore from '../services/draftStore';
+import scheduledMessages from '../services/scheduledMessages';
+import encryptionService from '../services/encryption';
+import starredStore from '../services/starredStore';
+import linkPreviews from '../services/linkPreviews';
+import { UpdateUserRequest, User } from '../services/schemas';
 
 interface AuthContextType {
   user: User | null;
@@ -17,11 +18,23 @@ interface AuthContextType {
   signUp: (email: string, password: string, userData?: any) => Promise<{ error: any }>;
   signOut: () => Promise<void>;
   resetPassword: (email: string) => Promise<{ error: any }>;
-  updateProfile: (updates: any) => Promise<{ error: any }>;
+  updateProfile: (updates: UpdateUserRequest) => Promise<{ error: any }>;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Unload everything kept for the signed-in user
+const resetUserData = () => {
+  outboxService.reset();
+  unreadStore.reset();
+  draftStore.reset();
+  scheduledMessages.reset();
+  encryptionService.reset();
+  starredStore.reset();
+  linkPreviews.reset();
+  messageStore.close();
+};
+
 interface AuthProviderProps {
   children: ReactNode;
 }
@@ -30,9 +43,33 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const [user, setUser] = useState<User | null>(null);
   const [loading, setLoading] = useState(true);
 
+  useEffect(() => {
+    // Each user gets their own encryption keys, on-device history, unread counts,
+    // drafts, scheduled and starred messages and link previews
+    if (user?.id) {
+      // Keys first, so messages arriving while they load can be opened
+      encryptionService.init(user.id);
+      messageStore.open(user.id);
+      unreadStore.init(user.id);
+      draftStore.init(user.id);
+      scheduledMessages.init(user.id);
+      starredStore.init(user.id);
+      linkPreviews.init(user.id);
+    }
+  }, [user?.id]);
+
   useEffect(() => {
     // Check for existing auth token and get user profile
     checkAuthStatus();
+
+    // Drop the user only once the refresh token itself has been rejected
+    const handleSessionExpired = () => {
+      console.log('Session expired, signing out');
+      resetUserData();
+      setUser(null);
+    };
+    apiService.onSessionExpired(handleSessionExpired);
+    return () => apiService.offSessionExpired(handleSessionExpired);
   }, []);
 
   const checkAuthStatus = async () => {
@@ -48,10 +85,8 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
         console.log('No auth token found');
       }
     } catch (error) {
+      // Expired tokens are refreshed (or cleared) by the API client's 401 handling
       console.error('Auth check failed:', error);
-      // Clear invalid token
-      await SecureStore.deleteItemAsync('auth_token');
-      console.log('Invalid auth token cleared');
     } finally {
       setLoading(false);
       console.log('Auth check completed');
@@ -111,6 +146,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const signOut = async () => {
     try {
       await apiService.logout();
+      resetUserData();
       setUser(null);
     } catch (error) {
       console.error('Sign out error:', error);
@@ -122,7 +158,7 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
     return { error: { message: 'Password reset not implemented yet' } };
   };
 
-  const updateProfile = async (updates: any) => {
+  const updateProfile = async (updates: UpdateUserRequest) => {
     try {
       if (!user) return { error: { message: 'No user logged in' } };
 
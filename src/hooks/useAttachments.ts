@@ -0,0 +1,111 @@
+import { Alert } from 'react-native';
+import * as ImagePicker from 'expo-image-picker';
+import outboxService from '../services/outbox';
+import { Message, User } from '../services/websocket';
+import { VoiceRecording } from '../components/VoiceRecordButton';
+
+/**
+ * Attachments
+ *
+ * Photos, videos and voice notes picked in the composer, handed to the
+ * outbox which uploads them and sends their message. Anything typed in the
+ * composer goes along as a photo's or video's caption.
+ */
+
+const MAX_VIDEO_DURATION = 120;
+
+export const useAttachments = (
+  partner: User | null,
+  caption: string,
+  replyingTo: Message | null,
+  // Called once queued; `captionUsed` when the composer text went with it
+  onQueued: (captionUsed: boolean) => void
+) => {
+  const pickAttachment = () => {
+    Alert.alert('Share a memory', undefined, [
+      { text: 'Photo Library', onPress: () => attachMedia('library') },
+      { text: 'Camera', onPress: () => attachMedia('camera') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Long-pressing attach shares a photo or video that can be opened only once
+  const pickViewOnceAttachment = () => {
+    Alert.alert('View once', 'It can be opened one time, then disappears from both phones.', [
+      { text: 'Photo Library', onPress: () => attachMedia('library', true) },
+      { text: 'Camera', onPress: () => attachMedia('camera', true) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  const attachMedia = async (source: 'library' | 'camera', viewOnce = false) => {
+    if (!partner) return;
+
+    const permission = source === 'camera'
+      ? await ImagePicker.requestCameraPermissionsAsync()
+      : await ImagePicker.requestMediaLibraryPermissionsAsync();
+    if (!permission.granted) {
+      Alert.alert(
+        'Permission needed',
+        source === 'camera'
+          ? 'Camera access is needed to share photos and videos.'
+          : 'Photo library access is needed to share photos and videos.'
+      );
+      return;
+    }
+
+    const options: ImagePicker.ImagePickerOptions = {
+      mediaTypes: ['images', 'videos'],
+      quality: 0.8,
+      videoMaxDuration: MAX_VIDEO_DURATION,
+    };
+    const result = source === 'camera'
+      ? await ImagePicker.launchCameraAsync(options)
+      : await ImagePicker.launchImageLibraryAsync(options);
+    const asset = result.canceled ? null : result.assets[0];
+    if (!asset) return;
+
+    const isVideo = asset.type === 'video';
+    try {
+      await outboxService.enqueue(partner.id, caption.trim(), isVideo ? 'VIDEO' : 'IMAGE', {
+        replyToId: replyingTo?.id,
+        viewOnce,
+        attachment: {
+          uri: asset.uri,
+          mimeType: asset.mimeType || (isVideo ? 'video/mp4' : 'image/jpeg'),
+          fileName: asset.fileName || (isVideo ? 'video.mp4' : 'photo.jpg'),
+          width: asset.width,
+          height: asset.height,
+          duration: asset.duration ?? undefined,
+        },
+      });
+      onQueued(true);
+    } catch (error) {
+      console.error('Failed to queue attachment:', error);
+      Alert.alert('Error', 'Failed to send attachment. Please try again.');
+    }
+  };
+
+  const sendVoiceNote = async (recording: VoiceRecording) => {
+    if (!partner) return;
+
+    try {
+      await outboxService.enqueue(partner.id, '', 'VOICE', {
+        replyToId: replyingTo?.id,
+        attachment: {
+          uri: recording.uri,
+          mimeType: 'audio/mp4',
+          fileName: 'voice-note.m4a',
+          duration: recording.durationMillis,
+          waveform: recording.waveform,
+        },
+      });
+      onQueued(false);
+    } catch (error) {
+      console.error('Failed to queue voice note:', error);
+      Alert.alert('Error', 'Failed to send voice message. Please try again.');
+    }
+  };
+
+  return { pickAttachment, pickViewOnceAttachment, sendVoiceNote };
+};
@@ -0,0 +1,110 @@
+import { useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import websocketService, {
+  ChatInvitation,
+  ChatInvitationAcceptedAck,
+  ChatInvitationRejectedAck,
+} from '../services/websocket';
+
+/**
+ * Chat Invitations
+ *
+ * Invitations arriving while a chat is open: the invitation modal, the
+ * banner announcing it, and the answers to the ones we sent.
+ */
+
+export interface InvitationNotice {
+  visible: boolean;
+  type: 'received' | 'accepted' | 'rejected' | 'sent';
+  senderName?: string;
+  recipientName?: string;
+  message?: string;
+}
+
+export const useChatInvitations = () => {
+  const [currentInvitation, setCurrentInvitation] = useState<ChatInvitation | null>(null);
+  const [showInvitationModal, setShowInvitationModal] = useState(false);
+  const [notification, setNotification] = useState<InvitationNotice>({ visible: false, type: 'received' });
+
+  useEffect(() => {
+    const handleReceived = (invitation: ChatInvitation) => {
+      console.log(`Chat invitation received: ${invitation.id}`);
+      setCurrentInvitation(invitation);
+      setShowInvitationModal(true);
+      setNotification({
+        visible: true,
+        type: 'received',
+        senderName: invitation.sender.fullName,
+        message: invitation.message,
+      });
+    };
+
+    const handleAccepted = (data: ChatInvitationAcceptedAck) => {
+      console.log('Chat invitation accepted:', data);
+      setNotification({ visible: true, type: 'accepted', recipientName: 'User' });
+    };
+
+    const handleRejected = (data: ChatInvitationRejectedAck) => {
+      console.log('Chat invitation rejected:', data);
+      setNotification({ visible: true, type: 'rejected', recipientName: 'User' });
+    };
+
+    websocketService.on('chat_invitation_received', handleReceived);
+    websocketService.on('chat_invitation_accepted', handleAccepted);
+    websocketService.on('chat_invitation_rejected', handleRejected);
+    return () => {
+      websocketService.off('chat_invitation_received', handleReceived);
+      websocketService.off('chat_invitation_accepted', handleAccepted);
+      websocketService.off('chat_invitation_rejected', handleRejected);
+    };
+  }, []);
+
+  const acceptInvitation = async () => {
+    if (!currentInvitation) return;
+
+    try {
+      await websocketService.acceptChatInvitation(currentInvitation.id);
+      setShowInvitationModal(false);
+      setCurrentInvitation(null);
+    } catch (error: any) {
+      console.error('Failed to accept invitation:', error);
+      Alert.alert('Error', error.message || 'Failed to accept invitation');
+    }
+  };
+
+  const rejectInvitation = async () => {
+    if (!currentInvitation) return;
+
+    try {
+      await websocketService.rejectChatInvitation(currentInvitation.id);
+      setShowInvitationModal(false);
+      setCurrentInvitation(null);
+    } catch (error: any) {
+      console.error('Failed to reject invitation:', error);
+      Alert.alert('Error', error.message || 'Failed to reject invitation');
+    }
+  };
+
+  const dismissNotification = () => {
+    setNotification(current => ({ ...current, visible: false }));
+  };
+
+  // Tapping the banner of a received invitation reopens it
+  const openNotification = () => {
+    if (notification.type === 'received' && currentInvitation) {
+      setShowInvitationModal(true);
+    }
+    dismissNotification();
+  };
+
+  return {
+    currentInvitation,
+    showInvitationModal,
+    closeInvitationModal: () => setShowInvitationModal(false),
+    acceptInvitation,
+    rejectInvitation,
+    notification,
+    dismissNotification,
+    openNotification,
+  };
+};
@@ -0,0 +1,123 @@
+import { useEffect, useRef, useState } from 'react';
+import websocketService, {
+  RoomEvent,
+  SocketErrorEvent,
+  User,
+  WebSocketEventPayload,
+} from '../services/websocket';
+
+/**
+ * Chat Socket
+ *
+ * Joins the conversation's room, keeps the screen's connection status and
+ * hands the conversation's events to the screen. Listeners are registered
+ * before connecting, so a connection that only comes up later (socket.io
+ * keeps retrying) still reaches the screen.
+ */
+
+type ChatSocketEvent =
+  | 'new_message'
+  | 'message_read'
+  | 'messages_read'
+  | 'message_edited'
+  | 'message_deleted'
+  | 'message_expired'
+  | 'message_pinned'
+  | 'message_unpinned'
+  | 'reaction_added'
+  | 'reaction_removed'
+  | 'reconnected';
+
+export type ChatSocketHandlers = { [E in ChatSocketEvent]: (data: WebSocketEventPayload<E>) => void };
+
+const CHAT_SOCKET_EVENTS: ChatSocketEvent[] = [
+  'new_message',
+  'message_read',
+  'messages_read',
+  'message_edited',
+  'message_deleted',
+  'message_expired',
+  'message_pinned',
+  'message_unpinned',
+  'reaction_added',
+  'reaction_removed',
+  'reconnected',
+];
+
+export const useChatSocket = (partner: User | null, user: User | null, handlers: ChatSocketHandlers) => {
+  const [isConnected, setIsConnected] = useState(false);
+  const [connectionError, setConnectionError] = useState<string | null>(null);
+  // Listeners live as long as the room; they call whatever handlers the last render passed
+  const handlersRef = useRef(handlers);
+  handlersRef.current = handlers;
+
+  useEffect(() => {
+    if (!partner || !user) return;
+
+    const forward = <E extends ChatSocketEvent>(event: E) => {
+      const listener = (data: WebSocketEventPayload<E>) => handlersRef.current[event](data);
+      websocketService.on(event, listener);
+      return () => websocketService.off(event, listener);
+    };
+
+    const handleError = (error: SocketErrorEvent) => {
+      console.error('WebSocket error:', error);
+      setConnectionError('Connection error occurred');
+      setIsConnected(false);
+    };
+
+    const handleDisconnected = (data: { reason: string }) => {
+      console.log('WebSocket disconnected:', data.reason);
+      setIsConnected(false);
+      setConnectionError('Connection lost');
+    };
+
+    const handleConnected = () => {
+      setIsConnected(true);
+      setConnectionError(null);
+    };
+
+    const handleRoomJoined = (data: RoomEvent) => {
+      console.log('Room joined successfully:', data);
+      setConnectionError(null);
+    };
+
+    const unsubscribes = CHAT_SOCKET_EVENTS.map(event => forward(event));
+    websocketService.on('error', handleError);
+    websocketService.on('disconnected', handleDisconnected);
+    websocketService.on('connected', handleConnected);
+    websocketService.on('room_joined', handleRoomJoined);
+
+    // Remembered while offline too, so the room is joined once the socket connects
+    websocketService.joinRoom(partner.id);
+    setupConnection(user.id);
+
+    return () => {
+      websocketService.leaveRoom(partner.id);
+      unsubscribes.forEach(unsubscribe => unsubscribe());
+      websocketService.off('error', handleError);
+      websocketService.off('disconnected', handleDisconnected);
+      websocketService.off('connected', handleConnected);
+      websocketService.off('room_joined', handleRoomJoined);
+    };
+  }, [partner?.id, user?.id]);
+
+  const setupConnection = async (userId: string) => {
+    try {
+      setConnectionError(null);
+
+      const connected = await websocketService.connect(userId);
+      if (connected) {
+        setIsConnected(true);
+        console.log('WebSocket connected and room joined');
+      } else {
+        setConnectionError('Failed to connect to chat server');
+      }
+    } catch (error) {
+      console.error('Failed to setup WebSocket connection:', error);
+      setConnectionError('Failed to connect to chat server');
+    }
+  };
+
+  return { isConnected, connectionError };
+};
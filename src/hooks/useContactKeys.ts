@@ -0,0 +1,39 @@
+import { Dispatch, SetStateAction, useEffect, useState } from 'react';
+import messageStore from '../services/messageStore';
+import encryptionService, { ContactKey } from '../services/encryption';
+import { Message, User } from '../services/websocket';
+
+/**
+ * Contact Keys
+ *
+ * Trust state of the partner's device keys and of our own, for the chat's
+ * warnings. Messages hidden behind a key we didn't trust open on screen
+ * once it is trusted.
+ */
+
+export const useContactKeys = (partner: User | null, setMessages: Dispatch<SetStateAction<Message[]>>) => {
+  const [partnerKey, setPartnerKey] = useState<ContactKey | null>(
+    partner ? encryptionService.getContact(partner.id) : null
+  );
+  const [ownKey, setOwnKey] = useState<ContactKey | null>(encryptionService.getOwnContact());
+
+  useEffect(() => {
+    if (!partner) return;
+
+    const handleKeysChanged = () => {
+      setPartnerKey(encryptionService.getContact(partner.id));
+      setOwnKey(encryptionService.getOwnContact());
+      messageStore.reopenSealed(partner.id).then(reopened => {
+        if (reopened.length === 0) return;
+        const byId = new Map(reopened.map(message => [message.id, message]));
+        setMessages(prev => prev.map(msg => byId.get(msg.id) ?? msg));
+      });
+    };
+    encryptionService.on(handleKeysChanged);
+    // Pick up new keys before the first message goes out
+    encryptionService.getPartnerKeys(partner.id, { refresh: true }).then(handleKeysChanged);
+    return () => encryptionService.off(handleKeysChanged);
+  }, [partner?.id]);
+
+  return { partnerKey, ownKey };
+};
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+import { Alert } from 'react-native';
+import { User } from '../services/websocket';
+import { ExportError, ExportFormat, exportConversation } from '../services/conversationExport';
+
+/**
+ * Conversation Export
+ *
+ * The format picker and the export it starts, which hands the finished
+ * file to the share sheet.
+ */
+
+export const useConversationExport = (user: User | null, partner: User | null) => {
+  const [choosingFormat, setChoosingFormat] = useState(false);
+  const [exporting, setExporting] = useState(false);
+
+  const exportChat = async (format: ExportFormat) => {
+    // Closed first; the share sheet can't open over a modal on iOS
+    setChoosingFormat(false);
+    if (!partner || !user) return;
+
+    setExporting(true);
+    try {
+      const { complete } = await exportConversation(user, partner, format);
+      if (!complete) {
+        Alert.alert(
+          'Export is partial',
+          'Some messages couldn\'t be loaded from the server, so only the ones saved on this phone were included.'
+        );
+      }
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      Alert.alert(
+        'Export failed',
+        error instanceof ExportError ? error.message : 'Could not put your story together. Please try again.'
+      );
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return { choosingFormat, setChoosingFormat, exporting, exportChat };
+};
@@ -0,0 +1,69 @@
+import { Dispatch, SetStateAction, useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import apiService from '../services/api';
+import websocketService, { Message, User } from '../services/websocket';
+import { isExpired } from '../services/disappearing';
+import { ConversationSettings } from '../services/schemas';
+
+/**
+ * Disappearing Messages
+ *
+ * The conversation's shared timer, which either partner can change, and
+ * the clock that counts expiring messages down and drops them from the
+ * screen as they run out. The local store purges its copies on its own
+ * schedule.
+ */
+
+// Countdown refresh while disappearing messages are on screen
+const COUNTDOWN_TICK_MS = 1000;
+
+export const useDisappearing = (
+  partner: User | null,
+  messages: Message[],
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  // Seconds after which new messages in this conversation disappear
+  const [disappearAfter, setDisappearAfter] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    if (!partner) return;
+
+    const handleSettingsUpdated = (settings: ConversationSettings) => {
+      if (settings.partnerId === partner.id) setDisappearAfter(settings.disappearAfter);
+    };
+    websocketService.on('conversation_settings_updated', handleSettingsUpdated);
+    apiService.getConversationSettings(partner.id)
+      .then(settings => setDisappearAfter(settings.disappearAfter))
+      .catch(error => console.error('Failed to load conversation settings:', error));
+    return () => websocketService.off('conversation_settings_updated', handleSettingsUpdated);
+  }, [partner?.id]);
+
+  const hasExpiringMessages = useMemo(() => messages.some(msg => msg.expiresAt), [messages]);
+  useEffect(() => {
+    if (!hasExpiringMessages) return;
+
+    const tick = setInterval(() => {
+      const current = Date.now();
+      setNow(current);
+      setMessages(prev => prev.some(msg => isExpired(msg, current))
+        ? prev.filter(msg => !isExpired(msg, current))
+        : prev);
+    }, COUNTDOWN_TICK_MS);
+    return () => clearInterval(tick);
+  }, [hasExpiringMessages]);
+
+  const changeTimer = async (seconds: number | null) => {
+    if (!partner || seconds === disappearAfter) return;
+
+    try {
+      const settings = await apiService.updateConversationSettings(partner.id, { disappearAfter: seconds });
+      setDisappearAfter(settings.disappearAfter);
+    } catch (error: any) {
+      console.error('Failed to update disappearing messages:', error);
+      Alert.alert('Error', error.message || 'Failed to change disappearing messages');
+    }
+  };
+
+  return { disappearAfter, now, changeTimer };
+};
@@ -0,0 +1,56 @@
+import { Dispatch, SetStateAction, useRef, useState } from 'react';
+import messageStore from '../services/messageStore';
+import { Message } from '../services/websocket';
+import { formatTime } from '../services/messageTimeline';
+import { expireMessage } from '../services/disappearing';
+import { ViewerMedia } from '../components/MediaViewer';
+
+/**
+ * Media Viewer
+ *
+ * Photos and videos opened full screen. A view-once message expires on
+ * both phones as soon as its viewer closes.
+ */
+
+export const useMediaViewer = (setMessages: Dispatch<SetStateAction<Message[]>>) => {
+  const [viewerMedia, setViewerMedia] = useState<ViewerMedia | null>(null);
+  // View-once message open in the viewer; it expires when the viewer closes
+  const viewOnceRef = useRef<Message | null>(null);
+
+  const openMedia = (message: Message) => {
+    if (!message.media) return;
+    setViewerMedia({
+      uri: message.media.url,
+      type: message.type === 'VIDEO' ? 'video' : 'image',
+      subtitle: formatTime(message.createdAt),
+    });
+  };
+
+  const openViewOnce = (message: Message) => {
+    if (!message.media) return;
+    viewOnceRef.current = message;
+    setViewerMedia({
+      uri: message.media.url,
+      type: message.type === 'VIDEO' ? 'video' : 'image',
+      title: message.content || undefined,
+      subtitle: 'View once',
+    });
+  };
+
+  const closeViewer = async () => {
+    setViewerMedia(null);
+    const opened = viewOnceRef.current;
+    viewOnceRef.current = null;
+    if (!opened) return;
+
+    setMessages(prev => prev.filter(msg => msg.id !== opened.id));
+    messageStore.removeMessage(opened.id);
+    try {
+      await expireMessage(opened.id);
+    } catch (error) {
+      console.error('Failed to expire view-once message:', error);
+    }
+  };
+
+  return { viewerMedia, openMedia, openViewOnce, closeViewer };
+};
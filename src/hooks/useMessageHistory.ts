@@ -0,0 +1,215 @@
+import { Dispatch, MutableRefObject, SetStateAction, useCallback, useRef, useState } from 'react';
+import { Alert } from 'react-native';
+import apiService from '../services/api';
+import messageStore from '../services/messageStore';
+import outboxService from '../services/outbox';
+import { Message, User } from '../services/websocket';
+
+/**
+ * Message History
+ *
+ * Loads the conversation onto the screen: the on-device copy first, then
+ * the server's latest page, older pages as the user scrolls up and what
+ * was missed while the socket was down. Also brings a message that may not
+ * be loaded yet into view, paging back through history to find it.
+ */
+
+const MESSAGES_PAGE_SIZE = 30;
+// Upper bound on history pages fetched while looking for a quoted message
+const MAX_QUOTE_LOOKUP_PAGES = 10;
+// Upper bound on pages fetched to catch up after a reconnect; beyond it the gap is left to scrolling
+const MAX_CATCH_UP_PAGES = 10;
+const HIGHLIGHT_DURATION = 1500;
+
+// Merge server messages into the list, dropping duplicates and keeping chronological order
+export const mergeMessages = (current: Message[], incoming: Message[]): Message[] => {
+  const byId = new Map(current.map(m => [m.id, m]));
+  incoming.forEach(m => byId.set(m.id, m));
+  return Array.from(byId.values()).sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+};
+
+export const useMessageHistory = (
+  partner: User | null,
+  messagesRef: MutableRefObject<Message[]>,
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  const [loading, setLoading] = useState(true);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [hasMoreHistory, setHasMoreHistory] = useState(true);
+  // Why the server copy couldn't be loaded; 'Offline' while showing stored history
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  // Message to bring into view once it has been rendered
+  const scrollTargetRef = useRef<string | null>(null);
+
+  const loadLatest = async () => {
+    if (!partner) return;
+
+    setLoadError(null);
+
+    // Render the on-device copy immediately, then reconcile with the server
+    const cached = await messageStore.getMessages(partner.id, { limit: MESSAGES_PAGE_SIZE });
+    if (cached.length > 0) {
+      setMessages(cached);
+      setLoading(false);
+    } else {
+      setLoading(true);
+    }
+
+    try {
+      // Load the most recent page; older pages load as the user scrolls up
+      const latest = await apiService.getMessages(partner.id, { limit: MESSAGES_PAGE_SIZE });
+      await messageStore.upsertMessages(latest);
+
+      // If the server page starts after everything we had cached there is a gap;
+      // show the fresh page and let scrolling fill in the rest
+      const newestCached = cached[cached.length - 1];
+      const hasGap = newestCached && latest.length >= MESSAGES_PAGE_SIZE &&
+        latest[0] && latest[0].createdAt > newestCached.createdAt;
+      setMessages(prev => mergeMessages(hasGap ? [] : prev, latest));
+      setHasMoreHistory(cached.length >= MESSAGES_PAGE_SIZE || latest.length >= MESSAGES_PAGE_SIZE);
+    } catch (error: any) {
+      console.error('Failed to load chat data:', error);
+      if (cached.length > 0) {
+        // Read-only offline mode: history comes from the local store
+        setLoadError('Offline');
+      } else {
+        const errorMessage = error.message || 'Failed to load messages. Please try again.';
+        setLoadError(errorMessage);
+        Alert.alert('Connection Error', errorMessage);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Page of history before `before`, served from the local store when it has a full page
+  const fetchOlderPage = async (partnerId: string, before: string): Promise<{ page: Message[]; hasMore: boolean }> => {
+    const stored = await messageStore.getMessages(partnerId, {
+      before,
+      limit: MESSAGES_PAGE_SIZE,
+    });
+    if (stored.length >= MESSAGES_PAGE_SIZE) {
+      return { page: stored, hasMore: true };
+    }
+
+    try {
+      const older = await apiService.getMessages(partnerId, {
+        before,
+        limit: MESSAGES_PAGE_SIZE,
+      });
+      console.log(`Loaded ${older.length} older message(s)`);
+      await messageStore.upsertMessages(older);
+      return { page: [...stored, ...older], hasMore: older.length >= MESSAGES_PAGE_SIZE };
+    } catch (error) {
+      console.error('Failed to load older messages:', error);
+      return { page: stored, hasMore: true };
+    }
+  };
+
+  const loadOlder = async () => {
+    const oldest = messagesRef.current[0];
+    if (!partner || !oldest || loadingOlder || !hasMoreHistory) return;
+
+    try {
+      setLoadingOlder(true);
+      const { page, hasMore } = await fetchOlderPage(partner.id, oldest.createdAt);
+      setMessages(prev => mergeMessages(prev, page));
+      setHasMoreHistory(hasMore);
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  /**
+   * Fetch what arrived after the newest message on screen. The server
+   * returns the newest page after a cursor, so pages are walked back from
+   * the present until a short one meets what we already had.
+   */
+  const catchUp = useCallback(async () => {
+    if (!partner) return;
+
+    const current = messagesRef.current;
+    const lastSeen = current[current.length - 1];
+    try {
+      let missed: Message[] = [];
+      let complete = false;
+      for (let pages = 0; pages < MAX_CATCH_UP_PAGES && !complete; pages++) {
+        const page = await apiService.getMessages(partner.id, {
+          ...(lastSeen && { after: lastSeen.createdAt }),
+          ...(missed[0] && { before: missed[0].createdAt }),
+          limit: MESSAGES_PAGE_SIZE,
+        });
+        missed = [...page, ...missed];
+        // Without anything on screen the latest page is all we need
+        complete = !lastSeen || page.length < MESSAGES_PAGE_SIZE;
+      }
+
+      console.log(`Resynced ${missed.length} message(s) after reconnect`);
+      missed.forEach(message => outboxService.acknowledge(message));
+      await messageStore.upsertMessages(missed);
+      // Too much was missed: show the newest pages and let scrolling fill in the rest
+      setMessages(prev => mergeMessages(complete ? prev : [], missed));
+      if (!complete) {
+        setHasMoreHistory(true);
+      }
+    } catch (error) {
+      console.error('Failed to resync messages after reconnect:', error);
+    }
+  }, [partner?.id]);
+
+  /**
+   * Bring a (possibly not yet loaded) message into view, paging back through
+   * history as needed. With the message's timestamp we page until we reach
+   * it; without, we give up after a bounded number of pages.
+   */
+  const scrollToMessage = async (messageId: string, createdAt?: string) => {
+    if (!partner) return;
+
+    let loaded = messagesRef.current;
+    let hasMore = hasMoreHistory;
+    const isLoaded = () => loaded.some(m => m.id === messageId);
+    const canPageBack = (pages: number) => createdAt
+      ? loaded[0].createdAt > createdAt
+      : pages < MAX_QUOTE_LOOKUP_PAGES;
+
+    if (!isLoaded()) {
+      setLoadingOlder(true);
+      try {
+        for (let pages = 0; !isLoaded() && hasMore && loaded.length > 0 && canPageBack(pages); pages++) {
+          const result = await fetchOlderPage(partner.id, loaded[0].createdAt);
+          if (result.page.length === 0) break;
+          loaded = mergeMessages(loaded, result.page);
+          hasMore = result.hasMore;
+        }
+      } finally {
+        setLoadingOlder(false);
+      }
+    }
+
+    if (!isLoaded()) {
+      Alert.alert('Message unavailable', 'The original message could not be found.');
+      return;
+    }
+
+    scrollTargetRef.current = messageId;
+    setMessages(prev => mergeMessages(prev, loaded));
+    setHasMoreHistory(hasMore);
+    setHighlightedId(messageId);
+    setTimeout(() => setHighlightedId(current => current === messageId ? null : current), HIGHLIGHT_DURATION);
+  };
+
+  return {
+    loading,
+    loadingOlder,
+    loadError,
+    highlightedId,
+    scrollTargetRef,
+    loadLatest,
+    loadOlder,
+    catchUp,
+    scrollToMessage,
+  };
+};
@@ -0,0 +1,99 @@
+import { Dispatch, SetStateAction, useEffect, useMemo, useState } from 'react';
+import { Alert } from 'react-native';
+import outboxService, {
+  OutboxAttachment,
+  OutboxDeliveredEvent,
+  OutboxItem,
+  OutboxProgressEvent,
+  OutboxStatus,
+} from '../services/outbox';
+import { Message, User } from '../services/websocket';
+
+/**
+ * Outbox Messages
+ *
+ * Puts the conversation's undelivered messages on screen next to the
+ * delivered ones until the server confirms them, with their upload
+ * progress, and swaps in the server's copy once they go through.
+ */
+
+// Messages still in the outbox carry their local delivery state and any
+// attachment that has not finished uploading
+export type ChatMessage = Message & { localStatus?: OutboxStatus; localAttachment?: OutboxAttachment };
+
+export const useOutboxMessages = (
+  user: User | null,
+  partner: User | null,
+  messages: Message[],
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  const [outboxItems, setOutboxItems] = useState<OutboxItem[]>([]);
+  // Upload progress (0-1) of outbox attachments, by client id
+  const [uploadProgress, setUploadProgress] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    // Restore undelivered messages and keep retrying them
+    if (!user) return;
+
+    const handleDelivered = ({ clientId, message }: OutboxDeliveredEvent) => {
+      setUploadProgress(prev => {
+        if (!(clientId in prev)) return prev;
+        const { [clientId]: _done, ...rest } = prev;
+        return rest;
+      });
+      if (!message || message.recipientId !== partner?.id) return;
+      setMessages(prev => prev.some(m => m.id === message.id) ? prev : [...prev, message]);
+    };
+
+    const handleProgress = ({ clientId, progress }: OutboxProgressEvent) => {
+      setUploadProgress(prev => ({ ...prev, [clientId]: progress }));
+    };
+
+    outboxService.on('changed', setOutboxItems);
+    outboxService.on('delivered', handleDelivered);
+    outboxService.on('progress', handleProgress);
+    outboxService.init(user.id).then(() => setOutboxItems(outboxService.getItems()));
+
+    return () => {
+      outboxService.off('changed', setOutboxItems);
+      outboxService.off('delivered', handleDelivered);
+      outboxService.off('progress', handleProgress);
+    };
+  }, [user?.id, partner?.id]);
+
+  const confirmFailed = (clientId: string) => {
+    const failure = outboxItems.find(item => item.clientId === clientId)?.error;
+    Alert.alert('Message not sent', failure || 'This message could not be delivered.', [
+      { text: 'Delete', style: 'destructive', onPress: () => outboxService.discard(clientId) },
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Retry', onPress: () => outboxService.retry(clientId) },
+    ]);
+  };
+
+  // Chronological: delivered messages, then what is still on its way
+  const timeline: ChatMessage[] = useMemo(() => {
+    const pendingMessages: ChatMessage[] = partner && user
+      ? outboxItems
+        .filter(item => item.recipientId === partner.id)
+        .map(item => ({
+          id: item.clientId,
+          clientId: item.clientId,
+          content: item.content,
+          senderId: user.id,
+          recipientId: item.recipientId,
+          createdAt: item.createdAt,
+          sender: user,
+          recipient: partner,
+          type: item.type,
+          status: 'SENT',
+          replyToId: item.replyToId,
+          viewOnce: item.viewOnce,
+          localStatus: item.status,
+          localAttachment: item.attachment,
+        }))
+      : [];
+    return [...messages, ...pendingMessages];
+  }, [messages, outboxItems, user?.id]);
+
+  return { timeline, uploadProgress, confirmFailed };
+};
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import websocketService, { User, UserPresence } from '../services/websocket';
+import { LAST_SEEN_REFRESH_MS } from '../services/presence';
+
+/**
+ * Partner Presence
+ *
+ * Online, last seen and typing state of the partner. The socket service
+ * tracks it; the interval keeps "last seen" current while nothing changes.
+ */
+
+export const usePartnerPresence = (partner: User | null) => {
+  const [presence, setPresence] = useState<UserPresence | null>(
+    partner ? websocketService.getPresence(partner.id) : null
+  );
+
+  useEffect(() => {
+    if (!partner) return;
+
+    const handlePresenceChanged = (data: UserPresence) => {
+      if (data.userId === partner.id) setPresence(data);
+    };
+    const refresh = setInterval(
+      () => setPresence(websocketService.getPresence(partner.id)),
+      LAST_SEEN_REFRESH_MS
+    );
+    websocketService.seedPresence([partner]);
+    websocketService.on('presence_changed', handlePresenceChanged);
+    return () => {
+      websocketService.off('presence_changed', handlePresenceChanged);
+      clearInterval(refresh);
+    };
+  }, [partner?.id]);
+
+  return presence;
+};
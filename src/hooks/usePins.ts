@@ -0,0 +1,100 @@
+import { Dispatch, MutableRefObject, SetStateAction, useCallback, useEffect, useState } from 'react';
+import { Alert } from 'react-native';
+import apiService from '../services/api';
+import messageStore from '../services/messageStore';
+import { Message, MessagePinEvent, User } from '../services/websocket';
+import { MAX_PINS, applyPin, sendPin, sortPins } from '../services/pins';
+
+/**
+ * Pinned Messages
+ *
+ * The conversation's shared pins, most recent first, and which one the
+ * banner shows. Pins can be older than any loaded page, so they are
+ * fetched on their own.
+ */
+
+export const usePins = (
+  partner: User | null,
+  user: User | null,
+  messagesRef: MutableRefObject<Message[]>,
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  const [pins, setPins] = useState<Message[]>([]);
+  const [pinIndex, setPinIndex] = useState(0);
+
+  useEffect(() => {
+    loadPins();
+  }, [partner?.id]);
+
+  const loadPins = async () => {
+    if (!partner) return;
+
+    setPins(await messageStore.getPinned(partner.id));
+    try {
+      const serverPins = await apiService.getPinnedMessages(partner.id);
+      setPins(sortPins(serverPins));
+      messageStore.upsertMessages(serverPins);
+    } catch (error) {
+      console.error('Failed to load pinned messages:', error);
+    }
+  };
+
+  const handleMessagePinned = useCallback((data: MessagePinEvent) => {
+    setMessages(prev => prev.map(msg => msg.id === data.messageId ? applyPin(msg, data, true) : msg));
+    const message = messagesRef.current.find(msg => msg.id === data.messageId);
+    if (message) {
+      setPins(prev => sortPins([...prev.filter(pin => pin.id !== data.messageId), applyPin(message, data, true)]));
+    } else {
+      // Pinned further back than we have loaded
+      loadPins();
+    }
+  }, [partner?.id]);
+
+  const handleMessageUnpinned = useCallback((data: MessagePinEvent) => {
+    setMessages(prev => prev.map(msg => msg.id === data.messageId ? applyPin(msg, data, false) : msg));
+    setPins(prev => prev.filter(pin => pin.id !== data.messageId));
+  }, []);
+
+  // A deleted or expired message takes its pin with it
+  const dropPin = useCallback((messageId: string) => {
+    setPins(prev => prev.filter(pin => pin.id !== messageId));
+  }, []);
+
+  // Applied optimistically and rolled back if the server refuses it
+  const togglePin = async (message: Message) => {
+    if (!user) return;
+
+    const pin = !message.pinnedAt;
+    if (pin && pins.length >= MAX_PINS) {
+      Alert.alert('Too many pins', `Up to ${MAX_PINS} messages can be pinned. Unpin one first.`);
+      return;
+    }
+
+    const event: MessagePinEvent = { messageId: message.id, userId: user.id, pinnedAt: new Date().toISOString() };
+    (pin ? handleMessagePinned : handleMessageUnpinned)(event);
+    messageStore.applyPin(event, pin);
+    try {
+      await sendPin(message.id, pin);
+    } catch (error: any) {
+      console.error('Failed to update pin:', error);
+      (pin ? handleMessageUnpinned : handleMessagePinned)(event);
+      messageStore.applyPin(event, !pin);
+      Alert.alert('Error', error.message || `Failed to ${pin ? 'pin' : 'unpin'} message`);
+    }
+  };
+
+  // The pin on show; each tap on the banner moves it on to the next
+  const currentPin: Message | null = pins[pinIndex % pins.length] ?? null;
+  const showNextPin = () => setPinIndex(index => (index + 1) % pins.length);
+
+  return {
+    pins,
+    currentPin,
+    pinPosition: pins.length > 0 ? pinIndex % pins.length : 0,
+    showNextPin,
+    handleMessagePinned,
+    handleMessageUnpinned,
+    dropPin,
+    togglePin,
+  };
+};
@@ -0,0 +1,89 @@
+import { Dispatch, MutableRefObject, SetStateAction, useEffect, useRef } from 'react';
+import { AppState, ViewToken } from 'react-native';
+import apiService from '../services/api';
+import messageStore from '../services/messageStore';
+import unreadStore from '../services/unreadStore';
+import websocketService, { Message, User } from '../services/websocket';
+
+/**
+ * Read Receipts
+ *
+ * Reports everything up to the newest partner message seen on screen as
+ * read, in one emit for messages scrolled past in quick succession.
+ * Receipts wait while the app is in the background so messages that
+ * arrive into an open chat are not marked read until the user is back.
+ */
+
+// Batch read receipts for messages scrolled past in quick succession into one emit
+const READ_RECEIPT_DELAY = 500;
+
+export const useReadReceipts = (
+  partner: User | null,
+  messagesRef: MutableRefObject<Message[]>,
+  setMessages: Dispatch<SetStateAction<Message[]>>
+) => {
+  // Newest partner message seen on screen but not yet reported as read
+  const pendingReadRef = useRef<Message | null>(null);
+  const lastReadAtRef = useRef<string | null>(null);
+  const readTimerRef = useRef<NodeJS.Timeout | null>(null);
+
+  useEffect(() => {
+    // Receipts held back while the app was in the background go out on return
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active' && pendingReadRef.current) {
+        flushReadReceipts();
+      }
+    });
+    return () => {
+      subscription.remove();
+      if (readTimerRef.current) {
+        clearTimeout(readTimerRef.current);
+      }
+    };
+  }, []);
+
+  const flushReadReceipts = async () => {
+    readTimerRef.current = null;
+    const upTo = pendingReadRef.current;
+    if (!partner || !upTo || AppState.currentState !== 'active') return;
+
+    pendingReadRef.current = null;
+    lastReadAtRef.current = upTo.createdAt;
+    const readAt = new Date().toISOString();
+    const isNowRead = (msg: Message) =>
+      msg.senderId === partner.id && msg.status !== 'READ' && msg.createdAt <= upTo.createdAt;
+
+    setMessages(prev => prev.map(msg => isNowRead(msg) ? { ...msg, status: 'READ', readAt } : msg));
+    unreadStore.setCount(partner.id, messagesRef.current.filter(msg =>
+      msg.senderId === partner.id && msg.status !== 'READ' && !isNowRead(msg)
+    ).length);
+    messageStore.markReadUpTo(partner.id, partner.id, upTo.createdAt, readAt);
+
+    if (!websocketService.markMessagesRead(partner.id, upTo.id)) {
+      try {
+        await apiService.markMessagesRead(partner.id, upTo.id);
+      } catch (error) {
+        console.error('Failed to send read receipts:', error);
+      }
+    }
+  };
+
+  // Stable for the FlatList's lifetime, which rejects a changing callback
+  const handleViewableItemsChanged = useRef(({ viewableItems }: { viewableItems: ViewToken[] }) => {
+    const newest = viewableItems
+      .map(token => token.item as Message)
+      .filter(msg => msg.senderId === partner?.id && msg.status !== 'READ' && !msg.deletedAt)
+      .reduce<Message | null>((latest, msg) => !latest || msg.createdAt > latest.createdAt ? msg : latest, null);
+    if (!newest) return;
+
+    const reported = pendingReadRef.current?.createdAt ?? lastReadAtRef.current;
+    if (reported && newest.createdAt <= reported) return;
+
+    pendingReadRef.current = newest;
+    if (!readTimerRef.current) {
+      readTimerRef.current = setTimeout(flushReadReceipts, READ_RECEIPT_DELAY);
+    }
+  }).current;
+
+  return { handleViewableItemsChanged };
+};
@@ -13,26 +13,15 @@ import {
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
-import websocketService from '../services/websocket';
-
-interface ActiveUser {
-  id: string;
-  fullName: string;
-  email: string;
-  avatarUrl?: string;
-  connectedAt: string;
-  socketId: string;
-}
+import websocketService, {
+  ActiveUser,
+  ActiveUsersEvent,
+  ChatInvitation,
+  ChatInvitationAcceptedAck,
+  ChatInvitationRejectedAck,
+  ChatInvitationSentAck,
+} from '../services/websocket';
 
-interface ChatInvitation {
-  id: string;
-  senderId: string;
-  recipientId: string;
-  message: string;
-  createdAt: string;
-  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
-  sender: ActiveUser;
-}
 
 export default function AdminChatScreen({ navigation }: any) {
   const { user } = useAuth();
@@ -47,14 +36,14 @@ export default function AdminChatScreen({ navigation }: any) {
   const [pendingInvitations, setPendingInvitations] = useState<ChatInvitation[]>([]);
 
   // WebSocket event handlers
-  const handleActiveUsersUpdated = useCallback((data: { activeUsers: ActiveUser[] }) => {
+  const handleActiveUsersUpdated = useCallback((data: ActiveUsersEvent) => {
     console.log('Active users updated:', data.activeUsers);
     // Filter out current user (admin)
     const otherUsers = data.activeUsers.filter(u => u.id !== user?.id);
     setActiveUsers(otherUsers);
   }, [user?.id]);
 
-  const handleActiveUsersList = useCallback((data: { activeUsers: ActiveUser[] }) => {
+  const handleActiveUsersList = useCallback((data: ActiveUsersEvent) => {
     console.log('Active users list received:', data.activeUsers);
     // Filter out current user (admin)
     const otherUsers = data.activeUsers.filter(u => u.id !== user?.id);
@@ -63,7 +52,7 @@ export default function AdminChatScreen({ navigation }: any) {
     setRefreshing(false);
   }, [user?.id]);
 
-  const handleInvitationSent = useCallback((data: { invitationId: string; recipientId: string }) => {
+  const handleInvitationSent = useCallback((data: ChatInvitationSentAck) => {
     console.log('Invitation sent:', data);
     Alert.alert('Success', 'Chat invitation sent successfully!');
     setShowInviteModal(false);
@@ -71,7 +60,7 @@ export default function AdminChatScreen({ navigation }: any) {
     setSelectedUser(null);
   }, []);
 
-  const handleInvitationAccepted = useCallback((data: { invitationId: string; roomId: string }) => {
+  const handleInvitationAccepted = useCallback((data: ChatInvitationAcceptedAck) => {
     console.log('Invitation accepted:', data);
     Alert.alert(
       'Invitation Accepted!',
@@ -91,7 +80,7 @@ export default function AdminChatScreen({ navigation }: any) {
     );
   }, [selectedUser, navigation]);
 
-  const handleInvitationRejected = useCallback((data: { invitationId: string }) => {
+  const handleInvitationRejected = useCallback((data: ChatInvitationRejectedAck) => {
     console.log('Invitation rejected:', data);
     Alert.alert('Invitation Declined', 'Your chat invitation was declined.');
   }, []);
@@ -121,7 +110,6 @@ export default function AdminChatScreen({ navigation }: any) {
         // Setup event listeners
         websocketService.on('active_users_updated', handleActiveUsersUpdated);
         websocketService.on('active_users_list', handleActiveUsersList);
-        websocketService.on('chat_invitation_sent', handleInvitationSent);
         websocketService.on('chat_invitation_accepted', handleInvitationAccepted);
         websocketService.on('chat_invitation_rejected', handleInvitationRejected);
         websocketService.on('error', handleWebSocketError);
@@ -151,7 +139,6 @@ export default function AdminChatScreen({ navigation }: any) {
       // Cleanup event listeners
       websocketService.off('active_users_updated', handleActiveUsersUpdated);
       websocketService.off('active_users_list', handleActiveUsersList);
-      websocketService.off('chat_invitation_sent', handleInvitationSent);
       websocketService.off('chat_invitation_accepted', handleInvitationAccepted);
       websocketService.off('chat_invitation_rejected', handleInvitationRejected);
       websocketService.off('error', handleWebSocketError);
@@ -181,7 +168,7 @@ export default function AdminChatScreen({ navigation }: any) {
     setShowInviteModal(true);
   };
 
-  const sendInvitation = () => {
+  const sendInvitation = async () => {
     if (!selectedUser || !inviteMessage.trim()) {
       Alert.alert('Error', 'Please enter a message');
       return;
@@ -192,7 +179,14 @@ export default function AdminChatScreen({ navigation }: any) {
       return;
     }
 
-    websocketService.sendChatInvitation(selectedUser.id, inviteMessage.trim());
+    try {
+      // Resolves once the server has stored the invitation
+      const result = await websocketService.sendChatInvitation(selectedUser.id, inviteMessage.trim());
+      handleInvitationSent(result);
+    } catch (error: any) {
+      console.error('Failed to send invitation:', error);
+      Alert.alert('Error', error.message || 'Failed to send chat invitation');
+    }
   };
 
   const formatTime = (dateString: string) => {
@@ -1,4 +1,4 @@
-import React, { useState, useRef, useEffect, useCallback } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -11,106 +11,208 @@ import {
   StatusBar,
   Alert,
   ActivityIndicator,
+  AppState,
+  Linking,
 } from 'react-native';
-import Animated, { useSharedValue, withSpring } from 'react-native-reanimated';
+import { useSharedValue, withSpring } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
-import { useNavigation } from '@react-navigation/native';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
 import { useTheme } from '../context/ThemeContext';
 import { useAuth } from '../context/AuthContext';
-import apiService from '../services/api';
-import websocketService, { Message as WSMessage, TypingEvent, MessageReadEvent } from '../services/websocket';
+import websocketService, {
+  Message as WSMessage,
+  User,
+  MessageReadEvent,
+  ReactionEvent,
+  MessageDeletedEvent,
+  MessageExpiredEvent,
+  MessagesReadEvent,
+} from '../services/websocket';
+import messageStore from '../services/messageStore';
+import unreadStore from '../services/unreadStore';
+import draftStore from '../services/draftStore';
+import scheduledMessages, { ScheduledItem } from '../services/scheduledMessages';
+import starredStore, { StarredMessage, canStar } from '../services/starredStore';
+import linkPreviews from '../services/linkPreviews';
+import outboxService from '../services/outbox';
+import { messagePreviewText } from '../services/messagePreview';
+import { presenceLabel } from '../services/presence';
+import { MessageLayout, layoutMessages, msUntilNextDay } from '../services/messageTimeline';
+import { applyReaction, hasReacted, sendReaction, summarizeReactions } from '../services/reactions';
+import {
+  canDeleteForEveryone,
+  canEditMessage,
+  deleteMessage,
+  editChanges,
+  editMessage,
+  toTombstone,
+} from '../services/messageEdits';
+import { DeleteScope } from '../services/schemas';
+import { useChatSocket } from '../hooks/useChatSocket';
+import { useChatInvitations } from '../hooks/useChatInvitations';
+import { ChatMessage, useOutboxMessages } from '../hooks/useOutboxMessages';
+import { useDisappearing } from '../hooks/useDisappearing';
+import { useMessageHistory } from '../hooks/useMessageHistory';
+import { useReadReceipts } from '../hooks/useReadReceipts';
+import { usePins } from '../hooks/usePins';
+import { useAttachments } from '../hooks/useAttachments';
+import { useMediaViewer } from '../hooks/useMediaViewer';
+import { useConversationExport } from '../hooks/useConversationExport';
+import { usePartnerPresence } from '../hooks/usePartnerPresence';
+import { useContactKeys } from '../hooks/useContactKeys';
+import ChatHeader from '../components/ChatHeader';
+import PinnedBanner from '../components/PinnedBanner';
+import MessageList from '../components/MessageList';
+import MessageBubble from '../components/MessageBubble';
+import ChatComposer from '../components/ChatComposer';
 import ChatInvitationModal from '../components/ChatInvitationModal';
 import InvitationNotification from '../components/InvitationNotification';
+import ReactionPicker, { MessageAction } from '../components/ReactionPicker';
+import MediaViewer from '../components/MediaViewer';
+import ScheduleMessageModal from '../components/ScheduleMessageModal';
+import DisappearingTimerPicker from '../components/DisappearingTimerPicker';
+import ExportConversationModal from '../components/ExportConversationModal';
+import voicePlayer from '../services/voicePlayer';
 
 // Use the Message interface from WebSocket service
 type Message = WSMessage;
 
+export interface ChatRouteParams {
+  partner: User;
+  // Message to scroll to once history is loaded (e.g. a search result)
+  focusMessage?: { id: string; createdAt: string };
+}
+
 const ChatScreen: React.FC = () => {
-  const navigation = useNavigation();
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<{ Chat: ChatRouteParams }, 'Chat'>>();
   const { theme } = useTheme();
   const { user } = useAuth();
 
   const [messages, setMessages] = useState<Message[]>([]);
-  const [inputText, setInputText] = useState('');
-  const [loading, setLoading] = useState(true);
+  // Composer contents left behind the last time this chat was open
+  const [initialDraft] = useState(() =>
+    route.params?.partner ? draftStore.get(route.params.partner.id) : null
+  );
+  const [inputText, setInputText] = useState(initialDraft?.text ?? '');
+  const [unseenCount, setUnseenCount] = useState(0);
   const [sending, setSending] = useState(false);
-  const [partner, setPartner] = useState<any>(null);
-  const [isConnected, setIsConnected] = useState(false);
-  const [partnerTyping, setPartnerTyping] = useState(false);
-  const [connectionError, setConnectionError] = useState<string | null>(null);
-  const [currentInvitation, setCurrentInvitation] = useState<any>(null);
-  const [showInvitationModal, setShowInvitationModal] = useState(false);
-  const [notification, setNotification] = useState<{
-    visible: boolean;
-    type: 'received' | 'accepted' | 'rejected' | 'sent';
-    senderName?: string;
-    recipientName?: string;
-    message?: string;
-  }>({ visible: false, type: 'received' });
-  const flatListRef = useRef<FlatList>(null);
+  // Each chat screen is bound to the partner it was opened for
+  const partner: User | null = route.params?.partner ?? null;
+  // Message whose reaction picker is open
+  const [reactionTarget, setReactionTarget] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(initialDraft?.replyTo ?? null);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [scheduling, setScheduling] = useState(false);
+  const [scheduledItems, setScheduledItems] = useState<ScheduledItem[]>(
+    partner ? scheduledMessages.getItems(partner.id) : []
+  );
+  const [starredIds, setStarredIds] = useState<Set<string>>(
+    () => new Set(starredStore.getAll().map(starred => starred.message.id))
+  );
+  const [linkPreviewsEnabled, setLinkPreviewsEnabled] = useState(linkPreviews.isEnabled);
+  const [choosingTimer, setChoosingTimer] = useState(false);
+  // Message tapped to show its exact send and read times
+  const [revealedId, setRevealedId] = useState<string | null>(null);
+  const flatListRef = useRef<FlatList<ChatMessage>>(null);
+  const inputRef = useRef<TextInput>(null);
+  const messagesRef = useRef<Message[]>([]);
+  messagesRef.current = messages;
+  const isAtLatestRef = useRef(true);
   const inputScale = useSharedValue(1);
-  const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+
+  const partnerPresence = usePartnerPresence(partner);
+  const { timeline, uploadProgress, confirmFailed } = useOutboxMessages(user, partner, messages, setMessages);
+  const { disappearAfter, now, changeTimer } = useDisappearing(partner, messages, setMessages);
+  const history = useMessageHistory(partner, messagesRef, setMessages);
+  const { handleViewableItemsChanged } = useReadReceipts(partner, messagesRef, setMessages);
+  const pins = usePins(partner, user, messagesRef, setMessages);
+  const { partnerKey, ownKey } = useContactKeys(partner, setMessages);
+  const { viewerMedia, openMedia, openViewOnce, closeViewer } = useMediaViewer(setMessages);
+  const conversationExport = useConversationExport(user, partner);
+  const invitations = useChatInvitations();
 
   useEffect(() => {
     loadInitialData();
     return () => {
-      // Cleanup on unmount
-      if (partner) {
-        websocketService.leaveRoom(partner.id);
-      }
-      websocketService.off('new_message', handleNewMessage);
-      websocketService.off('user_typing', handleUserTyping);
-      websocketService.off('message_read', handleMessageRead);
-      websocketService.off('error', handleWebSocketError);
-      websocketService.off('disconnected', handleDisconnected);
-      websocketService.off('chat_invitation_received', handleChatInvitationReceived);
-      websocketService.off('chat_invitation_accepted', handleChatInvitationAccepted);
-      websocketService.off('chat_invitation_rejected', handleChatInvitationRejected);
+      voicePlayer.stop();
     };
   }, []);
 
   useEffect(() => {
-    // Auto-scroll to bottom when new messages arrive
-    if (messages.length > 0) {
-      setTimeout(() => {
-        flatListRef.current?.scrollToEnd({ animated: true });
-      }, 100);
-    }
-  }, [messages]);
+    // Incoming messages don't count as unread while this chat is in front;
+    // focus rather than mount, since several chats can be stacked
+    const onFocus = navigation.addListener('focus', () => unreadStore.setActiveConversation(partner?.id ?? null));
+    const onBlur = navigation.addListener('blur', () => unreadStore.setActiveConversation(null));
+    return () => {
+      onFocus();
+      onBlur();
+      unreadStore.setActiveConversation(null);
+    };
+  }, [navigation]);
 
   useEffect(() => {
-    // Setup WebSocket connection when partner is selected
-    if (partner && user) {
-      setupWebSocketConnection();
-    }
-  }, [partner, user]);
+    if (!partner) return;
+
+    const handleScheduledChanged = () => setScheduledItems(scheduledMessages.getItems(partner.id));
+    scheduledMessages.on(handleScheduledChanged);
+    scheduledMessages.refresh(partner.id);
+    return () => scheduledMessages.off(handleScheduledChanged);
+  }, [partner?.id]);
+
+  useEffect(() => {
+    const handleStarredChanged = (starred: StarredMessage[]) =>
+      setStarredIds(new Set(starred.map(entry => entry.message.id)));
+    starredStore.on(handleStarredChanged);
+    return () => starredStore.off(handleStarredChanged);
+  }, []);
+
+  useEffect(() => {
+    setLinkPreviewsEnabled(linkPreviews.isEnabled);
+    linkPreviews.on(setLinkPreviewsEnabled);
+    return () => linkPreviews.off(setLinkPreviewsEnabled);
+  }, []);
+
+  // Day separators are relative ("Today"), so relabel them when the date changes
+  const [today, setToday] = useState(() => new Date().toDateString());
+  useEffect(() => {
+    const refresh = () => setToday(new Date().toDateString());
+    const midnight = setTimeout(refresh, msUntilNextDay() + 1000);
+    const subscription = AppState.addEventListener('change', state => {
+      if (state === 'active') refresh();
+    });
+    return () => {
+      clearTimeout(midnight);
+      subscription.remove();
+    };
+  }, [today]);
+
+  useEffect(() => {
+    // Keep the draft in step with the composer, which also clears it once a
+    // message is sent. Editing a sent message leaves the draft alone.
+    if (!partner || editingMessage) return;
+    draftStore.save(partner.id, inputText, replyingTo);
+  }, [inputText, replyingTo, editingMessage]);
 
   // WebSocket event handlers
   const handleNewMessage = useCallback((message: Message) => {
-    console.log('Received new message:', message);
+    console.log(`Received ${message.type} message ${message.id}`);
+    // Server echo of one of our own sends clears it from the outbox
+    outboxService.acknowledge(message);
+
+    // new_message is global; only this conversation belongs on screen
+    if (message.senderId !== partner?.id && message.recipientId !== partner?.id) return;
+
+    if (!isAtLatestRef.current && message.senderId !== user?.id) {
+      setUnseenCount(count => count + 1);
+    }
     setMessages(prev => {
       // Avoid duplicates
       const exists = prev.some(m => m.id === message.id);
       if (exists) return prev;
       return [...prev, message];
     });
-  }, []);
-
-  const handleUserTyping = useCallback((data: TypingEvent) => {
-    if (data.userId === partner?.id) {
-      setPartnerTyping(data.isTyping);
-
-      // Clear typing indicator after 3 seconds
-      if (data.isTyping) {
-        if (typingTimeoutRef.current) {
-          clearTimeout(typingTimeoutRef.current);
-        }
-        typingTimeoutRef.current = setTimeout(() => {
-          setPartnerTyping(false);
-        }, 3000);
-      }
-    }
-  }, [partner?.id]);
+  }, [partner?.id, user?.id]);
 
   const handleMessageRead = useCallback((data: MessageReadEvent) => {
     setMessages(prev => prev.map(msg =>
@@ -120,164 +222,219 @@ const ChatScreen: React.FC = () => {
     ));
   }, []);
 
-  const handleWebSocketError = useCallback((error: any) => {
-    console.error('WebSocket error:', error);
-    setConnectionError('Connection error occurred');
-    setIsConnected(false);
+  const handleMessagesRead = useCallback((data: MessagesReadEvent) => {
+    if (data.readBy !== partner?.id) return;
+    setMessages(prev => prev.map(msg =>
+      msg.recipientId === data.readBy && msg.status !== 'READ' && msg.createdAt <= data.upToCreatedAt
+        ? { ...msg, status: 'READ', readAt: data.readAt }
+        : msg
+    ));
+  }, [partner?.id]);
+
+  const handleMessageEdited = useCallback((message: Message) => {
+    setMessages(prev => prev.map(msg => msg.id === message.id ? { ...msg, ...editChanges(message) } : msg));
   }, []);
 
-  const handleDisconnected = useCallback((data: any) => {
-    console.log('WebSocket disconnected:', data);
-    setIsConnected(false);
-    setConnectionError('Connection lost');
+  const handleMessageDeleted = useCallback((data: MessageDeletedEvent) => {
+    setMessages(prev => prev.map(msg => msg.id === data.messageId ? toTombstone(msg, data) : msg));
+    pins.dropPin(data.messageId);
   }, []);
 
-  // Chat invitation handlers
-  const handleChatInvitationReceived = useCallback((invitation: any) => {
-    console.log('Chat invitation received:', invitation);
-    setCurrentInvitation(invitation);
-    setShowInvitationModal(true);
-
-    // Show notification
-    setNotification({
-      visible: true,
-      type: 'received',
-      senderName: invitation.sender.fullName,
-      message: invitation.message,
-    });
+  const handleMessageExpired = useCallback((data: MessageExpiredEvent) => {
+    setMessages(prev => prev.filter(msg => msg.id !== data.messageId));
+    pins.dropPin(data.messageId);
   }, []);
 
-  const handleChatInvitationAccepted = useCallback((data: any) => {
-    console.log('Chat invitation accepted:', data);
-    const { invitationId, roomId } = data;
+  const updateReaction = (event: ReactionEvent, added: boolean) => {
+    setMessages(prev => prev.map(msg =>
+      msg.id === event.messageId ? applyReaction(msg, event, added) : msg
+    ));
+  };
 
-    // Show notification
-    setNotification({
-      visible: true,
-      type: 'accepted',
-      recipientName: 'User',
-    });
+  const handleReactionAdded = useCallback((data: ReactionEvent) => {
+    updateReaction(data, true);
   }, []);
 
-  const handleChatInvitationRejected = useCallback((data: any) => {
-    console.log('Chat invitation rejected:', data);
-    const { invitationId } = data;
-
-    // Show notification
-    setNotification({
-      visible: true,
-      type: 'rejected',
-      recipientName: 'User',
-    });
+  const handleReactionRemoved = useCallback((data: ReactionEvent) => {
+    updateReaction(data, false);
   }, []);
 
-  const setupWebSocketConnection = async () => {
+  const { isConnected, connectionError } = useChatSocket(partner, user, {
+    new_message: handleNewMessage,
+    message_read: handleMessageRead,
+    messages_read: handleMessagesRead,
+    message_edited: handleMessageEdited,
+    message_deleted: handleMessageDeleted,
+    message_expired: handleMessageExpired,
+    message_pinned: pins.handleMessagePinned,
+    message_unpinned: pins.handleMessageUnpinned,
+    reaction_added: handleReactionAdded,
+    reaction_removed: handleReactionRemoved,
+    // The service has already re-joined our room; fetch what we missed while offline
+    reconnected: history.catchUp,
+  });
+
+  const loadInitialData = async () => {
+    if (!partner) {
+      console.log('No chat partner selected, opening conversation list');
+      navigation.navigate('Conversations' as never);
+      return;
+    }
+
+    await history.loadLatest();
+  };
+
+  const handleAtLatestChange = (atLatest: boolean) => {
+    isAtLatestRef.current = atLatest;
+    if (atLatest && unseenCount > 0) {
+      setUnseenCount(0);
+    }
+  };
+
+  const jumpToLatest = () => {
+    flatListRef.current?.scrollToOffset({ offset: 0, animated: true });
+    setUnseenCount(0);
+  };
+
+  const startReply = (message: Message) => {
+    if (editingMessage) {
+      cancelEdit();
+    }
+    setReplyingTo(message);
+    inputRef.current?.focus();
+  };
+
+  const startEdit = (message: Message) => {
+    setReactionTarget(null);
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setInputText(message.content);
+    inputRef.current?.focus();
+  };
+
+  // Back to whatever was being written before the edit started
+  const cancelEdit = () => {
+    const draft = partner ? draftStore.get(partner.id) : null;
+    setEditingMessage(null);
+    setInputText(draft?.text ?? '');
+    setReplyingTo(draft?.replyTo ?? null);
+  };
+
+  const submitEdit = async (message: Message) => {
+    const content = inputText.trim();
+    if (content === message.content) {
+      cancelEdit();
+      return;
+    }
+    if (!canEditMessage(message, user?.id)) {
+      Alert.alert('Too late to edit', 'Messages can only be edited shortly after they are sent.');
+      cancelEdit();
+      return;
+    }
+
+    try {
+      setSending(true);
+      const updated = await editMessage(message, content);
+      handleMessageEdited(updated);
+      messageStore.updateMessage(updated.id, editChanges(updated));
+      cancelEdit();
+    } catch (error: any) {
+      console.error('Failed to edit message:', error);
+      Alert.alert('Error', error.message || 'Failed to edit message');
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const removeMessage = async (message: Message, scope: DeleteScope) => {
     try {
-      setConnectionError(null);
-
-      // Connect to WebSocket
-      const connected = await websocketService.connect(user?.id);
-
-      if (connected) {
-        setIsConnected(true);
-
-        // Setup event listeners
-        websocketService.on('new_message', handleNewMessage);
-        websocketService.on('user_typing', handleUserTyping);
-        websocketService.on('message_read', handleMessageRead);
-        websocketService.on('error', handleWebSocketError);
-        websocketService.on('disconnected', handleDisconnected);
-        websocketService.on('chat_invitation_received', handleChatInvitationReceived);
-        websocketService.on('chat_invitation_accepted', handleChatInvitationAccepted);
-        websocketService.on('chat_invitation_rejected', handleChatInvitationRejected);
-
-        // Add room joined event listener
-        websocketService.on('room_joined', (data: any) => {
-          console.log('Room joined successfully:', data);
-          setConnectionError(null);
-        });
-
-        // Join room with partner
-        websocketService.joinRoom(partner.id);
-
-        console.log('WebSocket connected and room joined');
+      const deleted = await deleteMessage(message.id, scope);
+      if (deleted) {
+        handleMessageDeleted(deleted);
+        messageStore.markDeleted(deleted);
       } else {
-        setConnectionError('Failed to connect to chat server');
+        setMessages(prev => prev.filter(msg => msg.id !== message.id));
+        pins.dropPin(message.id);
+        messageStore.removeMessage(message.id);
       }
-    } catch (error) {
-      console.error('Failed to setup WebSocket connection:', error);
-      setConnectionError('Failed to connect to chat server');
+    } catch (error: any) {
+      console.error('Failed to delete message:', error);
+      Alert.alert('Error', error.message || 'Failed to delete message');
     }
   };
 
-  const loadInitialData = async () => {
-    try {
-      setLoading(true);
-      setConnectionError(null);
+  const confirmDelete = (message: Message) => {
+    setReactionTarget(null);
 
-      // Test API connection first
-      const connectionTest = await apiService.checkConnection();
-      if (!connectionTest.success) {
-        throw new Error(connectionTest.error || 'Cannot connect to server');
-      }
+    const options: { text: string; style?: 'destructive' | 'cancel'; onPress?: () => void }[] = [];
+    if (canDeleteForEveryone(message, user?.id)) {
+      options.push({ text: 'Delete for everyone', style: 'destructive', onPress: () => removeMessage(message, 'everyone') });
+    }
+    options.push({ text: 'Delete for me', style: 'destructive', onPress: () => removeMessage(message, 'me') });
+    options.push({ text: 'Cancel', style: 'cancel' });
 
-      // Get all users to find a partner (for demo purposes, get the first other user)
-      const users = await apiService.getUsers();
-      const otherUsers = users.filter((u: any) => u.id !== user?.id);
+    Alert.alert('Delete message?', undefined, options);
+  };
 
-      if (otherUsers.length > 0) {
-        const selectedPartner = otherUsers[0];
-        setPartner(selectedPartner);
+  const togglePin = (message: Message) => {
+    setReactionTarget(null);
+    pins.togglePin(message);
+  };
 
-        // Load messages with this partner
-        const messagesData = await apiService.getMessages(selectedPartner.id);
-        setMessages(messagesData || []);
-      }
-    } catch (error) {
-      console.error('Failed to load chat data:', error);
-      const errorMessage = error.message || 'Failed to load messages. Please try again.';
-      setConnectionError(errorMessage);
-      Alert.alert('Connection Error', errorMessage);
-    } finally {
-      setLoading(false);
+  const toggleStar = (message: Message) => {
+    setReactionTarget(null);
+    starredStore.toggle(message);
+  };
+
+  // Each tap jumps to the pin on show and moves the banner on to the next
+  const openCurrentPin = () => {
+    const pin = pins.currentPin;
+    if (!pin) return;
+    history.scrollToMessage(pin.id, pin.createdAt);
+    pins.showNextPin();
+  };
+
+  const messageActions = (message: Message | null): MessageAction[] => {
+    if (!message) return [];
+
+    const reply = () => {
+      setReactionTarget(null);
+      startReply(message);
+    };
+
+    const actions: MessageAction[] = [{ label: 'Reply', onPress: reply }];
+    if (canEditMessage(message, user?.id)) {
+      actions.push({ label: 'Edit', onPress: () => startEdit(message) });
+    }
+    if (!message.viewOnce) {
+      actions.push({ label: message.pinnedAt ? 'Unpin' : 'Pin', onPress: () => togglePin(message) });
+    }
+    if (canStar(message)) {
+      actions.push({ label: starredIds.has(message.id) ? 'Unstar' : 'Star', onPress: () => toggleStar(message) });
     }
+    actions.push({ label: 'Delete', onPress: () => confirmDelete(message), destructive: true });
+    return actions;
   };
 
   const sendMessage = async () => {
     if (!inputText.trim() || !partner || sending) return;
 
+    if (editingMessage) {
+      await submitEdit(editingMessage);
+      return;
+    }
+
+    const messageText = inputText.trim();
+    const replyTarget = replyingTo;
     try {
       setSending(true);
-      const messageText = inputText.trim();
       setInputText(''); // Clear input immediately for better UX
+      setReplyingTo(null);
 
-      // Send via WebSocket if connected, otherwise fallback to API
-      if (isConnected && websocketService.connected) {
-        const sent = websocketService.sendMessage(partner.id, messageText, 'TEXT');
-        if (!sent) {
-          console.log('WebSocket send failed, falling back to API');
-          // Fallback to API if WebSocket fails
-          const newMessage = await apiService.sendMessage(
-            partner.id,
-            messageText,
-            'TEXT'
-          );
-          setMessages(prev => [...prev, newMessage]);
-        } else {
-          console.log('Message sent via WebSocket successfully');
-        }
-      } else {
-        console.log('WebSocket not connected, using API');
-        // Fallback to API
-        const newMessage = await apiService.sendMessage(
-          partner.id,
-          messageText,
-          'TEXT'
-        );
-
-        // Add message to local state (WebSocket will handle this automatically when connected)
-        setMessages(prev => [...prev, newMessage]);
-      }
+      // The outbox shows the message as pending and delivers it over the
+      // socket or the API, retrying until the server confirms it
+      await outboxService.enqueue(partner.id, messageText, 'TEXT', { replyToId: replyTarget?.id });
+      jumpToLatest();
 
       // Stop typing indicator
       if (isConnected) {
@@ -289,15 +446,86 @@ const ChatScreen: React.FC = () => {
         inputScale.value = withSpring(1);
       });
     } catch (error) {
-      console.error('Failed to send message:', error);
+      console.error('Failed to queue message:', error);
       Alert.alert('Error', 'Failed to send message. Please try again.');
       // Restore input text on error
       setInputText(messageText);
+      setReplyingTo(replyTarget);
     } finally {
       setSending(false);
     }
   };
 
+  const { pickAttachment, pickViewOnceAttachment, sendVoiceNote } = useAttachments(
+    partner,
+    inputText,
+    replyingTo,
+    captionUsed => {
+      if (captionUsed) setInputText('');
+      setReplyingTo(null);
+      jumpToLatest();
+    }
+  );
+
+  const openLink = (url: string) => {
+    Linking.openURL(url).catch(error => {
+      console.error('Failed to open link:', error);
+      Alert.alert('Error', 'Could not open this link');
+    });
+  };
+
+  const changeDisappearTimer = (seconds: number | null) => {
+    setChoosingTimer(false);
+    changeTimer(seconds);
+  };
+
+  // Long-pressing send schedules the composed message instead
+  const scheduleMessage = async (sendAt: Date) => {
+    const messageText = inputText.trim();
+    setScheduling(false);
+    if (!messageText || !partner) return;
+
+    try {
+      const item = await scheduledMessages.schedule(partner.id, messageText, sendAt, {
+        replyToId: replyingTo?.id,
+      });
+      setInputText('');
+      setReplyingTo(null);
+      websocketService.sendTypingStatus(partner.id, false);
+      console.log(`Scheduled message ${item.id} for ${item.sendAt}${item.local ? ' on this device' : ''}`);
+    } catch (error: any) {
+      console.error('Failed to schedule message:', error);
+      Alert.alert('Error', error.message || 'Failed to schedule message. Please try again.');
+    }
+  };
+
+  // Newest first for the inverted list
+  const chatMessages = useMemo(() => [...timeline].reverse(), [timeline]);
+  const messageLayout = useMemo(() => layoutMessages(timeline), [timeline, today]);
+
+  const focusMessage = route.params?.focusMessage;
+  useEffect(() => {
+    if (history.loading || !focusMessage) return;
+    history.scrollToMessage(focusMessage.id, focusMessage.createdAt);
+  }, [history.loading, focusMessage?.id]);
+
+  const messagesById = useMemo(() => new Map(messages.map(m => [m.id, m])), [messages]);
+
+  useEffect(() => {
+    // Scroll once the message requested by scrollToMessage is in the list
+    const target = history.scrollTargetRef.current;
+    if (!target) return;
+
+    const index = chatMessages.findIndex(m => m.id === target);
+    if (index === -1) return;
+
+    history.scrollTargetRef.current = null;
+    flatListRef.current?.scrollToIndex({ index, animated: true, viewPosition: 0.5 });
+  }, [messages]);
+
+  const senderLabel = (senderId: string) =>
+    senderId === user?.id ? 'You' : partner?.fullName || 'My Love';
+
   const handleInputChange = (text: string) => {
     setInputText(text);
 
@@ -308,63 +536,69 @@ const ChatScreen: React.FC = () => {
     }
   };
 
-  const formatTime = (timestamp: string) => {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
-
-  // Invitation handling functions
-  const acceptInvitation = () => {
-    if (!currentInvitation) return;
-
-    const success = websocketService.acceptChatInvitation(currentInvitation.id);
-    if (success) {
-      setShowInvitationModal(false);
-      setCurrentInvitation(null);
-    } else {
-      Alert.alert('Error', 'Failed to accept invitation');
-    }
-  };
-
-  const rejectInvitation = () => {
-    if (!currentInvitation) return;
+  // Reactions are applied optimistically and rolled back if the server refuses them
+  const toggleReaction = async (message: Message, emoji: string) => {
+    if (!user) return;
+
+    setReactionTarget(null);
+    const added = !hasReacted(message, emoji, user.id);
+    const event: ReactionEvent = {
+      messageId: message.id,
+      userId: user.id,
+      emoji,
+      createdAt: new Date().toISOString(),
+    };
 
-    const success = websocketService.rejectChatInvitation(currentInvitation.id);
-    if (success) {
-      setShowInvitationModal(false);
-      setCurrentInvitation(null);
-    } else {
-      Alert.alert('Error', 'Failed to reject invitation');
+    updateReaction(event, added);
+    try {
+      await sendReaction(message.id, emoji, added);
+      messageStore.applyReaction(event, added);
+    } catch (error: any) {
+      console.error('Failed to update reaction:', error);
+      updateReaction(event, !added);
+      Alert.alert('Error', error.message || 'Failed to update reaction');
     }
   };
 
-  const dismissNotification = () => {
-    setNotification({ ...notification, visible: false });
+  const toggleRevealed = (message: Message) => {
+    setRevealedId(current => current === message.id ? null : message.id);
   };
 
-  const renderMessage = ({ item }: { item: Message }) => {
-    const isMe = item.senderId === user?.id;
+  const renderBubble = (item: ChatMessage, layout?: MessageLayout) => {
+    // Prefer the loaded original so edits show up; fall back to the server's snapshot
+    const quoted = item.replyToId ? messagesById.get(item.replyToId) || item.replyTo : null;
 
     return (
-      <View style={[styles.messageContainer, isMe ? styles.myMessage : styles.partnerMessage]}>
-        <LinearGradient
-          colors={isMe ? theme.colors.gradients.romantic : theme.colors.gradients.starlight}
-          style={[styles.messageBubble, isMe ? styles.myBubble : styles.partnerBubble]}
-          start={{ x: 0, y: 0 }}
-          end={{ x: 1, y: 1 }}
-        >
-          <Text style={[styles.messageText, { color: theme.colors.etherealWhite }]}>
-            {item.content}
-          </Text>
-        </LinearGradient>
-        <Text style={[styles.messageTime, { color: theme.colors.textSecondary }]}>
-          {formatTime(item.createdAt)}
-        </Text>
-      </View>
+      <MessageBubble
+        item={item}
+        layout={layout}
+        userId={user?.id}
+        quoted={quoted}
+        quotedAuthor={quoted ? senderLabel(quoted.senderId) : undefined}
+        highlighted={history.highlightedId === item.id}
+        revealed={revealedId === item.id}
+        starred={starredIds.has(item.id)}
+        uploadProgress={uploadProgress[item.id]}
+        now={now}
+        linkPreviewsEnabled={linkPreviewsEnabled}
+        onPress={toggleRevealed}
+        onFailedPress={message => confirmFailed(message.id)}
+        onLongPress={setReactionTarget}
+        onDelete={confirmDelete}
+        onReply={startReply}
+        onQuotePress={history.scrollToMessage}
+        onOpenMedia={openMedia}
+        onOpenViewOnce={openViewOnce}
+        onOpenLink={openLink}
+        onToggleReaction={toggleReaction}
+      />
     );
   };
 
-  if (loading) {
+  // The socket's state, or why history couldn't be loaded
+  const connectionProblem = connectionError || history.loadError;
+
+  if (history.loading) {
     return (
       <View style={[styles.container, styles.loadingContainer]}>
         <LinearGradient
@@ -377,7 +611,7 @@ const ChatScreen: React.FC = () => {
         <Text style={[styles.loadingText, { color: theme.colors.etherealWhite }]}>
           Loading messages...
         </Text>
-        {connectionError && (
+        {connectionProblem && (
           <TouchableOpacity
             style={styles.retryButton}
             onPress={loadInitialData}
@@ -406,109 +640,126 @@ const ChatScreen: React.FC = () => {
         end={{ x: 1, y: 1 }}
       />
 
-      {/* Header */}
-      <View style={styles.header}>
-        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
-          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
-        </TouchableOpacity>
-
-        <View style={styles.headerCenter}>
-          <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>
-            {partner?.fullName || 'My Love'} 💖
-          </Text>
-          <Text style={[styles.headerSubtitle, { color: theme.colors.moonlightSilver }]}>
-            {connectionError ? 'Connection Error' :
-              partnerTyping ? 'Typing...' :
-                isConnected ? 'Online' : 'Connecting...'}
-          </Text>
-        </View>
-
-        <TouchableOpacity style={styles.videoCallButton}>
-          <Text style={styles.videoCallIcon}>📹</Text>
-        </TouchableOpacity>
-      </View>
+      <ChatHeader
+        partnerName={partner?.fullName}
+        status={connectionProblem ? 'Connection Error' :
+          !isConnected ? 'Connecting...' :
+            partnerPresence?.typing ? 'typing…' :
+              partnerPresence ? presenceLabel(partnerPresence) : ''}
+        verified={!!partnerKey?.verified}
+        keyChanged={!!partnerKey?.changed}
+        ownKeyChanged={!!ownKey?.changed}
+        exporting={conversationExport.exporting}
+        onBack={() => navigation.goBack()}
+        onTimerPress={() => setChoosingTimer(true)}
+        onSafetyPress={() => partner && navigation.navigate('SafetyNumber', { partner })}
+        onSearchPress={() => partner && navigation.navigate('Search', { partner })}
+        onExportPress={() => conversationExport.setChoosingFormat(true)}
+      />
+
+      {pins.currentPin && (
+        <PinnedBanner
+          count={pins.pins.length}
+          position={pins.pinPosition}
+          preview={messagePreviewText(messagesById.get(pins.currentPin.id) || pins.currentPin)}
+          onPress={openCurrentPin}
+        />
+      )}
 
       {/* Messages */}
-      <FlatList
-        ref={flatListRef}
-        data={messages}
-        renderItem={renderMessage}
-        keyExtractor={(item) => item.id}
-        style={styles.messagesList}
-        contentContainerStyle={styles.messagesContent}
-        showsVerticalScrollIndicator={false}
+      <MessageList
+        listRef={flatListRef}
+        messages={chatMessages}
+        layout={messageLayout}
+        renderBubble={renderBubble}
+        typing={!!partnerPresence?.typing}
+        loadingOlder={history.loadingOlder}
+        unseenCount={unseenCount}
+        onLoadOlder={history.loadOlder}
+        onAtLatestChange={handleAtLatestChange}
+        onViewableItemsChanged={handleViewableItemsChanged}
+        onJumpToLatest={jumpToLatest}
       />
 
       {/* Input Area */}
-      <View style={styles.inputContainer}>
-        <View style={styles.inputWrapper}>
-          <TextInput
-            style={[styles.textInput, { color: theme.colors.text, borderColor: theme.colors.border }]}
-            placeholder="Type a loving message..."
-            placeholderTextColor={theme.colors.textSecondary}
-            value={inputText}
-            onChangeText={handleInputChange}
-            multiline
-            maxLength={500}
-          />
-
-          <TouchableOpacity
-            onPress={sendMessage}
-            style={[styles.sendButton, sending && styles.sendButtonDisabled]}
-            disabled={sending}
-          >
-            <LinearGradient
-              colors={theme.colors.gradients.romantic}
-              style={styles.sendButtonGradient}
-              start={{ x: 0, y: 0 }}
-              end={{ x: 1, y: 1 }}
-            >
-              {sending ? (
-                <ActivityIndicator size="small" color={theme.colors.etherealWhite} />
-              ) : (
-                <Text style={styles.sendIcon}>💕</Text>
-              )}
-            </LinearGradient>
-          </TouchableOpacity>
-        </View>
-
-        {/* Quick Emoji Reactions */}
-        <View style={styles.emojiContainer}>
-          {['💖', '😘', '🌹', '✨', '🌙', '💫'].map((emoji, index) => (
-            <TouchableOpacity
-              key={index}
-              style={styles.emojiButton}
-              onPress={() => handleInputChange(inputText + emoji)}
-            >
-              <Text style={styles.emoji}>{emoji}</Text>
-            </TouchableOpacity>
-          ))}
-        </View>
-      </View>
+      <ChatComposer
+        inputRef={inputRef}
+        text={inputText}
+        onChangeText={handleInputChange}
+        editingMessage={editingMessage}
+        onCancelEdit={cancelEdit}
+        replyingTo={replyingTo}
+        replyAuthor={replyingTo ? senderLabel(replyingTo.senderId) : undefined}
+        onCancelReply={() => setReplyingTo(null)}
+        disappearAfter={disappearAfter}
+        onTimerPress={() => setChoosingTimer(true)}
+        scheduledCount={scheduledItems.length}
+        onScheduledPress={() => navigation.navigate('ScheduledMessages', { partner })}
+        sending={sending}
+        onSend={sendMessage}
+        onSchedule={() => setScheduling(true)}
+        onAttach={pickAttachment}
+        onAttachViewOnce={pickViewOnceAttachment}
+        onVoiceRecorded={sendVoiceNote}
+      />
 
       {/* Chat Invitation Modal */}
       <ChatInvitationModal
-        visible={showInvitationModal}
-        invitation={currentInvitation}
-        onAccept={acceptInvitation}
-        onReject={rejectInvitation}
-        onClose={() => setShowInvitationModal(false)}
+        visible={invitations.showInvitationModal}
+        invitation={invitations.currentInvitation}
+        onAccept={invitations.acceptInvitation}
+        onReject={invitations.rejectInvitation}
+        onClose={invitations.closeInvitationModal}
+      />
+
+      {/* Send later */}
+      <ScheduleMessageModal
+        visible={scheduling}
+        title="Send later 💌"
+        onSubmit={scheduleMessage}
+        onClose={() => setScheduling(false)}
+      />
+
+      <DisappearingTimerPicker
+        visible={choosingTimer}
+        selected={disappearAfter}
+        onSelect={changeDisappearTimer}
+        onClose={() => setChoosingTimer(false)}
+      />
+
+      <ExportConversationModal
+        visible={conversationExport.choosingFormat}
+        onSelect={conversationExport.exportChat}
+        onClose={() => conversationExport.setChoosingFormat(false)}
+      />
+
+      {/* Fullscreen media */}
+      <MediaViewer
+        visible={!!viewerMedia}
+        media={viewerMedia}
+        onClose={closeViewer}
+      />
+
+      {/* Reaction Picker */}
+      <ReactionPicker
+        visible={!!reactionTarget}
+        selected={summarizeReactions(reactionTarget?.reactions, user?.id)
+          .filter(reaction => reaction.reactedByMe)
+          .map(reaction => reaction.emoji)}
+        actions={messageActions(reactionTarget)}
+        onSelect={(emoji) => reactionTarget && toggleReaction(reactionTarget, emoji)}
+        onClose={() => setReactionTarget(null)}
       />
 
       {/* Invitation Notification */}
       <InvitationNotification
-        visible={notification.visible}
-        type={notification.type}
-        senderName={notification.senderName}
-        recipientName={notification.recipientName}
-        message={notification.message}
-        onDismiss={dismissNotification}
-        onPress={() => {
-          if (notification.type === 'received' && currentInvitation) {
-            setShowInvitationModal(true);
-          }
-          dismissNotification();
-        }}
+        visible={invitations.notification.visible}
+        type={invitations.notification.type}
+        senderName={invitations.notification.senderName}
+        recipientName={invitations.notification.recipientName}
+        message={invitations.notification.message}
+        onDismiss={invitations.dismissNotification}
+        onPress={invitations.openNotification}
       />
     </KeyboardAvoidingView>
   );
@@ -525,125 +776,6 @@ const styles = StyleSheet.create({
     top: 0,
     bottom: 0,
   },
-  header: {
-    flexDirection: 'row',
-    justifyContent: 'space-between',
-    alignItems: 'center',
-    paddingHorizontal: 20,
-    paddingTop: StatusBar.currentHeight || 44,
-    paddingBottom: 16,
-    borderBottomWidth: 1,
-    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
-  },
-  backButton: {
-    padding: 8,
-  },
-  backText: {
-    fontSize: 16,
-    fontWeight: '600',
-  },
-  headerCenter: {
-    alignItems: 'center',
-  },
-  headerTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-  },
-  headerSubtitle: {
-    fontSize: 12,
-    opacity: 0.8,
-  },
-  videoCallButton: {
-    padding: 8,
-  },
-  videoCallIcon: {
-    fontSize: 20,
-  },
-  messagesList: {
-    flex: 1,
-  },
-  messagesContent: {
-    paddingHorizontal: 16,
-    paddingVertical: 16,
-  },
-  messageContainer: {
-    marginVertical: 4,
-    maxWidth: '80%',
-  },
-  myMessage: {
-    alignSelf: 'flex-end',
-    alignItems: 'flex-end',
-  },
-  partnerMessage: {
-    alignSelf: 'flex-start',
-    alignItems: 'flex-start',
-  },
-  messageBubble: {
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    borderRadius: 20,
-    marginBottom: 4,
-  },
-  myBubble: {
-    borderBottomRightRadius: 8,
-  },
-  partnerBubble: {
-    borderBottomLeftRadius: 8,
-  },
-  messageText: {
-    fontSize: 16,
-    lineHeight: 20,
-  },
-  messageTime: {
-    fontSize: 12,
-    opacity: 0.6,
-  },
-  inputContainer: {
-    paddingHorizontal: 16,
-    paddingVertical: 16,
-    borderTopWidth: 1,
-    borderTopColor: 'rgba(255, 255, 255, 0.1)',
-  },
-  inputWrapper: {
-    flexDirection: 'row',
-    alignItems: 'flex-end',
-    marginBottom: 12,
-  },
-  textInput: {
-    flex: 1,
-    borderWidth: 1,
-    borderRadius: 20,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
-    fontSize: 16,
-    maxHeight: 100,
-    backgroundColor: 'rgba(255, 255, 255, 0.1)',
-    marginRight: 12,
-  },
-  sendButton: {
-    width: 44,
-    height: 44,
-  },
-  sendButtonGradient: {
-    width: '100%',
-    height: '100%',
-    borderRadius: 22,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  sendIcon: {
-    fontSize: 20,
-  },
-  emojiContainer: {
-    flexDirection: 'row',
-    justifyContent: 'space-around',
-  },
-  emojiButton: {
-    padding: 8,
-  },
-  emoji: {
-    fontSize: 24,
-  },
   loadingContainer: {
     justifyContent: 'center',
     alignItems: 'center',
@@ -653,9 +785,6 @@ const styles = StyleSheet.create({
     fontSize: 16,
     opacity: 0.8,
   },
-  sendButtonDisabled: {
-    opacity: 0.6,
-  },
   retryButton: {
     marginTop: 20,
     paddingHorizontal: 20,
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  StatusBar,
+  Switch,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { useTheme } from '../context/ThemeContext';
+import linkPreviews from '../services/linkPreviews';
+
+const ChatSettingsScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { theme } = useTheme();
+
+  const [previewsEnabled, setPreviewsEnabled] = useState(linkPreviews.isEnabled);
+
+  useEffect(() => {
+    linkPreviews.on(setPreviewsEnabled);
+    return () => linkPreviews.off(setPreviewsEnabled);
+  }, []);
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>Chat Settings ⚙️</Text>
+      </View>
+
+      <View style={styles.content}>
+        <View style={[styles.row, { borderBottomColor: theme.colors.border }]}>
+          <View style={styles.rowText}>
+            <Text style={[styles.label, { color: theme.colors.etherealWhite }]}>Link previews</Text>
+            <Text style={[styles.hint, { color: theme.colors.moonlightSilver }]}>
+              {linkPreviews.available
+                ? 'Show a card with the title and picture of links in your chats. Links are looked up through our server, so it sees every link you send or receive, even in encrypted messages. Turning this off also forgets the previews saved on this device.'
+                : 'Link previews are turned off in this version of the app.'}
+            </Text>
+          </View>
+          <Switch
+            value={previewsEnabled}
+            onValueChange={enabled => linkPreviews.setEnabled(enabled)}
+            disabled={!linkPreviews.available}
+            trackColor={{ false: theme.colors.border, true: theme.colors.stardustPink }}
+            thumbColor={theme.colors.etherealWhite}
+          />
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingHorizontal: 20,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 16,
+    borderBottomWidth: 1,
+  },
+  rowText: {
+    flex: 1,
+    marginRight: 16,
+  },
+  label: {
+    fontSize: 16,
+    fontWeight: '600',
+    marginBottom: 4,
+  },
+  hint: {
+    fontSize: 13,
+    lineHeight: 18,
+  },
+});
+
+export default ChatSettingsScreen;
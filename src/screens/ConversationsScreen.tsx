@@ -0,0 +1,508 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  RefreshControl,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { StackNavigationProp } from '@react-navigation/stack';
+import { useAuth } from '../context/AuthContext';
+import { useTheme } from '../context/ThemeContext';
+import apiService from '../services/api';
+import messageStore from '../services/messageStore';
+import unreadStore, { UnreadCounts } from '../services/unreadStore';
+import draftStore, { Drafts } from '../services/draftStore';
+import { messagePreviewText } from '../services/messagePreview';
+import { LAST_SEEN_REFRESH_MS, formatLastSeen } from '../services/presence';
+import websocketService, { Message, User, UserPresence } from '../services/websocket';
+import { ChatRouteParams } from './ChatScreen';
+import { SearchRouteParams } from './SearchScreen';
+
+type ConversationsNavigation = StackNavigationProp<{
+  Chat: ChatRouteParams;
+  Search: SearchRouteParams | undefined;
+  StarredMessages: undefined;
+  ChatSettings: undefined;
+}>;
+
+// Newest messages fetched per partner for the list; enough for the preview and unread badge
+const LATEST_PAGE_SIZE = 30;
+
+interface Conversation {
+  partner: User;
+  lastMessage?: Message;
+  unreadCount: number;
+}
+
+// Group my messages into one thread per partner, most recent first
+const buildConversations = (users: User[], messages: Message[], myId: string): Conversation[] => {
+  const conversations = new Map<string, Conversation>();
+  users
+    .filter(u => u.id !== myId)
+    .forEach(partner => conversations.set(partner.id, { partner, unreadCount: 0 }));
+
+  messages.forEach(message => applyMessage(conversations, message, myId));
+
+  return sortConversations(Array.from(conversations.values()));
+};
+
+const applyMessage = (conversations: Map<string, Conversation>, message: Message, myId: string) => {
+  const partnerId = message.senderId === myId ? message.recipientId : message.senderId;
+  const conversation = conversations.get(partnerId) || {
+    partner: message.senderId === myId ? message.recipient : message.sender,
+    unreadCount: 0,
+  };
+
+  if (!conversation.lastMessage || conversation.lastMessage.createdAt < message.createdAt) {
+    conversation.lastMessage = message;
+  }
+  if (message.recipientId === myId && message.status !== 'READ') {
+    conversation.unreadCount += 1;
+  }
+  conversations.set(partnerId, conversation);
+};
+
+const sortConversations = (conversations: Conversation[]): Conversation[] =>
+  conversations.sort((a, b) => {
+    if (a.lastMessage && b.lastMessage) {
+      return b.lastMessage.createdAt.localeCompare(a.lastMessage.createdAt);
+    }
+    if (a.lastMessage) return -1;
+    if (b.lastMessage) return 1;
+    return (a.partner.fullName || a.partner.email).localeCompare(b.partner.fullName || b.partner.email);
+  });
+
+const ConversationsScreen: React.FC = () => {
+  const navigation = useNavigation<ConversationsNavigation>();
+  const { user } = useAuth();
+  const { theme } = useTheme();
+
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  // Presence of the partners in the list, kept current by the socket service
+  const [presence, setPresence] = useState<Record<string, UserPresence>>({});
+  const [unreadCounts, setUnreadCounts] = useState<UnreadCounts>(unreadStore.getCounts());
+  const [drafts, setDrafts] = useState<Drafts>(draftStore.getAll());
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadConversations = useCallback(async () => {
+    if (!user) return;
+
+    // Show stored threads straight away; the server copy replaces them below
+    const stored = await messageStore.getConversations();
+    if (stored.length > 0) {
+      setConversations(sortConversations(stored.map(({ lastMessage, unreadCount }) => ({
+        partner: lastMessage.senderId === user.id ? lastMessage.recipient : lastMessage.sender,
+        lastMessage,
+        unreadCount,
+      }))));
+      setLoading(false);
+    }
+
+    try {
+      setError(null);
+      const users = await apiService.getUsers();
+      // Only each thread's latest page; the chat screen loads the rest of its history
+      const pages = await Promise.all(users
+        .filter(u => u.id !== user.id)
+        .map(partner => apiService.getMessages(partner.id, { limit: LATEST_PAGE_SIZE })));
+      const messages = pages.flat();
+      await messageStore.upsertMessages(messages);
+      websocketService.seedPresence(users);
+      const built = buildConversations(users, messages, user.id);
+      setConversations(built);
+      unreadStore.setCounts(Object.fromEntries(built.map(c => [c.partner.id, c.unreadCount])));
+    } catch (error: any) {
+      console.error('Failed to load conversations:', error);
+      setError(error.message || 'Failed to load conversations');
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [user?.id]);
+
+  // WebSocket event handlers
+  const handleNewMessage = useCallback((message: Message) => {
+    if (!user) return;
+
+    setConversations(prev => {
+      const map = new Map(prev.map(c => [c.partner.id, { ...c }]));
+      applyMessage(map, message, user.id);
+      return sortConversations(Array.from(map.values()));
+    });
+  }, [user?.id]);
+
+  const handlePresenceChanged = useCallback((data: UserPresence) => {
+    setPresence(prev => ({ ...prev, [data.userId]: data }));
+  }, []);
+
+  useEffect(() => {
+    if (!user?.id) return;
+
+    websocketService.on('new_message', handleNewMessage);
+    websocketService.on('presence_changed', handlePresenceChanged);
+    websocketService.connect(user.id);
+
+    return () => {
+      websocketService.off('new_message', handleNewMessage);
+      websocketService.off('presence_changed', handlePresenceChanged);
+    };
+  }, [user?.id]);
+
+  useEffect(() => {
+    // Re-read presence for everyone listed; the interval keeps "last seen" current
+    const refreshPresence = () => setPresence(Object.fromEntries(
+      conversations.map(c => [c.partner.id, websocketService.getPresence(c.partner.id)])
+    ));
+    refreshPresence();
+    const refresh = setInterval(refreshPresence, LAST_SEEN_REFRESH_MS);
+    return () => clearInterval(refresh);
+  }, [conversations]);
+
+  useEffect(() => {
+    unreadStore.on(setUnreadCounts);
+    draftStore.on(setDrafts);
+    return () => {
+      unreadStore.off(setUnreadCounts);
+      draftStore.off(setDrafts);
+    };
+  }, []);
+
+  useEffect(() => {
+    // Reload whenever the list comes back into view so unread counts are fresh
+    const unsubscribe = navigation.addListener('focus', loadConversations);
+    return unsubscribe;
+  }, [navigation, loadConversations]);
+
+  const onRefresh = useCallback(() => {
+    setRefreshing(true);
+    loadConversations();
+  }, [loadConversations]);
+
+  const openConversation = (partner: User) => {
+    navigation.navigate('Chat', { partner });
+  };
+
+  const formatTime = (dateString: string) => {
+    const date = new Date(dateString);
+    const now = new Date();
+    const diffMs = now.getTime() - date.getTime();
+    const diffMins = Math.floor(diffMs / (1000 * 60));
+
+    if (diffMins < 1) return 'Just now';
+    if (diffMins < 60) return `${diffMins}m ago`;
+    if (diffMins < 1440) return `${Math.floor(diffMins / 60)}h ago`;
+    return date.toLocaleDateString();
+  };
+
+  const renderConversation = ({ item }: { item: Conversation }) => {
+    const name = item.partner.fullName || item.partner.email;
+    const partnerPresence = presence[item.partner.id];
+    const isOnline = !!partnerPresence?.online;
+    const isTyping = !!partnerPresence?.typing;
+    const isMine = item.lastMessage?.senderId === user?.id;
+    const unreadCount = unreadCounts[item.partner.id] || 0;
+    const draft = drafts[item.partner.id];
+
+    return (
+      <TouchableOpacity
+        style={styles.conversationItem}
+        onPress={() => openConversation(item.partner)}
+        activeOpacity={0.8}
+      >
+        <LinearGradient
+          colors={theme.colors.gradients.starlight}
+          style={styles.conversationCard}
+          start={{ x: 0, y: 0 }}
+          end={{ x: 1, y: 1 }}
+        >
+          <View style={styles.avatar}>
+            <Text style={styles.avatarText}>{name.charAt(0).toUpperCase()}</Text>
+            <View
+              style={[
+                styles.presenceDot,
+                { backgroundColor: isOnline ? theme.colors.success : theme.colors.textSecondary },
+              ]}
+            />
+          </View>
+
+          <View style={styles.conversationDetails}>
+            <View style={styles.conversationHeader}>
+              <Text style={[styles.partnerName, { color: theme.colors.etherealWhite }]} numberOfLines={1}>
+                {name}
+              </Text>
+              {item.lastMessage && (
+                <Text style={[styles.timestamp, { color: theme.colors.moonlightSilver }]}>
+                  {formatTime(item.lastMessage.createdAt)}
+                </Text>
+              )}
+            </View>
+            {!isOnline && partnerPresence?.lastSeenAt && (
+              <Text style={[styles.lastSeen, { color: theme.colors.textSecondary }]} numberOfLines={1}>
+                last seen {formatLastSeen(partnerPresence.lastSeenAt)}
+              </Text>
+            )}
+
+            <View style={styles.conversationFooter}>
+              <Text
+                style={[
+                  styles.preview,
+                  { color: theme.colors.moonlightSilver },
+                  unreadCount > 0 && styles.previewUnread,
+                  isTyping && { color: theme.colors.stardustPink },
+                ]}
+                numberOfLines={1}
+              >
+                {isTyping ? 'typing…' : draft ? (
+                  <>
+                    <Text style={[styles.draftLabel, { color: theme.colors.stardustPink }]}>Draft: </Text>
+                    {draft.text.trim() || '↩ Reply'}
+                  </>
+                ) : item.lastMessage
+                  ? `${isMine && !item.lastMessage.deletedAt ? 'You: ' : ''}${messagePreviewText(item.lastMessage)}`
+                  : 'Say hello 💫'}
+              </Text>
+              {unreadCount > 0 && (
+                <View style={[styles.unreadBadge, { backgroundColor: theme.colors.stardustPink }]}>
+                  <Text style={[styles.unreadText, { color: theme.colors.etherealWhite }]}>
+                    {unreadCount > 99 ? '99+' : unreadCount}
+                  </Text>
+                </View>
+              )}
+            </View>
+          </View>
+        </LinearGradient>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>
+          Love Letters 💌
+        </Text>
+        <View style={styles.headerActions}>
+          <TouchableOpacity onPress={() => navigation.navigate('StarredMessages')} style={styles.searchButton}>
+            <Text style={styles.searchIcon}>⭐</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => navigation.navigate('Search')} style={styles.searchButton}>
+            <Text style={styles.searchIcon}>🔍</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => navigation.navigate('ChatSettings')} style={styles.searchButton}>
+            <Text style={styles.searchIcon}>⚙️</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+
+      {loading ? (
+        <View style={styles.centered}>
+          <ActivityIndicator size="large" color={theme.colors.stardustPink} />
+        </View>
+      ) : error && conversations.length === 0 ? (
+        <View style={styles.centered}>
+          <Text style={[styles.emptyText, { color: theme.colors.moonlightSilver }]}>{error}</Text>
+          <TouchableOpacity style={styles.retryButton} onPress={onRefresh}>
+            <Text style={[styles.retryText, { color: theme.colors.stardustPink }]}>Try Again</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <FlatList
+          data={conversations}
+          renderItem={renderConversation}
+          keyExtractor={(item) => item.partner.id}
+          contentContainerStyle={styles.listContent}
+          showsVerticalScrollIndicator={false}
+          ListEmptyComponent={
+            <Text style={[styles.emptyText, { color: theme.colors.moonlightSilver }]}>
+              No conversations yet
+            </Text>
+          }
+          refreshControl={
+            <RefreshControl
+              refreshing={refreshing}
+              onRefresh={onRefresh}
+              tintColor={theme.colors.stardustPink}
+            />
+          }
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  backButton: {
+    padding: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  headerActions: {
+    flexDirection: 'row',
+  },
+  searchButton: {
+    padding: 8,
+  },
+  searchIcon: {
+    fontSize: 20,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  listContent: {
+    padding: 16,
+  },
+  conversationItem: {
+    marginBottom: 12,
+  },
+  conversationCard: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    borderRadius: 16,
+    padding: 14,
+  },
+  avatar: {
+    width: 50,
+    height: 50,
+    borderRadius: 25,
+    backgroundColor: 'rgba(255, 255, 255, 0.2)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: 14,
+  },
+  avatarText: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#fff',
+  },
+  presenceDot: {
+    position: 'absolute',
+    right: 0,
+    bottom: 0,
+    width: 14,
+    height: 14,
+    borderRadius: 7,
+    borderWidth: 2,
+    borderColor: '#2D1B69',
+  },
+  conversationDetails: {
+    flex: 1,
+  },
+  conversationHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  partnerName: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  timestamp: {
+    fontSize: 12,
+    opacity: 0.8,
+  },
+  lastSeen: {
+    fontSize: 12,
+    marginBottom: 2,
+  },
+  conversationFooter: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  preview: {
+    flex: 1,
+    fontSize: 14,
+    opacity: 0.8,
+  },
+  draftLabel: {
+    fontWeight: '600',
+  },
+  previewUnread: {
+    fontWeight: 'bold',
+    opacity: 1,
+  },
+  unreadBadge: {
+    minWidth: 22,
+    height: 22,
+    borderRadius: 11,
+    paddingHorizontal: 6,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  unreadText: {
+    fontSize: 12,
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    fontSize: 16,
+    textAlign: 'center',
+    marginTop: 40,
+  },
+  retryButton: {
+    marginTop: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    borderRadius: 20,
+    borderWidth: 1,
+    borderColor: 'rgba(255, 255, 255, 0.3)',
+  },
+  retryText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default ConversationsScreen;
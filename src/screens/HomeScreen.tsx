@@ -1,4 +1,4 @@
-import React, { useRef, useEffect } from 'react';
+import React, { useRef, useEffect, useState } from 'react';
 import {
   View,
   Text,
@@ -13,6 +13,7 @@ import { LinearGradient } from 'expo-linear-gradient';
 import { useNavigation } from '@react-navigation/native';
 import { useAuth } from '../context/AuthContext';
 import { useTheme } from '../context/ThemeContext';
+import unreadStore from '../services/unreadStore';
 
 const { width, height } = Dimensions.get('window');
 
@@ -23,9 +24,11 @@ interface MenuItemProps {
   colors: readonly string[];
   onPress: () => void;
   delay: number;
+  // Count shown over the icon, hidden when zero
+  badge?: number;
 }
 
-const MenuItem: React.FC<MenuItemProps> = ({ title, subtitle, icon, colors, onPress, delay }) => {
+const MenuItem: React.FC<MenuItemProps> = ({ title, subtitle, icon, colors, onPress, delay, badge }) => {
   const { theme } = useTheme();
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const scaleAnim = useRef(new Animated.Value(0.8)).current;
@@ -67,7 +70,16 @@ const MenuItem: React.FC<MenuItemProps> = ({ title, subtitle, icon, colors, onPr
           end={{ x: 1, y: 1 }}
         >
           <View style={styles.menuItemContent}>
-            <Text style={styles.menuItemIcon}>{icon}</Text>
+            <View>
+              <Text style={styles.menuItemIcon}>{icon}</Text>
+              {!!badge && (
+                <View style={[styles.menuItemBadge, { backgroundColor: theme.colors.stardustPink }]}>
+                  <Text style={[styles.menuItemBadgeText, { color: theme.colors.etherealWhite }]}>
+                    {badge > 99 ? '99+' : badge}
+                  </Text>
+                </View>
+              )}
+            </View>
             <View style={styles.menuItemText}>
               <Text style={[styles.menuItemTitle, { color: theme.colors.etherealWhite }]}>
                 {title}
@@ -90,6 +102,13 @@ const HomeScreen: React.FC = () => {
 
   const headerAnim = useRef(new Animated.Value(0)).current;
   const pulseAnim = useRef(new Animated.Value(1)).current;
+  const [unreadTotal, setUnreadTotal] = useState(unreadStore.getTotal());
+
+  useEffect(() => {
+    const handleUnreadChanged = () => setUnreadTotal(unreadStore.getTotal());
+    unreadStore.on(handleUnreadChanged);
+    return () => unreadStore.off(handleUnreadChanged);
+  }, []);
 
   useEffect(() => {
     // Header animation
@@ -133,8 +152,9 @@ const HomeScreen: React.FC = () => {
       subtitle: 'Whisper sweet nothings',
       icon: '💬',
       colors: theme.colors.gradients.romantic,
-      onPress: () => navigation.navigate('Chat' as never),
+      onPress: () => navigation.navigate('Conversations' as never),
       delay: 200,
+      badge: unreadTotal,
     },
     ...(isAdmin ? [{
       title: 'Admin Chat',
@@ -253,6 +273,7 @@ const HomeScreen: React.FC = () => {
               colors={item.colors}
               onPress={item.onPress}
               delay={item.delay}
+              badge={'badge' in item ? item.badge : undefined}
             />
           ))}
         </View>
@@ -346,6 +367,21 @@ const styles = StyleSheet.create({
     fontSize: 32,
     marginRight: 16,
   },
+  menuItemBadge: {
+    position: 'absolute',
+    top: -6,
+    right: 6,
+    minWidth: 20,
+    height: 20,
+    borderRadius: 10,
+    paddingHorizontal: 5,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  menuItemBadgeText: {
+    fontSize: 11,
+    fontWeight: 'bold',
+  },
   menuItemText: {
     flex: 1,
   },
@@ -4,27 +4,16 @@ import {
   Text,
   TouchableOpacity,
   StyleSheet,
-  Dimensions,
   FlatList,
   Image,
-  Modal,
   StatusBar,
 } from 'react-native';
-import Animated, {
-  useSharedValue,
-  useAnimatedStyle,
-  withSpring,
-  withTiming,
-  interpolate,
-  runOnJS,
-} from 'react-native-reanimated';
-import { PinchGestureHandler, PanGestureHandler, State } from 'react-native-gesture-handler';
+import Animated, { useAnimatedStyle } from 'react-native-reanimated';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useNavigation } from '@react-navigation/native';
 import { useTheme } from '../context/ThemeContext';
 import * as ImagePicker from 'expo-image-picker';
-
-const { width, height } = Dimensions.get('window');
+import MediaViewer from '../components/MediaViewer';
 
 interface Photo {
   id: string;
@@ -50,12 +39,6 @@ const PhotoGalleryScreen: React.FC = () => {
   const [selectedPhoto, setSelectedPhoto] = useState<Photo | null>(null);
   const [modalVisible, setModalVisible] = useState(false);
 
-  // Animation values
-  const scale = useSharedValue(1);
-  const translateX = useSharedValue(0);
-  const translateY = useSharedValue(0);
-  const opacity = useSharedValue(1);
-
   useEffect(() => {
     requestPermissions();
   }, []);
@@ -89,35 +72,13 @@ const PhotoGalleryScreen: React.FC = () => {
   const openPhoto = (photo: Photo) => {
     setSelectedPhoto(photo);
     setModalVisible(true);
-    scale.value = withSpring(1);
-    translateX.value = 0;
-    translateY.value = 0;
-    opacity.value = withTiming(1);
   };
 
   const closeModal = () => {
-    opacity.value = withTiming(0, { duration: 300 }, () => {
-      runOnJS(setModalVisible)(false);
-      runOnJS(setSelectedPhoto)(null);
-    });
-  };
-
-  const onPinchEvent = (event: any) => {
-    scale.value = event.nativeEvent.scale;
-  };
-
-  const onPanEvent = (event: any) => {
-    translateX.value = event.nativeEvent.translationX;
-    translateY.value = event.nativeEvent.translationY;
+    setModalVisible(false);
+    setSelectedPhoto(null);
   };
 
-  const animatedStyle = useAnimatedStyle(() => {
-    'worklet';
-    return {
-      opacity: opacity.value,
-    };
-  });
-
   const renderPhoto = ({ item, index }: { item: Photo; index: number }) => {
     const animatedItemStyle = useAnimatedStyle(() => {
       return {
@@ -187,35 +148,16 @@ const PhotoGalleryScreen: React.FC = () => {
       />
 
       {/* Photo Modal */}
-      <Modal
+      <MediaViewer
         visible={modalVisible}
-        transparent
-        animationType="fade"
-        onRequestClose={closeModal}
-      >
-        <View style={styles.modalContainer}>
-          <TouchableOpacity style={styles.modalBackground} onPress={closeModal} />
-
-          {selectedPhoto && (
-            <PanGestureHandler onGestureEvent={onPanEvent}>
-              <PinchGestureHandler onGestureEvent={onPinchEvent}>
-                <Animated.View style={[styles.modalContent, animatedStyle]}>
-                  <Image source={{ uri: selectedPhoto.uri }} style={styles.modalImage} />
-
-                  <View style={styles.modalInfo}>
-                    <Text style={[styles.modalTitle, { color: theme.colors.etherealWhite }]}>
-                      {selectedPhoto.title}
-                    </Text>
-                    <Text style={[styles.modalDate, { color: theme.colors.moonlightSilver }]}>
-                      {selectedPhoto.date}
-                    </Text>
-                  </View>
-                </Animated.View>
-              </PinchGestureHandler>
-            </PanGestureHandler>
-          )}
-        </View>
-      </Modal>
+        media={selectedPhoto && {
+          uri: selectedPhoto.uri,
+          type: 'image',
+          title: selectedPhoto.title,
+          subtitle: selectedPhoto.date,
+        }}
+        onClose={closeModal}
+      />
     </View>
   );
 };
@@ -295,43 +237,6 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.8,
   },
-  modalContainer: {
-    flex: 1,
-    backgroundColor: 'rgba(0, 0, 0, 0.9)',
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
-  modalBackground: {
-    position: 'absolute',
-    top: 0,
-    left: 0,
-    right: 0,
-    bottom: 0,
-  },
-  modalContent: {
-    width: width * 0.9,
-    maxHeight: height * 0.8,
-    alignItems: 'center',
-  },
-  modalImage: {
-    width: '100%',
-    height: height * 0.6,
-    resizeMode: 'contain',
-    borderRadius: 16,
-  },
-  modalInfo: {
-    marginTop: 16,
-    alignItems: 'center',
-  },
-  modalTitle: {
-    fontSize: 18,
-    fontWeight: 'bold',
-    marginBottom: 4,
-  },
-  modalDate: {
-    fontSize: 14,
-    opacity: 0.8,
-  },
 });
 
 export default PhotoGalleryScreen;
@@ -0,0 +1,238 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  StatusBar,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useTheme } from '../context/ThemeContext';
+import encryptionService, { ContactKey } from '../services/encryption';
+import { User } from '../services/schemas';
+
+export interface SafetyNumberRouteParams {
+  partner: User;
+}
+
+const SafetyNumberScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<{ SafetyNumber: SafetyNumberRouteParams }, 'SafetyNumber'>>();
+  const { theme } = useTheme();
+  const partner = route.params.partner;
+  const partnerName = partner.fullName || 'your love';
+
+  const [digits, setDigits] = useState<string[] | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [contact, setContact] = useState<ContactKey | null>(encryptionService.getContact(partner.id));
+  const [ownContact, setOwnContact] = useState<ContactKey | null>(encryptionService.getOwnContact());
+
+  useEffect(() => {
+    const handleKeysChanged = () => {
+      setContact(encryptionService.getContact(partner.id));
+      setOwnContact(encryptionService.getOwnContact());
+    };
+    encryptionService.on(handleKeysChanged);
+
+    encryptionService.getSafetyNumber(partner.id)
+      .then(setDigits)
+      .catch(error => console.error('Failed to compute safety number:', error))
+      .finally(() => setLoading(false));
+
+    return () => encryptionService.off(handleKeysChanged);
+  }, [partner.id]);
+
+  const toggleVerified = () => {
+    if (!contact) return;
+    encryptionService.setVerified(partner.id, !contact.verified);
+  };
+
+  const trustNewKeys = () => {
+    encryptionService.trustNewKeys(partner.id);
+  };
+
+  const trustOwnKeys = () => {
+    encryptionService.trustOwnKeys();
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>Safety Number</Text>
+      </View>
+
+      <ScrollView contentContainerStyle={styles.content}>
+        {loading ? (
+          <ActivityIndicator color={theme.colors.stardustPink} style={styles.loader} />
+        ) : digits ? (
+          <>
+            <Text style={[styles.intro, { color: theme.colors.moonlightSilver }]}>
+              Your messages with {partnerName} are end-to-end encrypted. Compare these numbers
+              with the ones on {partnerName}'s phone, side by side or over a call. If they
+              match, nobody else can read your chat.
+            </Text>
+
+            <View style={[styles.grid, { borderColor: theme.colors.border }]}>
+              {digits.map((group, index) => (
+                <Text key={index} style={[styles.group, { color: theme.colors.etherealWhite }]}>
+                  {group}
+                </Text>
+              ))}
+            </View>
+
+            {contact?.changed && (
+              <>
+                <Text style={[styles.warning, { color: theme.colors.cosmicGold }]}>
+                  {partnerName} has a new security key. This happens with a new phone or a
+                  reinstall; until you compare the numbers again, nothing is sent to it and
+                  messages sealed with it stay hidden.
+                </Text>
+                <TouchableOpacity onPress={trustNewKeys}>
+                  <Text style={[styles.trustText, { color: theme.colors.moonlightSilver }]}>
+                    Trust the new key without comparing
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            {ownContact?.changed && (
+              <>
+                <Text style={[styles.warning, { color: theme.colors.cosmicGold }]}>
+                  A new device was added to your account. If you just signed in on another
+                  phone, approve it to read your messages there too. If you didn't, change your
+                  password: nothing is sent to that device until you approve it.
+                </Text>
+                <TouchableOpacity onPress={trustOwnKeys}>
+                  <Text style={[styles.trustText, { color: theme.colors.moonlightSilver }]}>
+                    It's my device, trust it
+                  </Text>
+                </TouchableOpacity>
+              </>
+            )}
+
+            <TouchableOpacity
+              style={[styles.verifyButton, { borderColor: theme.colors.stardustPink }]}
+              onPress={toggleVerified}
+            >
+              <Text style={[styles.verifyText, { color: theme.colors.stardustPink }]}>
+                {contact?.verified ? '✓ Verified · Clear verification' : 'Mark as verified'}
+              </Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <Text style={[styles.intro, { color: theme.colors.moonlightSilver }]}>
+            {partnerName} hasn't set up encryption yet. Messages can't be sent until they update
+            the app and sign in, so nothing leaves your phone unencrypted.
+          </Text>
+        )}
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  content: {
+    paddingHorizontal: 24,
+    paddingBottom: 40,
+  },
+  loader: {
+    marginTop: 40,
+  },
+  intro: {
+    fontSize: 15,
+    lineHeight: 22,
+    textAlign: 'center',
+    marginTop: 16,
+  },
+  grid: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    marginTop: 24,
+  },
+  group: {
+    width: '25%',
+    textAlign: 'center',
+    fontSize: 18,
+    fontFamily: 'monospace',
+    letterSpacing: 1,
+    marginVertical: 8,
+  },
+  warning: {
+    fontSize: 14,
+    lineHeight: 20,
+    textAlign: 'center',
+    marginTop: 20,
+  },
+  trustText: {
+    fontSize: 13,
+    textAlign: 'center',
+    textDecorationLine: 'underline',
+    marginTop: 10,
+  },
+  verifyButton: {
+    alignSelf: 'center',
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+    marginTop: 24,
+  },
+  verifyText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
+
+export default SafetyNumberScreen;
@@ -0,0 +1,228 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  StatusBar,
+  Alert,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useTheme } from '../context/ThemeContext';
+import scheduledMessages, { ScheduledItem } from '../services/scheduledMessages';
+import ScheduleMessageModal from '../components/ScheduleMessageModal';
+import { User } from '../services/schemas';
+
+export interface ScheduledMessagesRouteParams {
+  partner: User;
+}
+
+const formatSendAt = (sendAt: string) =>
+  new Date(sendAt).toLocaleString([], {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+const ScheduledMessagesScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<{ ScheduledMessages: ScheduledMessagesRouteParams }, 'ScheduledMessages'>>();
+  const { theme } = useTheme();
+  const partner = route.params.partner;
+
+  const [items, setItems] = useState<ScheduledItem[]>(scheduledMessages.getItems(partner.id));
+  const [editing, setEditing] = useState<ScheduledItem | null>(null);
+
+  useEffect(() => {
+    const handleChanged = () => setItems(scheduledMessages.getItems(partner.id));
+    scheduledMessages.on(handleChanged);
+    scheduledMessages.refresh(partner.id);
+    return () => scheduledMessages.off(handleChanged);
+  }, [partner.id]);
+
+  const saveEdit = async (sendAt: Date, content?: string) => {
+    if (!editing) return;
+
+    const item = editing;
+    setEditing(null);
+    try {
+      await scheduledMessages.update(item, { content, sendAt: sendAt.toISOString() });
+    } catch (error: any) {
+      console.error('Failed to update scheduled message:', error);
+      Alert.alert('Error', error.message || 'Failed to update scheduled message');
+    }
+  };
+
+  const confirmCancel = (item: ScheduledItem) => {
+    Alert.alert('Cancel scheduled message?', 'It will not be sent.', [
+      { text: 'Keep', style: 'cancel' },
+      {
+        text: 'Cancel message',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await scheduledMessages.cancel(item);
+          } catch (error: any) {
+            console.error('Failed to cancel scheduled message:', error);
+            Alert.alert('Error', error.message || 'Failed to cancel scheduled message');
+          }
+        },
+      },
+    ]);
+  };
+
+  const renderItem = ({ item }: { item: ScheduledItem }) => (
+    <View style={[styles.item, { borderBottomColor: theme.colors.border }]}>
+      <View style={styles.itemHeader}>
+        <Text style={[styles.sendAt, { color: theme.colors.cosmicGold }]}>
+          🕒 {formatSendAt(item.sendAt)}
+        </Text>
+        {item.local && (
+          <Text style={[styles.localNote, { color: theme.colors.textSecondary }]}>
+            Sends from this device
+          </Text>
+        )}
+      </View>
+      <Text style={[styles.content, { color: theme.colors.etherealWhite }]} numberOfLines={3}>
+        {item.content}
+      </Text>
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.actionButton} onPress={() => setEditing(item)}>
+          <Text style={[styles.actionText, { color: theme.colors.stardustPink }]}>Edit</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.actionButton} onPress={() => confirmCancel(item)}>
+          <Text style={[styles.actionText, { color: theme.colors.error }]}>Cancel</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]} numberOfLines={1}>
+          Scheduled for {partner.fullName || 'My Love'}
+        </Text>
+      </View>
+
+      <FlatList
+        data={items}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.colors.moonlightSilver }]}>
+            No love notes waiting to be sent 💌{'\n'}Long-press send in the chat to schedule one.
+          </Text>
+        }
+      />
+
+      <ScheduleMessageModal
+        visible={!!editing}
+        title="Edit scheduled message"
+        content={editing?.content}
+        initialSendAt={editing ? new Date(editing.sendAt) : undefined}
+        submitLabel="Save"
+        onSubmit={saveEdit}
+        onClose={() => setEditing(null)}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  item: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 6,
+  },
+  sendAt: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  localNote: {
+    fontSize: 12,
+  },
+  content: {
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 6,
+  },
+  actionButton: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+  },
+  actionText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+});
+
+export default ScheduledMessagesScreen;
@@ -0,0 +1,349 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  ScrollView,
+  StatusBar,
+  ActivityIndicator,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation, useRoute, RouteProp } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { useTheme } from '../context/ThemeContext';
+import messageStore, { SearchFilters } from '../services/messageStore';
+import { Message, MessageType, User } from '../services/schemas';
+
+export interface SearchRouteParams {
+  // Limit the search to one conversation
+  partner?: User;
+}
+
+type SenderFilter = 'anyone' | 'me' | 'partner';
+
+const SEARCH_DEBOUNCE = 300;
+// Characters of context kept before the first match in a snippet
+const SNIPPET_CONTEXT = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const TYPE_FILTERS: { label: string; value?: MessageType }[] = [
+  { label: 'All' },
+  { label: 'Text', value: 'TEXT' },
+  { label: 'Photos', value: 'IMAGE' },
+  { label: 'Videos', value: 'VIDEO' },
+];
+
+const DATE_FILTERS: { label: string; days?: number }[] = [
+  { label: 'Any time' },
+  { label: 'Past week', days: 7 },
+  { label: 'Past month', days: 30 },
+  { label: 'Past year', days: 365 },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Start the snippet shortly before the first match so it is visible in one line
+const buildSnippet = (content: string, term: string) => {
+  const index = content.toLowerCase().indexOf(term.toLowerCase());
+  if (index <= SNIPPET_CONTEXT) return content;
+  return `…${content.slice(index - SNIPPET_CONTEXT)}`;
+};
+
+// Split text into alternating plain/matching parts
+const splitMatches = (text: string, term: string): { text: string; match: boolean }[] =>
+  text
+    .split(new RegExp(`(${escapeRegExp(term)})`, 'gi'))
+    .filter(part => part.length > 0)
+    .map(part => ({ text: part, match: part.toLowerCase() === term.toLowerCase() }));
+
+const SearchScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const route = useRoute<RouteProp<{ Search: SearchRouteParams }, 'Search'>>();
+  const { user } = useAuth();
+  const { theme } = useTheme();
+
+  const [scope, setScope] = useState<User | null>(route.params?.partner ?? null);
+  const [query, setQuery] = useState('');
+  const [sender, setSender] = useState<SenderFilter>('anyone');
+  const [typeFilter, setTypeFilter] = useState(TYPE_FILTERS[0]);
+  const [dateFilter, setDateFilter] = useState(DATE_FILTERS[0]);
+  const [results, setResults] = useState<Message[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Only the latest search may update the results
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    const timeout = setTimeout(runSearch, SEARCH_DEBOUNCE);
+    return () => clearTimeout(timeout);
+  }, [query, sender, typeFilter, dateFilter, scope?.id]);
+
+  // Messages are end-to-end encrypted, so only the copies on this device can be searched
+  const runSearch = async () => {
+    const searchId = ++searchIdRef.current;
+    const term = query.trim();
+    if (!term || !user) {
+      setResults([]);
+      setSearching(false);
+      return;
+    }
+
+    const filters: SearchFilters = {
+      conversationId: scope?.id,
+      sender: sender === 'anyone' ? undefined : sender,
+      type: typeFilter.value,
+      after: dateFilter.days ? new Date(Date.now() - dateFilter.days * DAY_MS).toISOString() : undefined,
+    };
+
+    setSearching(true);
+    const found = await messageStore.search(term, filters);
+    if (searchId !== searchIdRef.current) return;
+    setResults(found);
+    setSearching(false);
+  };
+
+  const openResult = (message: Message) => {
+    const partner = message.senderId === user?.id ? message.recipient : message.sender;
+    const params = { partner, focusMessage: { id: message.id, createdAt: message.createdAt } };
+
+    // Searching within a chat returns to it; otherwise open the conversation on top
+    if (route.params?.partner?.id === partner.id) {
+      navigation.navigate('Chat', params);
+    } else {
+      navigation.push('Chat', params);
+    }
+  };
+
+  const formatDate = (timestamp: string) =>
+    new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+  const renderChip = (label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={label}
+      style={[
+        styles.chip,
+        { borderColor: selected ? theme.colors.stardustPink : theme.colors.border },
+        selected && { backgroundColor: 'rgba(255, 105, 180, 0.2)' },
+      ]}
+      onPress={onPress}
+    >
+      <Text style={[styles.chipText, { color: selected ? theme.colors.etherealWhite : theme.colors.moonlightSilver }]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const renderResult = ({ item }: { item: Message }) => {
+    const isMine = item.senderId === user?.id;
+    const partner = isMine ? item.recipient : item.sender;
+    const term = query.trim();
+
+    return (
+      <TouchableOpacity
+        style={[styles.result, { borderBottomColor: theme.colors.border }]}
+        onPress={() => openResult(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.resultHeader}>
+          <Text style={[styles.resultName, { color: theme.colors.etherealWhite }]} numberOfLines={1}>
+            {partner.fullName || partner.email}
+          </Text>
+          <Text style={[styles.resultDate, { color: theme.colors.textSecondary }]}>
+            {formatDate(item.createdAt)}
+          </Text>
+        </View>
+        <Text style={[styles.resultSnippet, { color: theme.colors.moonlightSilver }]} numberOfLines={2}>
+          {isMine ? 'You: ' : ''}
+          {splitMatches(buildSnippet(item.content, term), term).map((part, index) => (
+            <Text
+              key={index}
+              style={part.match ? [styles.highlight, { color: theme.colors.cosmicGold }] : undefined}
+            >
+              {part.text}
+            </Text>
+          ))}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <TextInput
+          style={[styles.searchInput, { color: theme.colors.etherealWhite, borderColor: theme.colors.border }]}
+          placeholder={scope ? `Search ${scope.fullName || 'this chat'}...` : 'Search all messages...'}
+          placeholderTextColor={theme.colors.textSecondary}
+          value={query}
+          onChangeText={setQuery}
+          autoFocus
+          returnKeyType="search"
+          clearButtonMode="while-editing"
+        />
+      </View>
+
+      {/* Filters */}
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        style={styles.filters}
+        contentContainerStyle={styles.filtersContent}
+      >
+        {scope && renderChip(`In ${scope.fullName || 'this chat'} ✕`, true, () => setScope(null))}
+        {renderChip('Anyone', sender === 'anyone', () => setSender('anyone'))}
+        {renderChip('From me', sender === 'me', () => setSender('me'))}
+        {renderChip(scope ? `From ${scope.fullName || 'them'}` : 'From others', sender === 'partner', () => setSender('partner'))}
+        <View style={[styles.filterDivider, { backgroundColor: theme.colors.border }]} />
+        {TYPE_FILTERS.map(filter => renderChip(filter.label, typeFilter === filter, () => setTypeFilter(filter)))}
+        <View style={[styles.filterDivider, { backgroundColor: theme.colors.border }]} />
+        {DATE_FILTERS.map(filter => renderChip(filter.label, dateFilter === filter, () => setDateFilter(filter)))}
+      </ScrollView>
+
+      {query.trim() !== '' && (
+        <Text style={[styles.notice, { color: theme.colors.textSecondary }]}>
+          🔐 Searching messages saved on this device
+        </Text>
+      )}
+
+      <FlatList
+        data={results}
+        renderItem={renderResult}
+        keyExtractor={(item) => item.id}
+        contentContainerStyle={styles.listContent}
+        keyboardShouldPersistTaps="handled"
+        ListHeaderComponent={searching && results.length === 0 ? (
+          <ActivityIndicator style={styles.loader} size="small" color={theme.colors.stardustPink} />
+        ) : null}
+        ListEmptyComponent={!searching ? (
+          <Text style={[styles.emptyText, { color: theme.colors.moonlightSilver }]}>
+            {query.trim() ? 'No messages found' : 'Search your love letters 💫'}
+          </Text>
+        ) : null}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  searchInput: {
+    flex: 1,
+    borderWidth: 1,
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 10,
+    fontSize: 16,
+    backgroundColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  filters: {
+    flexGrow: 0,
+    borderBottomWidth: 1,
+    borderBottomColor: 'rgba(255, 255, 255, 0.1)',
+  },
+  filtersContent: {
+    paddingHorizontal: 16,
+    paddingBottom: 12,
+    alignItems: 'center',
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    borderWidth: 1,
+    marginRight: 8,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+  },
+  filterDivider: {
+    width: 1,
+    height: 20,
+    marginRight: 8,
+  },
+  notice: {
+    fontSize: 12,
+    textAlign: 'center',
+    paddingVertical: 6,
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 32,
+  },
+  loader: {
+    marginVertical: 16,
+  },
+  result: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  resultHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  resultName: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: 'bold',
+    marginRight: 8,
+  },
+  resultDate: {
+    fontSize: 12,
+  },
+  resultSnippet: {
+    fontSize: 14,
+    lineHeight: 20,
+  },
+  highlight: {
+    fontWeight: 'bold',
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    fontSize: 16,
+  },
+});
+
+export default SearchScreen;
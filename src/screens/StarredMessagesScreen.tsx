@@ -0,0 +1,180 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  FlatList,
+  StatusBar,
+} from 'react-native';
+import { LinearGradient } from 'expo-linear-gradient';
+import { useNavigation } from '@react-navigation/native';
+import { useAuth } from '../context/AuthContext';
+import { useTheme } from '../context/ThemeContext';
+import starredStore, { StarredMessage } from '../services/starredStore';
+import { messagePreviewText } from '../services/messagePreview';
+
+const formatDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString([], { month: 'short', day: 'numeric', year: 'numeric' });
+
+const StarredMessagesScreen: React.FC = () => {
+  const navigation = useNavigation<any>();
+  const { user } = useAuth();
+  const { theme } = useTheme();
+
+  const [starred, setStarred] = useState<StarredMessage[]>(starredStore.getAll());
+
+  useEffect(() => {
+    starredStore.on(setStarred);
+    return () => starredStore.off(setStarred);
+  }, []);
+
+  const openMessage = ({ message }: StarredMessage) => {
+    const partner = message.senderId === user?.id ? message.recipient : message.sender;
+    navigation.push('Chat', { partner, focusMessage: { id: message.id, createdAt: message.createdAt } });
+  };
+
+  const renderItem = ({ item }: { item: StarredMessage }) => {
+    const { message } = item;
+    const isMine = message.senderId === user?.id;
+    const partner = isMine ? message.recipient : message.sender;
+
+    return (
+      <TouchableOpacity
+        style={[styles.item, { borderBottomColor: theme.colors.border }]}
+        onPress={() => openMessage(item)}
+        activeOpacity={0.7}
+      >
+        <View style={styles.itemHeader}>
+          <Text style={[styles.name, { color: theme.colors.etherealWhite }]} numberOfLines={1}>
+            {isMine ? `You → ${partner.fullName || partner.email}` : partner.fullName || partner.email}
+          </Text>
+          <Text style={[styles.date, { color: theme.colors.textSecondary }]}>
+            {formatDate(message.createdAt)}
+          </Text>
+        </View>
+        <View style={styles.itemBody}>
+          <Text style={[styles.preview, { color: theme.colors.moonlightSilver }]} numberOfLines={3}>
+            {messagePreviewText(message)}
+          </Text>
+          <TouchableOpacity onPress={() => starredStore.unstar(message.id)} style={styles.unstarButton}>
+            <Text style={[styles.unstarIcon, { color: theme.colors.cosmicGold }]}>★</Text>
+          </TouchableOpacity>
+        </View>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <StatusBar barStyle="light-content" backgroundColor="transparent" translucent />
+
+      {/* Cosmic Background */}
+      <LinearGradient
+        colors={theme.colors.gradients.cosmic}
+        style={styles.background}
+        start={{ x: 0, y: 0 }}
+        end={{ x: 1, y: 1 }}
+      />
+
+      {/* Header */}
+      <View style={styles.header}>
+        <TouchableOpacity onPress={() => navigation.goBack()} style={styles.backButton}>
+          <Text style={[styles.backText, { color: theme.colors.etherealWhite }]}>← Back</Text>
+        </TouchableOpacity>
+        <Text style={[styles.headerTitle, { color: theme.colors.etherealWhite }]}>Starred ⭐</Text>
+      </View>
+
+      <FlatList
+        data={starred}
+        renderItem={renderItem}
+        keyExtractor={(item) => item.message.id}
+        contentContainerStyle={styles.listContent}
+        ListEmptyComponent={
+          <Text style={[styles.emptyText, { color: theme.colors.moonlightSilver }]}>
+            No starred messages yet ✨{'\n'}Long-press a message and tap Star to keep it here.
+          </Text>
+        }
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  background: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    top: 0,
+    bottom: 0,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingTop: StatusBar.currentHeight || 44,
+    paddingBottom: 12,
+  },
+  backButton: {
+    padding: 8,
+    marginRight: 8,
+  },
+  backText: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  headerTitle: {
+    flex: 1,
+    fontSize: 18,
+    fontWeight: 'bold',
+  },
+  listContent: {
+    paddingHorizontal: 20,
+    paddingBottom: 40,
+  },
+  item: {
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+  },
+  itemHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 4,
+  },
+  name: {
+    flex: 1,
+    fontSize: 15,
+    fontWeight: '600',
+    marginRight: 12,
+  },
+  date: {
+    fontSize: 12,
+  },
+  itemBody: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+  },
+  preview: {
+    flex: 1,
+    fontSize: 15,
+    lineHeight: 21,
+  },
+  unstarButton: {
+    paddingLeft: 12,
+  },
+  unstarIcon: {
+    fontSize: 20,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 40,
+    fontSize: 16,
+    lineHeight: 24,
+  },
+});
+
+export default StarredMessagesScreen;
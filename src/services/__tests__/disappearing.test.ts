@@ -0,0 +1,42 @@
+import { formatTimeLeft, isExpired, timerLabel } from '../disappearing';
+
+jest.mock('../api', () => ({}));
+jest.mock('../websocket', () => ({}));
+
+describe('isExpired', () => {
+  const now = new Date('2024-03-15T09:00:00.000Z').getTime();
+
+  it('never expires messages without an expiry', () => {
+    expect(isExpired({ expiresAt: null }, now)).toBe(false);
+    expect(isExpired({}, now)).toBe(false);
+  });
+
+  it('expires messages once their time is up', () => {
+    expect(isExpired({ expiresAt: '2024-03-15T09:00:01.000Z' }, now)).toBe(false);
+    expect(isExpired({ expiresAt: '2024-03-15T09:00:00.000Z' }, now)).toBe(true);
+    expect(isExpired({ expiresAt: '2024-03-15T08:59:59.000Z' }, now)).toBe(true);
+  });
+});
+
+describe('formatTimeLeft', () => {
+  const now = new Date('2024-03-15T09:00:00.000Z').getTime();
+  const inSeconds = (seconds: number) => new Date(now + seconds * 1000).toISOString();
+
+  it('rounds up to the largest whole unit', () => {
+    expect(formatTimeLeft(inSeconds(45), now)).toBe('45s');
+    expect(formatTimeLeft(inSeconds(61), now)).toBe('2m');
+    expect(formatTimeLeft(inSeconds(5 * 3600), now)).toBe('5h');
+    expect(formatTimeLeft(inSeconds(3 * 86400), now)).toBe('3d');
+  });
+
+  it('stops at zero', () => {
+    expect(formatTimeLeft(inSeconds(-10), now)).toBe('0s');
+  });
+});
+
+describe('timerLabel', () => {
+  it('names the preset timers and falls back to minutes', () => {
+    expect(timerLabel(7 * 24 * 60 * 60)).toBe('1 week');
+    expect(timerLabel(90 * 60)).toBe('90 minutes');
+  });
+});
@@ -0,0 +1,74 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import encryptionService, { EncryptionUnavailableError } from '../encryption';
+import apiService from '../api';
+import { generateKeyPair } from '../messageCrypto';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('expo-secure-store', () => {
+  const store = new Map<string, string>();
+  return {
+    getItemAsync: jest.fn(async (key: string) => store.get(key) ?? null),
+    setItemAsync: jest.fn(async (key: string, value: string) => { store.set(key, value); }),
+  };
+});
+jest.mock('expo-crypto', () => ({
+  randomUUID: () => require('crypto').randomUUID(),
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: { publishDeviceKey: jest.fn(), getDeviceKeys: jest.fn() },
+}));
+
+const getDeviceKeys = apiService.getDeviceKeys as jest.Mock;
+
+// Device keys the server lists per user
+let listed: Record<string, string[]> = {};
+
+// Device keys an envelope was sealed for
+const recipientsOf = (envelope: string): string[] =>
+  Object.keys(JSON.parse(envelope.slice(envelope.indexOf(':') + 1)).boxes);
+
+const partner = generateKeyPair();
+const ownPhone = generateKeyPair();
+const rogue = generateKeyPair();
+
+beforeEach(async () => {
+  listed = {};
+  getDeviceKeys.mockReset();
+  getDeviceKeys.mockImplementation(async (userId: string) =>
+    (listed[userId] ?? []).map((publicKey, index) => ({ deviceId: `${userId}-${index}`, publicKey }))
+  );
+  encryptionService.reset();
+  await AsyncStorage.clear();
+  await encryptionService.init('me');
+});
+
+describe('encryptFor', () => {
+  it('refuses to send when the partner has no key', async () => {
+    await expect(encryptionService.encryptFor('partner', 'hello')).rejects.toBeInstanceOf(EncryptionUnavailableError);
+  });
+
+  it('encrypts to the partner and to our own devices', async () => {
+    listed = { partner: [partner.publicKey], me: [ownPhone.publicKey] };
+
+    const recipients = recipientsOf(await encryptionService.encryptFor('partner', 'hello'));
+    expect(recipients).toEqual(expect.arrayContaining([partner.publicKey, ownPhone.publicKey]));
+  });
+
+  it('does not encrypt to a device added to our account until we trust it', async () => {
+    listed = { partner: [partner.publicKey], me: [ownPhone.publicKey] };
+    await encryptionService.encryptFor('partner', 'hello');
+
+    listed.me = [ownPhone.publicKey, rogue.publicKey];
+    await encryptionService.getSafetyNumber('partner');
+    expect(encryptionService.getOwnContact()?.changed).toBe(true);
+    expect(recipientsOf(await encryptionService.encryptFor('partner', 'hello'))).not.toContain(rogue.publicKey);
+
+    await encryptionService.trustOwnKeys();
+    expect(encryptionService.getOwnContact()?.changed).toBe(false);
+    expect(recipientsOf(await encryptionService.encryptFor('partner', 'hello'))).toContain(rogue.publicKey);
+  });
+});
@@ -0,0 +1,41 @@
+import { firstLink, splitLinks } from '../links';
+
+describe('splitLinks', () => {
+  it('returns plain text as a single part', () => {
+    expect(splitLinks('see you at eight')).toEqual([{ text: 'see you at eight' }]);
+  });
+
+  it('splits links out of the surrounding text', () => {
+    expect(splitLinks('look https://example.com/a?b=1 now')).toEqual([
+      { text: 'look ' },
+      { text: 'https://example.com/a?b=1', url: 'https://example.com/a?b=1' },
+      { text: ' now' },
+    ]);
+  });
+
+  it('leaves trailing punctuation out of the link', () => {
+    expect(splitLinks('(https://example.com).')).toEqual([
+      { text: '(' },
+      { text: 'https://example.com', url: 'https://example.com' },
+      { text: ').' },
+    ]);
+  });
+
+  it('makes www links absolute', () => {
+    expect(splitLinks('www.example.com')).toEqual([
+      { text: 'www.example.com', url: 'https://www.example.com' },
+    ]);
+  });
+
+  it('finds every link in the text', () => {
+    const parts = splitLinks('http://a.com and http://b.com');
+    expect(parts.filter(part => part.url).map(part => part.url)).toEqual(['http://a.com', 'http://b.com']);
+  });
+});
+
+describe('firstLink', () => {
+  it('picks the first link, if any', () => {
+    expect(firstLink('one www.a.com two http://b.com')).toBe('https://www.a.com');
+    expect(firstLink('no links here')).toBeNull();
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  UNDECRYPTABLE_CONTENT,
+  UNVERIFIED_CONTENT,
+  decryptContent,
+  decryptMessage,
+  encryptContent,
+  generateKeyPair,
+  setIdentity,
+  setTrustedKeys,
+} from '../messageCrypto';
+
+jest.mock('expo-crypto', () => ({
+  getRandomBytes: (length: number) => new Uint8Array(require('crypto').randomBytes(length)),
+}));
+
+// Seal `content` on the sender's device for the given recipient keys
+const sealAs = (senderId: string, sender: ReturnType<typeof generateKeyPair>, content: string, recipients: string[]) => {
+  setIdentity(senderId, sender);
+  return encryptContent(content, recipients);
+};
+
+describe('decryptContent', () => {
+  const alice = generateKeyPair();
+  const alicePhone = generateKeyPair();
+  const bob = generateKeyPair();
+  const mallory = generateKeyPair();
+
+  // Read as Bob, trusting the given keys for Alice
+  const readAsBob = (envelope: string, aliceKeys: string[]) => {
+    setIdentity('bob', bob);
+    setTrustedKeys('alice', aliceKeys);
+    return decryptContent(envelope, 'alice');
+  };
+
+  it('passes plaintext through', () => {
+    setIdentity('bob', bob);
+    expect(decryptContent('hello', 'alice')).toBe('hello');
+  });
+
+  it('opens messages sealed with a trusted key of the sender', () => {
+    const envelope = sealAs('alice', alice, 'hello 💖', [bob.publicKey, alice.publicKey]);
+    expect(readAsBob(envelope, [alice.publicKey, alicePhone.publicKey])).toBe('hello 💖');
+  });
+
+  it('hides messages sealed with a key not trusted for the sender', () => {
+    const envelope = sealAs('alice', mallory, 'trust me', [bob.publicKey]);
+    expect(readAsBob(envelope, [alice.publicKey])).toBe(UNVERIFIED_CONTENT);
+  });
+
+  it('hides messages when nothing is trusted for the sender yet', () => {
+    const envelope = sealAs('alice', alice, 'hello', [bob.publicKey]);
+    setIdentity('bob', bob);
+    expect(decryptContent(envelope, 'alice')).toBe(UNVERIFIED_CONTENT);
+  });
+
+  it('rejects an envelope that names a trusted key it was not sealed with', () => {
+    const forged = sealAs('alice', mallory, 'forged', [bob.publicKey])
+      .replace(mallory.publicKey, alice.publicKey);
+    expect(readAsBob(forged, [alice.publicKey])).toBe(UNDECRYPTABLE_CONTENT);
+  });
+
+  it('cannot open messages sealed for other devices', () => {
+    const envelope = sealAs('alice', alice, 'not for you', [alicePhone.publicKey]);
+    expect(readAsBob(envelope, [alice.publicKey])).toBe(UNDECRYPTABLE_CONTENT);
+  });
+
+  it('cannot open anything without an identity', () => {
+    const envelope = sealAs('alice', alice, 'hello', [bob.publicKey]);
+    setIdentity(null, null);
+    expect(decryptContent(envelope, 'alice')).toBe(UNDECRYPTABLE_CONTENT);
+  });
+});
+
+describe('decryptMessage', () => {
+  const alice = generateKeyPair();
+  const bob = generateKeyPair();
+
+  it('keeps the envelope of a hidden message and reopens it once the key is trusted', () => {
+    const envelope = sealAs('alice', alice, 'hello', [bob.publicKey]);
+    setIdentity('bob', bob);
+
+    const hidden = decryptMessage({ content: envelope, senderId: 'alice' });
+    expect(hidden).toEqual({ content: UNVERIFIED_CONTENT, senderId: 'alice', sealedContent: envelope });
+
+    setTrustedKeys('alice', [alice.publicKey]);
+    expect(decryptMessage(hidden)).toEqual({ content: 'hello', senderId: 'alice', sealedContent: null });
+  });
+});
@@ -0,0 +1,48 @@
+import { GROUP_WINDOW_MS, layoutMessages } from '../messageTimeline';
+
+const at = (time: string) => new Date(time).toISOString();
+
+const message = (id: string, senderId: string, createdAt: string) => ({ id, senderId, createdAt });
+
+describe('layoutMessages', () => {
+  const now = new Date('2024-03-15T12:00:00');
+
+  it('labels the first message of each day', () => {
+    const layout = layoutMessages([
+      message('a', 'me', at('2024-03-14T09:00:00')),
+      message('b', 'me', at('2024-03-14T20:00:00')),
+      message('c', 'me', at('2024-03-15T08:00:00')),
+    ], now);
+
+    expect(layout.get('a')?.dayLabel).toBe('Yesterday');
+    expect(layout.get('b')?.dayLabel).toBeNull();
+    expect(layout.get('c')?.dayLabel).toBe('Today');
+  });
+
+  it('groups consecutive messages from one sender within the window', () => {
+    const layout = layoutMessages([
+      message('a', 'me', at('2024-03-15T09:00:00')),
+      message('b', 'me', at('2024-03-15T09:02:00')),
+      message('c', 'partner', at('2024-03-15T09:03:00')),
+    ], now);
+
+    expect(layout.get('a')).toEqual({ dayLabel: 'Today', groupedWithPrevious: false, groupedWithNext: true });
+    expect(layout.get('b')).toEqual({ dayLabel: null, groupedWithPrevious: true, groupedWithNext: false });
+    expect(layout.get('c')?.groupedWithPrevious).toBe(false);
+  });
+
+  it('starts a new group after the window or a new day', () => {
+    const first = new Date('2024-03-14T23:50:00').getTime();
+    const layout = layoutMessages([
+      message('a', 'me', at('2024-03-14T23:50:00')),
+      message('b', 'me', new Date(first + GROUP_WINDOW_MS + 1).toISOString()),
+      message('c', 'me', at('2024-03-14T23:59:00')),
+      message('d', 'me', at('2024-03-15T00:01:00')),
+    ], now);
+
+    expect(layout.get('b')?.groupedWithPrevious).toBe(false);
+    expect(layout.get('c')?.groupedWithPrevious).toBe(true);
+    expect(layout.get('c')?.groupedWithNext).toBe(false);
+    expect(layout.get('d')).toEqual({ dayLabel: 'Today', groupedWithPrevious: false, groupedWithNext: false });
+  });
+});
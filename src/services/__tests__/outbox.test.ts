@@ -0,0 +1,183 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import outboxService, { OutboxDeliveredEvent } from '../outbox';
+import websocketService, { viaSocketOrApi } from '../websocket';
+import { Message } from '../schemas';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../api', () => ({ __esModule: true, default: {} }));
+jest.mock('../websocket', () => ({
+  __esModule: true,
+  default: { on: jest.fn(), off: jest.fn(), connected: true },
+  viaSocketOrApi: jest.fn(),
+}));
+jest.mock('../encryption', () => ({
+  __esModule: true,
+  default: { encryptFor: jest.fn(async (_recipientId: string, content: string) => content) },
+  EncryptionUnavailableError: class EncryptionUnavailableError extends Error {},
+}));
+
+const send = viaSocketOrApi as jest.Mock;
+const socket = websocketService as unknown as { connected: boolean; on: jest.Mock };
+
+// Simulates the socket coming back, as the 'connected' event does
+const reconnect = () => {
+  socket.connected = true;
+  socket.on.mock.calls
+    .filter(([event]) => event === 'connected')
+    .forEach(([, listener]) => listener());
+};
+
+const serverMessage = (fields: Partial<Message>) =>
+  ({ id: 's1', senderId: 'me', recipientId: 'partner', content: 'hi', ...fields }) as Message;
+
+beforeEach(async () => {
+  jest.useFakeTimers();
+  send.mockReset();
+  socket.on.mockClear();
+  socket.connected = true;
+  outboxService.reset();
+  await AsyncStorage.clear();
+  await outboxService.init('me');
+});
+
+afterEach(() => {
+  outboxService.reset();
+  jest.useRealTimers();
+});
+
+describe('outbox retries', () => {
+  it('backs off exponentially and gives up after five attempts', async () => {
+    send.mockRejectedValue(new Error('offline'));
+    await outboxService.enqueue('partner', 'hi');
+    await jest.advanceTimersByTimeAsync(0);
+
+    const [item] = outboxService.getItems();
+    expect(item.attempts).toBe(1);
+
+    for (const [delay, attempts] of [[2000, 2], [4000, 3], [8000, 4], [16000, 5]]) {
+      await jest.advanceTimersByTimeAsync(delay - 1);
+      expect(item.attempts).toBe(attempts - 1);
+      await jest.advanceTimersByTimeAsync(1);
+      expect(item.attempts).toBe(attempts);
+    }
+
+    expect(item.status).toBe('failed');
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(item.attempts).toBe(5);
+    expect(send).toHaveBeenCalledTimes(5);
+  });
+
+  it('starts over when a failed message is retried', async () => {
+    send.mockRejectedValue(new Error('offline'));
+    await outboxService.enqueue('partner', 'hi');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const [item] = outboxService.getItems();
+    expect(item.status).toBe('failed');
+
+    send.mockResolvedValue(serverMessage({ clientId: item.clientId }));
+    await outboxService.retry(item.clientId);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outboxService.getItems()).toEqual([]);
+  });
+
+  it('does not use up attempts while the socket is offline', async () => {
+    socket.connected = false;
+    send.mockRejectedValue(new Error('Network Error'));
+    await outboxService.enqueue('partner', 'hi');
+    await jest.advanceTimersByTimeAsync(10 * 60000);
+
+    const [item] = outboxService.getItems();
+    expect(item.status).toBe('pending');
+    expect(item.attempts).toBe(0);
+
+    send.mockResolvedValue(serverMessage({ clientId: item.clientId }));
+    reconnect();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outboxService.getItems()).toEqual([]);
+  });
+
+  it('requeues failed messages when the socket reconnects', async () => {
+    send.mockRejectedValue(new Error('Server error'));
+    await outboxService.enqueue('partner', 'hi');
+    await jest.advanceTimersByTimeAsync(60000);
+
+    const [item] = outboxService.getItems();
+    expect(item.status).toBe('failed');
+
+    send.mockResolvedValue(serverMessage({ clientId: item.clientId }));
+    reconnect();
+    await jest.advanceTimersByTimeAsync(0);
+    expect(outboxService.getItems()).toEqual([]);
+  });
+
+  it('requeues failed messages when the app restarts', async () => {
+    send.mockRejectedValue(new Error('Server error'));
+    await outboxService.enqueue('partner', 'hi');
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(outboxService.getItems()[0].status).toBe('failed');
+
+    send.mockReturnValue(new Promise(() => {}));
+    outboxService.reset();
+    await outboxService.init('me');
+
+    const [item] = outboxService.getItems();
+    expect(item.status).toBe('pending');
+    expect(item.attempts).toBe(1);
+  });
+});
+
+describe('outbox acknowledge', () => {
+  // Keep items pending; delivery is confirmed by the server's echo instead
+  beforeEach(() => send.mockReturnValue(new Promise(() => {})));
+
+  it('delivers an item once when its echo arrives', async () => {
+    const delivered = jest.fn();
+    outboxService.on('delivered', delivered);
+    const item = await outboxService.enqueue('partner', 'hi');
+    const echo = serverMessage({ clientId: item.clientId });
+
+    expect(outboxService.acknowledge(echo)).toBe(true);
+    expect(outboxService.acknowledge(echo)).toBe(false);
+    expect(outboxService.getItems()).toEqual([]);
+    expect(delivered).toHaveBeenCalledTimes(1);
+    expect(delivered).toHaveBeenCalledWith<[OutboxDeliveredEvent]>({ clientId: item.clientId, message: echo });
+    outboxService.off('delivered', delivered);
+  });
+
+  it('does not deliver again when the send resolves after the echo', async () => {
+    let resolveSend: (message: Message) => void = () => {};
+    send.mockReturnValue(new Promise(resolve => { resolveSend = resolve; }));
+    const delivered = jest.fn();
+    outboxService.on('delivered', delivered);
+    const item = await outboxService.enqueue('partner', 'hi');
+    const echo = serverMessage({ clientId: item.clientId });
+
+    outboxService.acknowledge(echo);
+    resolveSend(echo);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(delivered).toHaveBeenCalledTimes(1);
+    outboxService.off('delivered', delivered);
+  });
+
+  it('matches on content when the server does not echo the client id', async () => {
+    const first = await outboxService.enqueue('partner', 'hi');
+    const second = await outboxService.enqueue('partner', 'hi');
+
+    expect(outboxService.acknowledge(serverMessage({ id: 's1' }))).toBe(true);
+    expect(outboxService.getItems().map(item => item.clientId)).toEqual([second.clientId]);
+    expect(outboxService.acknowledge(serverMessage({ id: 's2' }))).toBe(true);
+    expect(outboxService.getItems()).toEqual([]);
+    expect(first.clientId).not.toBe(second.clientId);
+  });
+
+  it('ignores messages that are not ours', async () => {
+    const item = await outboxService.enqueue('partner', 'hi');
+
+    expect(outboxService.acknowledge(serverMessage({ senderId: 'partner', recipientId: 'me' }))).toBe(false);
+    expect(outboxService.acknowledge(serverMessage({ content: 'something else' }))).toBe(false);
+    expect(outboxService.getItems().map(i => i.clientId)).toEqual([item.clientId]);
+  });
+});
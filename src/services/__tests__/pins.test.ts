@@ -0,0 +1,42 @@
+import { applyPin, sortPins } from '../pins';
+import { Message } from '../schemas';
+
+jest.mock('../api', () => ({}));
+jest.mock('../websocket', () => ({}));
+
+const message = (id: string, fields: Partial<Message> = {}) =>
+  ({ id, senderId: 'a', recipientId: 'b', content: id, ...fields }) as Message;
+
+describe('applyPin', () => {
+  const event = { messageId: 'm1', userId: 'b', pinnedAt: '2024-03-15T09:00:00.000Z' };
+
+  it('pins with the event\'s time and user', () => {
+    expect(applyPin(message('m1'), event, true)).toMatchObject({
+      pinnedAt: '2024-03-15T09:00:00.000Z',
+      pinnedBy: 'b',
+    });
+  });
+
+  it('keeps the original pin time when the pin comes back as a broadcast', () => {
+    const pinned = applyPin(message('m1'), event, true);
+    const again = applyPin(pinned, { ...event, pinnedAt: '2024-03-15T09:00:01.000Z' }, true);
+    expect(again.pinnedAt).toBe('2024-03-15T09:00:00.000Z');
+  });
+
+  it('unpins', () => {
+    const pinned = applyPin(message('m1'), event, true);
+    expect(applyPin(pinned, event, false)).toMatchObject({ pinnedAt: null, pinnedBy: null });
+  });
+});
+
+describe('sortPins', () => {
+  it('puts the latest pin first and drops unpinned and deleted messages', () => {
+    const pins = sortPins([
+      message('old', { pinnedAt: '2024-03-01T00:00:00.000Z' }),
+      message('unpinned'),
+      message('new', { pinnedAt: '2024-03-10T00:00:00.000Z' }),
+      message('deleted', { pinnedAt: '2024-03-12T00:00:00.000Z', deletedAt: '2024-03-13T00:00:00.000Z' }),
+    ]);
+    expect(pins.map(pin => pin.id)).toEqual(['new', 'old']);
+  });
+});
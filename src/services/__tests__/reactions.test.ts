@@ -0,0 +1,46 @@
+import { applyReaction, summarizeReactions } from '../reactions';
+import { Message } from '../schemas';
+
+jest.mock('../api', () => ({}));
+jest.mock('../websocket', () => ({}));
+
+const message = { id: 'm1', senderId: 'a', recipientId: 'b', content: 'hi', reactions: [] } as unknown as Message;
+
+const event = (userId: string, emoji: string) => ({
+  messageId: 'm1',
+  userId,
+  emoji,
+  createdAt: '2024-03-15T09:00:00.000Z',
+});
+
+describe('applyReaction', () => {
+  it('adds a reaction', () => {
+    const reacted = applyReaction(message, event('a', '💖'), true);
+    expect(reacted.reactions).toEqual([{ emoji: '💖', userId: 'a', createdAt: '2024-03-15T09:00:00.000Z' }]);
+    expect(message.reactions).toEqual([]);
+  });
+
+  it('applies the same reaction only once', () => {
+    const once = applyReaction(message, event('a', '💖'), true);
+    const twice = applyReaction(once, event('a', '💖'), true);
+    expect(twice.reactions).toHaveLength(1);
+  });
+
+  it('removes only the reacting user\'s emoji', () => {
+    let reacted = applyReaction(message, event('a', '💖'), true);
+    reacted = applyReaction(reacted, event('b', '💖'), true);
+    reacted = applyReaction(reacted, event('a', '😂'), true);
+
+    const removed = applyReaction(reacted, event('a', '💖'), false);
+    expect(removed.reactions?.map(r => `${r.userId}${r.emoji}`)).toEqual(['b💖', 'a😂']);
+    expect(applyReaction(removed, event('a', '💖'), false).reactions).toEqual(removed.reactions);
+  });
+
+  it('counts reactions by emoji', () => {
+    let reacted = applyReaction(message, event('a', '💖'), true);
+    reacted = applyReaction(reacted, event('b', '💖'), true);
+    expect(summarizeReactions(reacted.reactions, 'b')).toEqual([
+      { emoji: '💖', count: 2, reactedByMe: true },
+    ]);
+  });
+});
@@ -0,0 +1,95 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AxiosError, AxiosResponse } from 'axios';
+import { AppState } from 'react-native';
+import scheduledMessages from '../scheduledMessages';
+import apiService from '../api';
+import outboxService from '../outbox';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+jest.mock('../api', () => ({
+  __esModule: true,
+  default: { scheduleMessage: jest.fn(), getScheduledMessages: jest.fn() },
+}));
+jest.mock('../outbox', () => ({ __esModule: true, default: { enqueue: jest.fn() } }));
+jest.mock('../encryption', () => ({
+  __esModule: true,
+  default: { encryptFor: jest.fn(async (_recipientId: string, content: string) => `sealed:${content}`) },
+  EncryptionUnavailableError: class EncryptionUnavailableError extends Error {},
+}));
+
+const scheduleOnServer = apiService.scheduleMessage as jest.Mock;
+const enqueue = outboxService.enqueue as jest.Mock;
+
+// What axios rejects with when the server has no scheduling endpoint
+const notFound = () =>
+  new AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', undefined, undefined, { status: 404 } as AxiosResponse);
+
+const NOW = new Date('2024-03-15T09:00:00.000Z').getTime();
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: NOW });
+  Object.defineProperty(AppState, 'currentState', { value: 'active', configurable: true });
+  scheduleOnServer.mockReset();
+  enqueue.mockReset();
+  scheduledMessages.reset();
+  await AsyncStorage.clear();
+  await scheduledMessages.init('me');
+});
+
+afterEach(() => {
+  scheduledMessages.reset();
+  jest.useRealTimers();
+});
+
+describe('scheduled messages held on this device', () => {
+  beforeEach(() => scheduleOnServer.mockRejectedValue(notFound()));
+
+  it('hands a message to the outbox when it is due, not before', async () => {
+    const item = await scheduledMessages.schedule('partner', 'good morning', new Date(NOW + 60000));
+    expect(item.local).toBe(true);
+
+    await jest.advanceTimersByTimeAsync(59999);
+    expect(enqueue).not.toHaveBeenCalled();
+    expect(scheduledMessages.getItems('partner')).toHaveLength(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(enqueue).toHaveBeenCalledWith('partner', 'good morning', 'TEXT', { replyToId: undefined });
+    expect(scheduledMessages.getItems('partner')).toEqual([]);
+  });
+
+  it('sends the earliest first and keeps the rest waiting', async () => {
+    await scheduledMessages.schedule('partner', 'later', new Date(NOW + 120000));
+    await scheduledMessages.schedule('partner', 'sooner', new Date(NOW + 60000));
+    expect(scheduledMessages.getItems('partner').map(item => item.content)).toEqual(['sooner', 'later']);
+
+    await jest.advanceTimersByTimeAsync(60000);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+    expect(scheduledMessages.getItems('partner').map(item => item.content)).toEqual(['later']);
+  });
+
+  it('re-arms a long wait instead of overflowing the timer', async () => {
+    const month = 30 * 24 * 60 * 60 * 1000;
+    await scheduledMessages.schedule('partner', 'anniversary', new Date(NOW + month));
+
+    await jest.advanceTimersByTimeAsync(month - 1);
+    expect(enqueue).not.toHaveBeenCalled();
+    await jest.advanceTimersByTimeAsync(1);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('scheduled messages held by the server', () => {
+  it('sends the server only ciphertext and stops listing it once due', async () => {
+    scheduleOnServer.mockImplementation(async request => ({ ...request, id: 's1', createdAt: new Date().toISOString() }));
+    await scheduledMessages.schedule('partner', 'good morning', new Date(NOW + 60000));
+
+    expect(scheduleOnServer).toHaveBeenCalledWith(expect.objectContaining({ content: 'sealed:good morning' }));
+    expect(scheduledMessages.getItems('partner')).toHaveLength(1);
+
+    jest.setSystemTime(NOW + 60000);
+    expect(scheduledMessages.getItems('partner')).toEqual([]);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+});
@@ -1,22 +1,117 @@
-import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
 import * as SecureStore from 'expo-secure-store';
+import { ZodType, ZodError } from 'zod';
 import { ENV } from '../config/env';
+import {
+  AuthResponse,
+  AuthResponseSchema,
+  RefreshTokenResponseSchema,
+  CreateProposalRequest,
+  ConversationSettings,
+  ConversationSettingsSchema,
+  Media,
+  MediaSchema,
+  Message,
+  MessageListSchema,
+  MessageSchema,
+  MessageType,
+  DeleteScope,
+  LinkPreview,
+  LinkPreviewSchema,
+  SendMessageOptions,
+  Photo,
+  PhotoListSchema,
+  PhotoSchema,
+  DeviceKey,
+  DeviceKeySchema,
+  DeviceKeyListSchema,
+  Proposal,
+  ProposalListSchema,
+  ProposalSchema,
+  ScheduleMessageRequest,
+  ScheduledMessage,
+  ScheduledMessageListSchema,
+  ScheduledMessageSchema,
+  UpdateConversationSettingsRequest,
+  UpdateScheduledMessageRequest,
+  UpdateUserRequest,
+  User,
+  UserListSchema,
+  UserSchema,
+  VideoCall,
+  VideoCallListSchema,
+  VideoCallSchema,
+} from './schemas';
+import websocketService from './websocket';
+import { decryptMessage, decryptOwnContent } from './messageCrypto';
+
+// SecureStore keys
+const ACCESS_TOKEN_KEY = 'auth_token';
+const REFRESH_TOKEN_KEY = 'refresh_token';
+
+// A 401 from these means bad credentials, not an expired access token
+const NO_REFRESH_PATHS = ['/auth/login', '/auth/register', '/auth/refresh'];
 
 // Network error types
 interface NetworkError extends Error {
   code?: string;
   response?: {
     status: number;
-    data: any;
+    data?: { message?: string };
   };
-  config?: {
-    url?: string;
-    method?: string;
+  config?: InternalAxiosRequestConfig & {
+    _retry?: boolean;
   };
 }
 
+// Local file handed to a multipart upload
+export interface UploadFile {
+  uri: string;
+  name: string;
+  type: string;
+}
+
+export interface UploadMediaOptions {
+  onProgress?: (progress: number) => void;
+  waveform?: number[];
+}
+
+export interface GetMessagesOptions {
+  // Cursor: only return messages created before this ISO timestamp (older pages)
+  before?: string;
+  // Only return messages created after this ISO timestamp (used to resync after a reconnect)
+  after?: string;
+  // Page size; the server returns the newest `limit` messages matching the cursor
+  limit?: number;
+}
+
+// Thrown when a response does not match the expected contract
+export class ApiContractError extends Error {
+  endpoint: string;
+  issues: ZodError['issues'];
+
+  constructor(endpoint: string, error: ZodError) {
+    super(`Unexpected response from ${endpoint}: ${error.issues
+      .map(issue => `${issue.path.join('.') || '<root>'} ${issue.message}`)
+      .join('; ')}`);
+    this.name = 'ApiContractError';
+    this.endpoint = endpoint;
+    this.issues = error.issues;
+  }
+}
+
+// Thrown when the refresh token is missing or rejected and the user must sign in again
+export class SessionExpiredError extends Error {
+  constructor() {
+    super('Your session has expired. Please sign in again.');
+    this.name = 'SessionExpiredError';
+  }
+}
+
 class ApiService {
   private api: AxiosInstance;
+  private refreshPromise: Promise<string> | null = null;
+  private sessionExpiredListeners = new Set<() => void>();
 
   constructor() {
     this.api = axios.create({
@@ -31,7 +126,7 @@ class ApiService {
     this.api.interceptors.request.use(
       async (config) => {
         try {
-          const token = await SecureStore.getItemAsync('auth_token');
+          const token = await SecureStore.getItemAsync(ACCESS_TOKEN_KEY);
           if (token) {
             config.headers.Authorization = `Bearer ${token}`;
           }
@@ -59,10 +154,22 @@ class ApiService {
           method: error.config?.method,
         });
 
-        if (error.response?.status === 401) {
-          // Token expired or invalid, clear stored token
-          await SecureStore.deleteItemAsync('auth_token');
-          console.log('Auth token cleared due to 401 error');
+        // Access token expired: refresh once and replay the original request
+        const originalRequest = error.config;
+        if (
+          error.response?.status === 401 &&
+          originalRequest &&
+          !originalRequest._retry &&
+          !NO_REFRESH_PATHS.includes(originalRequest.url ?? '')
+        ) {
+          originalRequest._retry = true;
+          try {
+            const token = await this.refreshAccessToken();
+            originalRequest.headers.Authorization = `Bearer ${token}`;
+            return this.api(originalRequest);
+          } catch (refreshError) {
+            return Promise.reject(refreshError);
+          }
         }
 
         // Add more specific error information
@@ -83,34 +190,121 @@ class ApiService {
     );
   }
 
+  // Token management
+  private async storeTokens(accessToken: string, refreshToken?: string) {
+    await SecureStore.setItemAsync(ACCESS_TOKEN_KEY, accessToken);
+    if (refreshToken) {
+      await SecureStore.setItemAsync(REFRESH_TOKEN_KEY, refreshToken);
+    }
+  }
+
+  private async clearTokens() {
+    await SecureStore.deleteItemAsync(ACCESS_TOKEN_KEY);
+    await SecureStore.deleteItemAsync(REFRESH_TOKEN_KEY);
+  }
+
+  /**
+   * Exchange the stored refresh token for a new access token.
+   * Single-flight: concurrent 401s all wait on the same refresh request.
+   */
+  refreshAccessToken(): Promise<string> {
+    if (!this.refreshPromise) {
+      this.refreshPromise = this.performTokenRefresh().finally(() => {
+        this.refreshPromise = null;
+      });
+    }
+    return this.refreshPromise;
+  }
+
+  private async performTokenRefresh(): Promise<string> {
+    const refreshToken = await SecureStore.getItemAsync(REFRESH_TOKEN_KEY);
+    if (!refreshToken) {
+      await this.expireSession();
+      throw new SessionExpiredError();
+    }
+
+    try {
+      console.log('Refreshing access token...');
+      // Bypass this.api so the refresh call never re-enters the 401 interceptor
+      const response = await axios.post(
+        `${ENV.API_BASE_URL}/auth/refresh`,
+        { refresh_token: refreshToken },
+        { timeout: ENV.API_TIMEOUT }
+      );
+      const data = this.parse(RefreshTokenResponseSchema, response.data, 'POST /auth/refresh');
+      await this.storeTokens(data.access_token, data.refresh_token);
+      websocketService.updateAuthToken(data.access_token);
+      console.log('Access token refreshed');
+      return data.access_token;
+    } catch (error) {
+      console.error('Token refresh failed:', error instanceof Error ? error.message : error);
+      // Only a rejected refresh token ends the session; network errors keep it
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status === 401 || status === 403) {
+        await this.expireSession();
+        throw new SessionExpiredError();
+      }
+      throw error;
+    }
+  }
+
+  private async expireSession() {
+    await this.clearTokens();
+    console.log('Session expired, auth tokens cleared');
+    this.sessionExpiredListeners.forEach(listener => {
+      try {
+        listener();
+      } catch (error) {
+        console.error('Error in session expired listener:', error);
+      }
+    });
+  }
+
+  onSessionExpired(listener: () => void) {
+    this.sessionExpiredListeners.add(listener);
+  }
+
+  offSessionExpired(listener: () => void) {
+    this.sessionExpiredListeners.delete(listener);
+  }
+
+  // Validate a response body against its schema
+  private parse<T>(schema: ZodType<T>, data: unknown, endpoint: string): T {
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const error = new ApiContractError(endpoint, result.error);
+      console.error('API contract violation:', error.message);
+      throw error;
+    }
+    return result.data;
+  }
+
   // Auth endpoints
-  async login(email: string, password: string) {
+  async login(email: string, password: string): Promise<AuthResponse> {
     const response = await this.api.post('/auth/login', { email, password });
-    if (response.data.access_token) {
-      await SecureStore.setItemAsync('auth_token', response.data.access_token);
-    }
-    return response.data;
+    const data = this.parse(AuthResponseSchema, response.data, 'POST /auth/login');
+    await this.storeTokens(data.access_token, data.refresh_token);
+    return data;
   }
 
-  async register(email: string, password: string, fullName?: string) {
+  async register(email: string, password: string, fullName?: string): Promise<AuthResponse> {
     const response = await this.api.post('/auth/register', {
       email,
       password,
       fullName
     });
-    if (response.data.access_token) {
-      await SecureStore.setItemAsync('auth_token', response.data.access_token);
-    }
-    return response.data;
+    const data = this.parse(AuthResponseSchema, response.data, 'POST /auth/register');
+    await this.storeTokens(data.access_token, data.refresh_token);
+    return data;
   }
 
-  async getProfile() {
+  async getProfile(): Promise<User> {
     const response = await this.api.get('/auth/profile');
-    return response.data;
+    return this.parse(UserSchema, response.data, 'GET /auth/profile');
   }
 
   async logout() {
-    await SecureStore.deleteItemAsync('auth_token');
+    await this.clearTokens();
   }
 
   // Health check endpoint
@@ -122,17 +316,18 @@ class ApiService {
       return { success: true, status: response.status };
     } catch (error) {
       console.error('Connection test failed:', error);
-      return { success: false, error: error.message };
+      return { success: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
   // User endpoints
-  async getUsers() {
+  async getUsers(): Promise<User[]> {
     try {
       console.log(`Fetching users from: ${ENV.API_BASE_URL}/users`);
       const response = await this.api.get('/users');
-      console.log('Users fetched successfully:', response.data?.length || 0, 'users');
-      return response.data || [];
+      const users = this.parse(UserListSchema, response.data || [], 'GET /users');
+      console.log('Users fetched successfully:', users.length, 'users');
+      return users;
     } catch (error) {
       console.error('Error fetching users:', error);
       // Re-throw the error instead of returning mock data
@@ -140,24 +335,36 @@ class ApiService {
     }
   }
 
-  async getUser(id: string) {
+  async getUser(id: string): Promise<User> {
     const response = await this.api.get(`/users/${id}`);
-    return response.data;
+    return this.parse(UserSchema, response.data, 'GET /users/:id');
   }
 
-  async updateUser(id: string, data: any) {
+  async updateUser(id: string, data: UpdateUserRequest): Promise<User> {
     const response = await this.api.patch(`/users/${id}`, data);
-    return response.data;
+    return this.parse(UserSchema, response.data, 'PATCH /users/:id');
+  }
+
+  // End-to-end encryption keys, one per device
+  async getDeviceKeys(userId: string): Promise<DeviceKey[]> {
+    const response = await this.api.get(`/users/${userId}/devices`);
+    return this.parse(DeviceKeyListSchema, response.data || [], 'GET /users/:id/devices');
+  }
+
+  async publishDeviceKey(deviceId: string, publicKey: string): Promise<DeviceKey> {
+    const response = await this.api.put(`/users/me/devices/${deviceId}`, { publicKey });
+    return this.parse(DeviceKeySchema, response.data, 'PUT /users/me/devices/:deviceId');
   }
 
   // Messages endpoints
-  async getMessages(recipientId?: string) {
+  async getMessages(recipientId?: string, options: GetMessagesOptions = {}): Promise<Message[]> {
     try {
       const url = recipientId ? `/messages?recipientId=${recipientId}` : '/messages';
-      console.log(`Fetching messages from: ${ENV.API_BASE_URL}${url}`);
-      const response = await this.api.get(url);
-      console.log('Messages fetched successfully:', response.data?.length || 0, 'messages');
-      return response.data || [];
+      console.log(`Fetching messages from: ${ENV.API_BASE_URL}${url}`, options);
+      const response = await this.api.get(url, { params: options });
+      const messages = this.parse(MessageListSchema, response.data || [], 'GET /messages').map(decryptMessage);
+      console.log('Messages fetched successfully:', messages.length, 'messages');
+      return messages;
     } catch (error) {
       console.error('Error fetching messages:', error);
       // Re-throw the error instead of returning mock data
@@ -166,72 +373,188 @@ class ApiService {
     }
   }
 
-  async sendMessage(recipientId: string, content: string, type: string = 'TEXT') {
+  async sendMessage(
+    recipientId: string,
+    content: string,
+    type: MessageType = 'TEXT',
+    options: SendMessageOptions = {}
+  ): Promise<Message> {
     const response = await this.api.post('/messages', {
       recipientId,
       content,
       type,
+      ...options,
     });
-    return response.data;
+    return decryptMessage(this.parse(MessageSchema, response.data, 'POST /messages'));
+  }
+
+  async markMessageAsRead(messageId: string): Promise<void> {
+    await this.api.patch(`/messages/${messageId}/read`);
+  }
+
+  async markMessagesRead(partnerId: string, upToMessageId: string): Promise<void> {
+    await this.api.post('/messages/read', { partnerId, upToMessageId });
+  }
+
+  async editMessage(messageId: string, content: string): Promise<Message> {
+    const response = await this.api.patch(`/messages/${messageId}`, { content });
+    return decryptMessage(this.parse(MessageSchema, response.data, 'PATCH /messages/:id'));
+  }
+
+  async deleteMessage(messageId: string, scope: DeleteScope): Promise<void> {
+    await this.api.delete(`/messages/${messageId}`, { params: { scope } });
+  }
+
+  async expireMessage(messageId: string): Promise<void> {
+    await this.api.post(`/messages/${messageId}/expire`);
+  }
+
+  async getPinnedMessages(recipientId: string): Promise<Message[]> {
+    const response = await this.api.get('/messages/pinned', { params: { recipientId } });
+    return this.parse(MessageListSchema, response.data || [], 'GET /messages/pinned').map(decryptMessage);
+  }
+
+  async pinMessage(messageId: string): Promise<Message> {
+    const response = await this.api.post(`/messages/${messageId}/pin`);
+    return decryptMessage(this.parse(MessageSchema, response.data, 'POST /messages/:id/pin'));
+  }
+
+  async unpinMessage(messageId: string): Promise<Message> {
+    const response = await this.api.delete(`/messages/${messageId}/pin`);
+    return decryptMessage(this.parse(MessageSchema, response.data, 'DELETE /messages/:id/pin'));
   }
 
-  async markMessageAsRead(messageId: string) {
-    const response = await this.api.patch(`/messages/${messageId}/read`);
-    return response.data;
+  async addReaction(messageId: string, emoji: string): Promise<Message> {
+    const response = await this.api.post(`/messages/${messageId}/reactions`, { emoji });
+    return decryptMessage(this.parse(MessageSchema, response.data, 'POST /messages/:id/reactions'));
+  }
+
+  async removeReaction(messageId: string, emoji: string): Promise<Message> {
+    const response = await this.api.delete(`/messages/${messageId}/reactions/${encodeURIComponent(emoji)}`);
+    return decryptMessage(this.parse(MessageSchema, response.data, 'DELETE /messages/:id/reactions/:emoji'));
+  }
+
+  // Unfurl a link. A LINK_PREVIEW_URL on another host never gets our credentials
+  async getLinkPreview(url: string): Promise<LinkPreview> {
+    const response = ENV.LINK_PREVIEW_URL
+      ? await axios.get(ENV.LINK_PREVIEW_URL, { params: { url }, timeout: ENV.API_TIMEOUT })
+      : await this.api.get('/link-preview', { params: { url } });
+    return this.parse(LinkPreviewSchema, response.data, 'GET /link-preview');
+  }
+
+  // Conversation settings
+  async getConversationSettings(partnerId: string): Promise<ConversationSettings> {
+    const response = await this.api.get(`/conversations/${partnerId}/settings`);
+    return this.parse(ConversationSettingsSchema, response.data, 'GET /conversations/:partnerId/settings');
+  }
+
+  async updateConversationSettings(
+    partnerId: string,
+    changes: UpdateConversationSettingsRequest
+  ): Promise<ConversationSettings> {
+    const response = await this.api.patch(`/conversations/${partnerId}/settings`, changes);
+    return this.parse(ConversationSettingsSchema, response.data, 'PATCH /conversations/:partnerId/settings');
+  }
+
+  // Scheduled messages
+  async getScheduledMessages(recipientId?: string): Promise<ScheduledMessage[]> {
+    const response = await this.api.get('/messages/scheduled', { params: { recipientId } });
+    return this.parse(ScheduledMessageListSchema, response.data || [], 'GET /messages/scheduled')
+      .map(item => ({ ...item, content: decryptOwnContent(item.content) }));
+  }
+
+  async scheduleMessage(request: ScheduleMessageRequest): Promise<ScheduledMessage> {
+    const response = await this.api.post('/messages/scheduled', request);
+    const scheduled = this.parse(ScheduledMessageSchema, response.data, 'POST /messages/scheduled');
+    return { ...scheduled, content: decryptOwnContent(scheduled.content) };
+  }
+
+  async updateScheduledMessage(id: string, changes: UpdateScheduledMessageRequest): Promise<ScheduledMessage> {
+    const response = await this.api.patch(`/messages/scheduled/${id}`, changes);
+    const scheduled = this.parse(ScheduledMessageSchema, response.data, 'PATCH /messages/scheduled/:id');
+    return { ...scheduled, content: decryptOwnContent(scheduled.content) };
+  }
+
+  async cancelScheduledMessage(id: string): Promise<void> {
+    await this.api.delete(`/messages/scheduled/${id}`);
+  }
+
+  // Media endpoints
+  async uploadMedia(file: UploadFile, options: UploadMediaOptions = {}): Promise<Media> {
+    const { onProgress, waveform } = options;
+    const formData = new FormData();
+    // React Native's FormData accepts file descriptors in place of Blobs
+    formData.append('file', file as unknown as Blob);
+    if (waveform) {
+      formData.append('waveform', JSON.stringify(waveform));
+    }
+
+    const response = await this.api.post('/media', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      // Uploads can take far longer than a regular request
+      timeout: 0,
+      onUploadProgress: (event) => {
+        if (onProgress && event.total) {
+          onProgress(event.loaded / event.total);
+        }
+      },
+    });
+    return this.parse(MediaSchema, response.data, 'POST /media');
   }
 
   // Photos endpoints
-  async getPhotos() {
+  async getPhotos(): Promise<Photo[]> {
     const response = await this.api.get('/photos');
-    return response.data;
+    return this.parse(PhotoListSchema, response.data, 'GET /photos');
   }
 
-  async uploadPhoto(formData: FormData) {
+  async uploadPhoto(formData: FormData): Promise<Photo> {
     const response = await this.api.post('/photos', formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return this.parse(PhotoSchema, response.data, 'POST /photos');
   }
 
-  async deletePhoto(photoId: string) {
-    const response = await this.api.delete(`/photos/${photoId}`);
-    return response.data;
+  async deletePhoto(photoId: string): Promise<void> {
+    await this.api.delete(`/photos/${photoId}`);
   }
 
   // Video calls endpoints
-  async getVideoCalls() {
+  async getVideoCalls(): Promise<VideoCall[]> {
     const response = await this.api.get('/video-calls');
-    return response.data;
+    return this.parse(VideoCallListSchema, response.data, 'GET /video-calls');
   }
 
-  async initiateCall(calleeId: string) {
+  async initiateCall(calleeId: string): Promise<VideoCall> {
     const response = await this.api.post('/video-calls', { calleeId });
-    return response.data;
+    return this.parse(VideoCallSchema, response.data, 'POST /video-calls');
   }
 
-  async endCall(callId: string) {
+  async endCall(callId: string): Promise<VideoCall> {
     const response = await this.api.patch(`/video-calls/${callId}/end`);
-    return response.data;
+    return this.parse(VideoCallSchema, response.data, 'PATCH /video-calls/:id/end');
   }
 
   // Proposals endpoints
-  async getProposals() {
+  async getProposals(): Promise<Proposal[]> {
     const response = await this.api.get('/proposals');
-    return response.data;
+    return this.parse(ProposalListSchema, response.data, 'GET /proposals');
   }
 
-  async createProposal(data: any) {
+  async createProposal(data: CreateProposalRequest): Promise<Proposal> {
     const response = await this.api.post('/proposals', data);
-    return response.data;
+    return this.parse(ProposalSchema, response.data, 'POST /proposals');
   }
 
-  async respondToProposal(proposalId: string, response: 'ACCEPTED' | 'DECLINED') {
+  async respondToProposal(proposalId: string, response: 'ACCEPTED' | 'DECLINED'): Promise<Proposal> {
     const apiResponse = await this.api.patch(`/proposals/${proposalId}/respond`, {
       response,
     });
-    return apiResponse.data;
+    return this.parse(ProposalSchema, apiResponse.data, 'PATCH /proposals/:id/respond');
   }
 }
 
@@ -0,0 +1,318 @@
+import * as FileSystem from 'expo-file-system';
+import * as Print from 'expo-print';
+import * as Sharing from 'expo-sharing';
+import { CosmicTheme } from '../context/ThemeContext';
+import apiService from './api';
+import messageStore from './messageStore';
+import { formatDuration } from './messagePreview';
+import { Message, MessageType, User } from './schemas';
+
+/**
+ * Conversation Export
+ *
+ * Turns the conversation into a keepsake: a "love story" book (PDF, or the
+ * same page as HTML) with photos embedded, or a JSON file for anything that
+ * wants to read it back. History this device hasn't synced yet is fetched
+ * first; when that fails the export says it only holds what's saved here.
+ * Files are written to the cache and handed to the OS share sheet; nothing
+ * is uploaded.
+ *
+ * Deleted, disappearing and view-once messages are left out, since their
+ * senders didn't mean for them to be kept.
+ */
+
+export type ExportFormat = 'pdf' | 'html' | 'json';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string; description: string }[] = [
+  { format: 'pdf', label: '📖 Love story book', description: 'A PDF to keep or print' },
+  { format: 'html', label: '🌐 Web page', description: 'The same book, opens in any browser' },
+  { format: 'json', label: '🗂️ Data file', description: 'Every message as JSON' },
+];
+
+export interface ExportResult {
+  messageCount: number;
+  // False when the history couldn't be fetched and only what's saved on this device went in
+  complete: boolean;
+}
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string; UTI: string }> = {
+  pdf: { extension: 'pdf', mimeType: 'application/pdf', UTI: 'com.adobe.pdf' },
+  html: { extension: 'html', mimeType: 'text/html', UTI: 'public.html' },
+  json: { extension: 'json', mimeType: 'application/json', UTI: 'public.json' },
+};
+
+// Photos beyond this are linked instead of embedded, to keep the book small enough to render
+const MAX_EMBEDDED_IMAGES = 60;
+const HISTORY_PAGE_SIZE = 100;
+const EXPORT_VERSION = 1;
+
+// Caption under media whose picture doesn't say what it is
+const MEDIA_LABELS: Partial<Record<MessageType, string>> = {
+  VIDEO: '🎥 Video',
+  VOICE: '🎤 Voice message',
+};
+
+const displayName = (user: User) => user.fullName || user.email;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatDay = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString([], { weekday: 'long', month: 'long', day: 'numeric', year: 'numeric' });
+
+const formatTime = (timestamp: string) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+const formatShortDate = (timestamp: string) =>
+  new Date(timestamp).toLocaleDateString([], { month: 'long', day: 'numeric', year: 'numeric' });
+
+// Messages worth keeping, oldest first; ones still sealed have nothing to show
+const keepsakeMessages = (messages: Message[]) =>
+  messages.filter(message => !message.deletedAt && !message.viewOnce && !message.expiresAt && !message.sealedContent);
+
+const fileName = (partner: User, format: ExportFormat) => {
+  const slug = displayName(partner).toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'chat';
+  const date = new Date().toISOString().slice(0, 10);
+  return `love-story-${slug}-${date}.${FILE_TYPES[format].extension}`;
+};
+
+// Page in the whole history, newest first, so gaps between what's stored here get filled
+// too; false when the server couldn't be reached
+const syncHistory = async (partner: User): Promise<boolean> => {
+  let before: string | undefined;
+
+  try {
+    for (;;) {
+      const page = await apiService.getMessages(partner.id, { before, limit: HISTORY_PAGE_SIZE });
+      await messageStore.upsertMessages(page);
+      if (page.length < HISTORY_PAGE_SIZE) return true;
+      before = page.reduce((oldest, message) => message.createdAt < oldest ? message.createdAt : oldest, page[0].createdAt);
+    }
+  } catch (error) {
+    console.error('Failed to fetch history for export:', error);
+    return false;
+  }
+};
+
+// Download a photo and inline it, so the book doesn't depend on the server later
+const embedImage = async (url: string, index: number): Promise<string> => {
+  if (!FileSystem.cacheDirectory) return url;
+
+  const target = `${FileSystem.cacheDirectory}export-image-${index}`;
+  try {
+    const { status, headers } = await FileSystem.downloadAsync(url, target);
+    if (status !== 200) return url;
+    const data = await FileSystem.readAsStringAsync(target, { encoding: FileSystem.EncodingType.Base64 });
+    const mimeType = headers['Content-Type'] || headers['content-type'] || 'image/jpeg';
+    return `data:${mimeType};base64,${data}`;
+  } catch (error) {
+    console.error('Failed to embed photo in export:', error);
+    return url;
+  } finally {
+    FileSystem.deleteAsync(target, { idempotent: true }).catch(() => undefined);
+  }
+};
+
+// Embedded (or linked) picture for each photo and video thumbnail, by message id
+const collectImages = async (messages: Message[]): Promise<Map<string, string>> => {
+  const images = new Map<string, string>();
+  // One at a time; a long history can hold a lot of photos
+  for (const message of messages) {
+    const url = message.type === 'IMAGE'
+      ? message.media?.thumbnailUrl || message.media?.url
+      : message.type === 'VIDEO' ? message.media?.thumbnailUrl : null;
+    if (!url) continue;
+    images.set(message.id, images.size < MAX_EMBEDDED_IMAGES ? await embedImage(url, images.size) : url);
+  }
+  return images;
+};
+
+const renderMessage = (message: Message, me: User, images: Map<string, string>, included: Set<string>) => {
+  const mine = message.senderId === me.id;
+  const parts: string[] = [];
+
+  // A quote would bring back a message that was left out
+  if (message.replyTo && included.has(message.replyTo.id)) {
+    parts.push(`<div class="quote">${escapeHtml(message.replyTo.content || 'Attachment')}</div>`);
+  }
+  const image = images.get(message.id);
+  if (image) {
+    parts.push(`<img src="${escapeHtml(image)}" alt="" />`);
+  }
+  // Labelled by type, so a video's thumbnail doesn't pass for a photo
+  const label = MEDIA_LABELS[message.type];
+  if (label) {
+    const duration = message.media?.duration ? ` · ${formatDuration(message.media.duration)}` : '';
+    parts.push(`<div class="attachment">${label}${duration}</div>`);
+  }
+  if (message.type !== 'VOICE' && message.content) {
+    parts.push(`<div class="text">${escapeHtml(message.content)}</div>`);
+  }
+
+  const reactions = (message.reactions || []).map(reaction => reaction.emoji).join(' ');
+  return `
+    <div class="message ${mine ? 'mine' : 'theirs'}">
+      <div class="bubble">${parts.join('')}</div>
+      <div class="meta">${formatTime(message.createdAt)}${message.pinnedAt ? ' · 📌' : ''}${reactions ? ` · ${escapeHtml(reactions)}` : ''}</div>
+    </div>`;
+};
+
+const buildHtml = async (messages: Message[], me: User, partner: User): Promise<string> => {
+  const { colors } = CosmicTheme;
+  const images = await collectImages(messages);
+  const included = new Set(messages.map(message => message.id));
+
+  const days: string[] = [];
+  let currentDay = '';
+  for (const message of messages) {
+    const day = formatDay(message.createdAt);
+    if (day !== currentDay) {
+      currentDay = day;
+      days.push(`<h2 class="day">✨ ${escapeHtml(day)} ✨</h2>`);
+    }
+    days.push(renderMessage(message, me, images, included));
+  }
+
+  const first = messages[0].createdAt;
+  const last = messages[messages.length - 1].createdAt;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1" />
+<title>${escapeHtml(displayName(me))} &amp; ${escapeHtml(displayName(partner))}</title>
+<style>
+  @page { margin: 0; }
+  * { box-sizing: border-box; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+  body {
+    margin: 0;
+    padding: 32px 24px;
+    font-family: -apple-system, 'Helvetica Neue', Roboto, sans-serif;
+    color: ${colors.etherealWhite};
+    background: linear-gradient(160deg, ${colors.gradients.cosmic.join(', ')});
+    background-color: ${colors.deepSpace};
+  }
+  .cover { text-align: center; padding: 48px 0 32px; page-break-after: always; }
+  .cover h1 { font-family: Georgia, serif; font-size: 40px; margin: 0 0 12px; color: ${colors.roseGold}; }
+  .cover .names { font-size: 22px; color: ${colors.cosmicGold}; margin-bottom: 16px; }
+  .cover .dates { color: ${colors.moonlightSilver}; }
+  .day {
+    text-align: center;
+    font-family: Georgia, serif;
+    font-size: 15px;
+    font-weight: normal;
+    color: ${colors.cosmicGold};
+    margin: 28px 0 12px;
+  }
+  .message { display: flex; flex-direction: column; margin: 6px 0; page-break-inside: avoid; }
+  .mine { align-items: flex-end; }
+  .theirs { align-items: flex-start; }
+  .bubble { max-width: 75%; padding: 10px 14px; border-radius: 18px; }
+  .mine .bubble { background: linear-gradient(135deg, ${colors.gradients.romantic[0]}, ${colors.gradients.romantic[1]}); }
+  .theirs .bubble { background: ${colors.nebulaPurple}; }
+  .text { white-space: pre-wrap; word-wrap: break-word; font-size: 15px; line-height: 1.4; }
+  .bubble img { display: block; max-width: 100%; border-radius: 12px; margin-bottom: 6px; }
+  .quote {
+    border-left: 3px solid ${colors.cosmicGold};
+    padding-left: 8px;
+    margin-bottom: 6px;
+    font-size: 13px;
+    opacity: 0.8;
+  }
+  .attachment { font-size: 14px; opacity: 0.9; }
+  .meta { font-size: 11px; color: ${colors.textSecondary}; opacity: 0.7; margin: 3px 6px 0; }
+  .footer { text-align: center; margin-top: 40px; color: ${colors.roseGold}; font-family: Georgia, serif; }
+</style>
+</head>
+<body>
+  <div class="cover">
+    <h1>Our Love Story</h1>
+    <div class="names">${escapeHtml(displayName(me))} 💖 ${escapeHtml(displayName(partner))}</div>
+    <div class="dates">${escapeHtml(formatShortDate(first))} – ${escapeHtml(formatShortDate(last))}</div>
+    <div class="dates">${messages.length} messages</div>
+  </div>
+  ${days.join('\n')}
+  <div class="footer">To be continued… 🌙</div>
+</body>
+</html>`;
+};
+
+const buildJson = (messages: Message[], me: User, partner: User): string => {
+  const included = new Set(messages.map(message => message.id));
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    participants: [me, partner].map(user => ({ id: user.id, name: displayName(user), email: user.email })),
+    messages: messages.map(message => ({
+      id: message.id,
+      senderId: message.senderId,
+      recipientId: message.recipientId,
+      type: message.type,
+      content: message.content,
+      createdAt: message.createdAt,
+      editedAt: message.editedAt ?? null,
+      readAt: message.readAt ?? null,
+      replyToId: message.replyToId && included.has(message.replyToId) ? message.replyToId : null,
+      pinnedAt: message.pinnedAt ?? null,
+      reactions: (message.reactions || []).map(({ emoji, userId, createdAt }) => ({ emoji, userId, createdAt })),
+      media: message.media
+        ? {
+          url: message.media.url,
+          thumbnailUrl: message.media.thumbnailUrl ?? null,
+          mimeType: message.media.mimeType,
+          width: message.media.width ?? null,
+          height: message.media.height ?? null,
+          duration: message.media.duration ?? null,
+        }
+        : null,
+    })),
+  }, null, 2);
+};
+
+/**
+ * Export the whole conversation with partner and open the share sheet.
+ * Throws ExportError with a message fit to show when there is nothing to
+ * export or no way to share it.
+ */
+export const exportConversation = async (me: User, partner: User, format: ExportFormat): Promise<ExportResult> => {
+  if (!(await Sharing.isAvailableAsync()) || !FileSystem.cacheDirectory) {
+    throw new ExportError('Sharing files isn\'t available on this device');
+  }
+
+  const complete = await syncHistory(partner);
+  const messages = keepsakeMessages(await messageStore.getConversation(partner.id));
+  if (messages.length === 0) {
+    throw new ExportError('There are no messages to export yet');
+  }
+
+  const uri = `${FileSystem.cacheDirectory}${fileName(partner, format)}`;
+  if (format === 'json') {
+    await FileSystem.writeAsStringAsync(uri, buildJson(messages, me, partner));
+  } else {
+    const html = await buildHtml(messages, me, partner);
+    if (format === 'html') {
+      await FileSystem.writeAsStringAsync(uri, html);
+    } else {
+      const printed = await Print.printToFileAsync({ html });
+      await FileSystem.deleteAsync(uri, { idempotent: true });
+      await FileSystem.moveAsync({ from: printed.uri, to: uri });
+    }
+  }
+
+  const { mimeType, UTI } = FILE_TYPES[format];
+  await Sharing.shareAsync(uri, { mimeType, UTI, dialogTitle: 'Save your love story' });
+  return { messageCount: messages.length, complete };
+};
@@ -0,0 +1,50 @@
+import apiService from './api';
+import websocketService, { MessageExpiredEvent, viaSocketOrApi } from './websocket';
+import { Message } from './schemas';
+
+/**
+ * Disappearing Messages
+ *
+ * The server stamps `expiresAt` on messages sent while a conversation has a
+ * timer, and on a view-once message when the recipient opens it. Both
+ * devices drop a message from screen and local store once it passes; the
+ * server purges its copy and sends `message_expired` at the same moment.
+ */
+
+// Timer choices offered for a conversation, in seconds
+export const DISAPPEARING_TIMERS: { label: string; seconds: number | null }[] = [
+  { label: 'Off', seconds: null },
+  { label: '5 minutes', seconds: 5 * 60 },
+  { label: '1 hour', seconds: 60 * 60 },
+  { label: '1 day', seconds: 24 * 60 * 60 },
+  { label: '1 week', seconds: 7 * 24 * 60 * 60 },
+];
+
+export const timerLabel = (seconds: number | null): string =>
+  DISAPPEARING_TIMERS.find(timer => timer.seconds === seconds)?.label ??
+  `${Math.round((seconds ?? 0) / 60)} minutes`;
+
+export const isExpired = (message: Pick<Message, 'expiresAt'>, now = Date.now()): boolean =>
+  !!message.expiresAt && new Date(message.expiresAt).getTime() <= now;
+
+// Compact time left for a bubble: 45s, 12m, 5h, 3d
+export const formatTimeLeft = (expiresAt: string, now = Date.now()): string => {
+  const seconds = Math.max(Math.ceil((new Date(expiresAt).getTime() - now) / 1000), 0);
+  if (seconds < 60) return `${seconds}s`;
+  if (seconds < 60 * 60) return `${Math.ceil(seconds / 60)}m`;
+  if (seconds < 24 * 60 * 60) return `${Math.ceil(seconds / 3600)}h`;
+  return `${Math.ceil(seconds / 86400)}d`;
+};
+
+/**
+ * Expire a message now, e.g. a view-once photo that was just closed. Goes
+ * over the socket so the partner's copy vanishes too, falling back to the API.
+ */
+export const expireMessage = (messageId: string): Promise<MessageExpiredEvent> =>
+  viaSocketOrApi(
+    () => websocketService.expireMessage(messageId),
+    async () => {
+      await apiService.expireMessage(messageId);
+      return { messageId, expiredAt: new Date().toISOString() };
+    }
+  );
@@ -0,0 +1,148 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import { Message } from './schemas';
+
+/**
+ * Draft Store
+ *
+ * Unsent composer state per conversation (keyed by partner id), so leaving
+ * a chat or closing the app doesn't lose a half-written message. Drafts are
+ * kept per signed-in user in local storage.
+ */
+
+export interface Draft {
+  text: string;
+  // Message the draft replies to
+  replyTo: Message | null;
+  updatedAt: string;
+}
+
+export type Drafts = Record<string, Draft>;
+
+type DraftListener = (drafts: Drafts) => void;
+
+const STORAGE_KEY_PREFIX = 'chat_drafts';
+// Drafts change on every keystroke; write them out once typing pauses
+const PERSIST_DELAY = 500;
+
+class DraftStore {
+  private userId: string | null = null;
+  private drafts: Drafts = {};
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners = new Set<DraftListener>();
+
+  async init(userId: string) {
+    if (this.userId === userId) return;
+
+    this.reset();
+    this.userId = userId;
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      // A draft typed while loading wins over the stored copy
+      this.drafts = { ...(stored ? JSON.parse(stored) : {}), ...this.drafts };
+      this.notify();
+    } catch (error) {
+      console.error('Failed to load drafts:', error);
+    }
+  }
+
+  reset() {
+    this.flush();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.userId = null;
+    this.drafts = {};
+    this.notify();
+  }
+
+  get(partnerId: string): Draft | null {
+    return this.drafts[partnerId] || null;
+  }
+
+  getAll(): Drafts {
+    return this.drafts;
+  }
+
+  // Store the composer state for a conversation; an empty composer clears the draft
+  save(partnerId: string, text: string, replyTo: Message | null) {
+    if (!text.trim() && !replyTo) {
+      this.clear(partnerId);
+      return;
+    }
+
+    const current = this.drafts[partnerId];
+    if (current && current.text === text && current.replyTo?.id === replyTo?.id) return;
+
+    this.drafts = {
+      ...this.drafts,
+      [partnerId]: { text, replyTo, updatedAt: new Date().toISOString() },
+    };
+    this.changed();
+  }
+
+  clear(partnerId: string) {
+    if (!this.drafts[partnerId]) return;
+
+    const { [partnerId]: _cleared, ...rest } = this.drafts;
+    this.drafts = rest;
+    this.changed();
+  }
+
+  private changed() {
+    this.notify();
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+    }
+    this.persistTimer = setTimeout(() => this.flush(), PERSIST_DELAY);
+  }
+
+  // The app may be killed once backgrounded, so don't wait out the delay
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state !== 'active') {
+      this.flush();
+    }
+  };
+
+  private get storageKey(): string {
+    return `${STORAGE_KEY_PREFIX}:${this.userId}`;
+  }
+
+  // Write out any change still waiting for the persist delay
+  private flush() {
+    if (!this.persistTimer) return;
+
+    clearTimeout(this.persistTimer);
+    this.persistTimer = null;
+    if (!this.userId) return;
+
+    AsyncStorage.setItem(this.storageKey, JSON.stringify(this.drafts)).catch(error =>
+      console.error('Failed to persist drafts:', error)
+    );
+  }
+
+  // Event management
+  on(listener: DraftListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: DraftListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.drafts);
+      } catch (error) {
+        console.error('Error in draft store listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const draftStore = new DraftStore();
+export default draftStore;
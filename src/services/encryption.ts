@@ -0,0 +1,312 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as SecureStore from 'expo-secure-store';
+import { randomUUID } from 'expo-crypto';
+import apiService from './api';
+import {
+  KeyPair,
+  encryptContent,
+  generateKeyPair,
+  safetyNumber,
+  setIdentity,
+  setTrustedKeys,
+} from './messageCrypto';
+
+/**
+ * Encryption Service
+ *
+ * Owns this device's keypair and the device keys of the people we talk to.
+ * The secret key never leaves SecureStore on this device; the public key is
+ * published per device through the users API, so partners encrypt to every
+ * phone we use and a second device doesn't replace the first.
+ *
+ * A partner's keys are pinned the first time we see them. Keys they add
+ * later (new phone, reinstall, or someone in the middle) are neither
+ * encrypted to nor believed until the couple compares safety numbers again
+ * or chooses to trust them. The keys of our own other devices are pinned
+ * the same way, so a key the server slips into our own list can't read
+ * along until we approve it.
+ */
+
+export interface ContactKey {
+  // Device keys the server last listed for the partner
+  publicKeys: string[];
+  // Keys we encrypt to and accept messages from: pinned on first sight or trusted since
+  trustedKeys: string[];
+  // Safety number compared in person
+  verified: boolean;
+  // The partner lists keys we haven't trusted yet
+  changed: boolean;
+}
+
+// Thrown instead of sending content in the clear
+export class EncryptionUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncryptionUnavailableError';
+  }
+}
+
+interface DeviceIdentity extends KeyPair {
+  deviceId: string;
+}
+
+type EncryptionListener = (contacts: Record<string, ContactKey>) => void;
+
+// SecureStore keys may only contain alphanumerics, '.', '-' and '_'
+const IDENTITY_KEY_PREFIX = 'e2ee_device_';
+const CONTACTS_KEY_PREFIX = 'e2ee_device_contacts';
+
+const unique = (keys: string[]) => [...new Set(keys)];
+
+const sameKeys = (a: string[], b: string[]) => a.length === b.length && a.every(key => b.includes(key));
+
+// Every key the partner lists becomes trusted
+const trustListed = (contact: ContactKey): ContactKey => ({
+  ...contact,
+  trustedKeys: unique([...contact.trustedKeys, ...contact.publicKeys]),
+  changed: false,
+});
+
+class EncryptionService {
+  private userId: string | null = null;
+  private identity: DeviceIdentity | null = null;
+  // Keys of our devices we encrypt to, this one included
+  private ownKeys: string[] = [];
+  private contacts: Record<string, ContactKey> = {};
+  // Users whose device keys were checked against the server this session
+  private fetched = new Set<string>();
+  private loading: Promise<void> | null = null;
+  private listeners = new Set<EncryptionListener>();
+
+  init(userId: string): Promise<void> {
+    if (this.userId === userId && this.loading) return this.loading;
+
+    this.reset();
+    this.userId = userId;
+    this.loading = this.load(userId);
+    return this.loading;
+  }
+
+  reset() {
+    setIdentity(null, null);
+    this.userId = null;
+    this.identity = null;
+    this.ownKeys = [];
+    this.contacts = {};
+    this.fetched.clear();
+    this.loading = null;
+  }
+
+  private async load(userId: string) {
+    let identity: DeviceIdentity | null;
+    try {
+      const identityKey = `${IDENTITY_KEY_PREFIX}${userId}`;
+      const stored = await SecureStore.getItemAsync(identityKey);
+      identity = stored ? JSON.parse(stored) : null;
+      if (!identity) {
+        console.log('Generating encryption keys for this device');
+        identity = { deviceId: randomUUID(), ...generateKeyPair() };
+        await SecureStore.setItemAsync(identityKey, JSON.stringify(identity));
+      }
+      if (this.userId !== userId) return;
+
+      this.identity = identity;
+      this.ownKeys = [identity.publicKey];
+      setIdentity(userId, identity);
+      setTrustedKeys(userId, this.ownKeys);
+
+      const contacts = await AsyncStorage.getItem(`${CONTACTS_KEY_PREFIX}:${userId}`);
+      this.contacts = contacts ? JSON.parse(contacts) : {};
+      Object.entries(this.contacts).forEach(([contactId, contact]) => this.applyTrust(contactId, contact));
+      this.notify();
+    } catch (error) {
+      console.error('Failed to load encryption keys:', error);
+      return;
+    }
+
+    try {
+      await apiService.publishDeviceKey(identity.deviceId, identity.publicKey);
+    } catch (error) {
+      // Nobody can encrypt to this device until the next sign-in publishes it
+      console.error('Failed to publish device key:', error);
+    }
+  }
+
+  getContact(partnerId: string): ContactKey | null {
+    return this.contacts[partnerId] || null;
+  }
+
+  // Our own other devices, pinned like a partner's; null until the server listed them
+  getOwnContact(): ContactKey | null {
+    return this.userId ? this.getContact(this.userId) : null;
+  }
+
+  // Device keys the server lists for a user, or null when it can't be asked
+  private async fetchKeys(userId: string): Promise<string[] | null> {
+    try {
+      const devices = await apiService.getDeviceKeys(userId);
+      this.fetched.add(userId);
+      return unique(devices.map(device => device.publicKey));
+    } catch (error) {
+      // Offline: the keys we already know are still good to encrypt with
+      console.error('Failed to fetch device keys:', error);
+      return null;
+    }
+  }
+
+  /**
+   * The partner's device keys, checked against the server once per session.
+   * Null until the partner has published any (an older app).
+   */
+  async getPartnerKeys(partnerId: string, options: { refresh?: boolean } = {}): Promise<ContactKey | null> {
+    await this.loading;
+
+    if (options.refresh || !this.fetched.has(partnerId)) {
+      const publicKeys = await this.fetchKeys(partnerId);
+      if (publicKeys) {
+        await this.remember(partnerId, publicKeys);
+      }
+    }
+
+    return this.getContact(partnerId);
+  }
+
+  // This device's key and those of our other devices that we trust
+  private async getOwnKeys(options: { refresh?: boolean } = {}): Promise<string[]> {
+    await this.loading;
+
+    const userId = this.userId;
+    if (userId && this.identity && (options.refresh || !this.fetched.has(userId))) {
+      const publicKeys = await this.fetchKeys(userId);
+      if (publicKeys && this.userId === userId) {
+        await this.remember(userId, publicKeys);
+      }
+    }
+
+    return this.ownKeys;
+  }
+
+  /**
+   * Encrypt content for every trusted device of the partner and every one
+   * of ours. Throws EncryptionUnavailableError when the partner has no key
+   * we trust, rather than sending it readable by the server.
+   */
+  async encryptFor(partnerId: string, content: string): Promise<string> {
+    if (!content) return content;
+
+    const contact = await this.getPartnerKeys(partnerId);
+    const ownKeys = await this.getOwnKeys();
+    if (!this.identity) {
+      throw new EncryptionUnavailableError('Encryption isn\'t ready on this phone yet. Try again in a moment.');
+    }
+
+    const partnerKeys = contact ? contact.publicKeys.filter(key => contact.trustedKeys.includes(key)) : [];
+    if (partnerKeys.length === 0) {
+      throw new EncryptionUnavailableError(contact?.changed
+        ? 'Your partner\'s security key changed. Check the safety number before sending.'
+        : 'Your partner hasn\'t set up encrypted messaging yet, so this can\'t be sent securely.');
+    }
+    return encryptContent(content, unique([...partnerKeys, ...ownKeys]));
+  }
+
+  // Digits to compare with the partner's screen; null until the partner has keys
+  async getSafetyNumber(partnerId: string): Promise<string[] | null> {
+    const contact = await this.getPartnerKeys(partnerId, { refresh: true });
+    await this.getOwnKeys({ refresh: true });
+    if (!contact?.publicKeys.length || !this.identity || !this.userId) return null;
+
+    // Both phones must derive it from the same lists, so it covers every key the server has for us
+    const ownKeys = unique([this.identity.publicKey, ...(this.getOwnContact()?.publicKeys ?? [])]);
+    return safetyNumber(
+      { userId: this.userId, publicKeys: ownKeys },
+      { userId: partnerId, publicKeys: contact.publicKeys }
+    );
+  }
+
+  async setVerified(partnerId: string, verified: boolean) {
+    const contact = this.contacts[partnerId];
+    if (!contact) return;
+
+    // Matching safety numbers vouch for every key the partner lists
+    await this.update(partnerId, verified ? { ...trustListed(contact), verified } : { ...contact, verified });
+  }
+
+  // Accept the partner's new keys without comparing safety numbers
+  async trustNewKeys(partnerId: string) {
+    const contact = this.contacts[partnerId];
+    if (!contact) return;
+
+    await this.update(partnerId, trustListed(contact));
+  }
+
+  // Approve a device added to our own account
+  async trustOwnKeys() {
+    if (this.userId) {
+      await this.trustNewKeys(this.userId);
+    }
+  }
+
+  private async remember(partnerId: string, publicKeys: string[]) {
+    const known = this.contacts[partnerId];
+    if (known ? sameKeys(known.publicKeys, publicKeys) : publicKeys.length === 0) return;
+
+    // First sight pins every key; keys added later wait for the user
+    const trustedKeys = known ? known.trustedKeys : publicKeys;
+    const changed = publicKeys.some(key => !trustedKeys.includes(key));
+    if (changed) {
+      console.log(partnerId === this.userId ? 'New device key on our own account' : `New encryption key for ${partnerId}`);
+    }
+    await this.update(partnerId, { publicKeys, trustedKeys, verified: false, changed });
+  }
+
+  private async update(partnerId: string, contact: ContactKey) {
+    this.contacts = { ...this.contacts, [partnerId]: contact };
+    this.applyTrust(partnerId, contact);
+    await this.persist();
+    this.notify();
+  }
+
+  // Our own entry also decides which of our devices we encrypt to; this one always counts
+  private applyTrust(contactId: string, contact: ContactKey) {
+    if (contactId !== this.userId || !this.identity) {
+      setTrustedKeys(contactId, contact.trustedKeys);
+      return;
+    }
+
+    const listed = contact.publicKeys.filter(key => contact.trustedKeys.includes(key));
+    this.ownKeys = unique([this.identity.publicKey, ...listed]);
+    setTrustedKeys(contactId, unique([this.identity.publicKey, ...contact.trustedKeys]));
+  }
+
+  private async persist() {
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(`${CONTACTS_KEY_PREFIX}:${this.userId}`, JSON.stringify(this.contacts));
+    } catch (error) {
+      console.error('Failed to persist encryption contacts:', error);
+    }
+  }
+
+  // Event management
+  on(listener: EncryptionListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: EncryptionListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.contacts);
+      } catch (error) {
+        console.error('Error in encryption listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const encryptionService = new EncryptionService();
+export default encryptionService;
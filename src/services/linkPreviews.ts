@@ -0,0 +1,200 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios from 'axios';
+import { ENV } from '../config/env';
+import apiService from './api';
+import { LinkPreview } from './schemas';
+
+/**
+ * Link Previews
+ *
+ * Title, description and image for links in messages, unfurled by the
+ * backend's preview endpoint so the app never loads the page itself.
+ * Results are cached per user on the device.
+ *
+ * Looking up a link tells the server about it, even when it came from an
+ * end-to-end encrypted message, so previews are off until the user turns
+ * them on in chat settings. Turning them off again forgets everything
+ * cached; ENABLE_LINK_PREVIEWS removes the option from a build entirely.
+ */
+
+interface CachedPreview {
+  // Null when the page has nothing to preview
+  preview: LinkPreview | null;
+  fetchedAt: number;
+}
+
+type LinkPreviewListener = (enabled: boolean) => void;
+
+const CACHE_KEY_PREFIX = 'link_previews';
+const ENABLED_KEY_PREFIX = 'link_previews_enabled';
+const CACHE_TTL = 7 * 24 * 60 * 60 * 1000;
+const MAX_CACHED = 200;
+// Batch cache writes while a chat full of links loads
+const PERSIST_DELAY = 1000;
+// Client errors about our request rather than the page; these are retried, not cached
+const RETRY_STATUSES = [401, 403, 429];
+
+// The server looked and found nothing to preview
+const isNoPreview = (error: unknown): boolean => {
+  const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+  return status !== undefined && status >= 400 && status < 500 && !RETRY_STATUSES.includes(status);
+};
+
+class LinkPreviewService {
+  private userId: string | null = null;
+  private enabled = false;
+  private cache: Record<string, CachedPreview> = {};
+  private inFlight = new Map<string, Promise<LinkPreview | null>>();
+  private persistTimer: ReturnType<typeof setTimeout> | null = null;
+  private listeners = new Set<LinkPreviewListener>();
+
+  async init(userId: string) {
+    if (this.userId === userId) return;
+
+    this.reset();
+    this.userId = userId;
+
+    try {
+      const [enabled, cache] = await Promise.all([
+        AsyncStorage.getItem(`${ENABLED_KEY_PREFIX}:${userId}`),
+        AsyncStorage.getItem(`${CACHE_KEY_PREFIX}:${userId}`),
+      ]);
+      this.enabled = enabled === 'true';
+      this.cache = { ...(cache ? JSON.parse(cache) : {}), ...this.cache };
+      this.notify();
+    } catch (error) {
+      console.error('Failed to load link previews:', error);
+    }
+  }
+
+  reset() {
+    if (this.persistTimer) {
+      clearTimeout(this.persistTimer);
+      this.persistTimer = null;
+    }
+    this.userId = null;
+    this.enabled = false;
+    this.cache = {};
+    this.inFlight.clear();
+  }
+
+  // Whether this build offers previews at all
+  get available(): boolean {
+    return ENV.ENABLE_LINK_PREVIEWS;
+  }
+
+  get isEnabled(): boolean {
+    return this.available && this.enabled;
+  }
+
+  async setEnabled(enabled: boolean) {
+    this.enabled = enabled;
+    if (!enabled) {
+      // Nothing about the links we've seen stays behind
+      this.cache = {};
+      this.inFlight.clear();
+    }
+    this.notify();
+
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(`${ENABLED_KEY_PREFIX}:${this.userId}`, String(enabled));
+      if (!enabled) {
+        await AsyncStorage.removeItem(`${CACHE_KEY_PREFIX}:${this.userId}`);
+      }
+    } catch (error) {
+      console.error('Failed to save link preview setting:', error);
+    }
+  }
+
+  /**
+   * Cached preview for a link: the preview, null when the page has none,
+   * or undefined when it still needs fetching.
+   */
+  getCached(url: string): LinkPreview | null | undefined {
+    const cached = this.cache[url];
+    if (!cached || Date.now() - cached.fetchedAt > CACHE_TTL) return undefined;
+    return cached.preview;
+  }
+
+  // Fetch a preview once, however many bubbles show the same link
+  fetch(url: string): Promise<LinkPreview | null> {
+    if (!this.isEnabled) return Promise.resolve(null);
+
+    const cached = this.getCached(url);
+    if (cached !== undefined) return Promise.resolve(cached);
+
+    const pending = this.inFlight.get(url);
+    if (pending) return pending;
+
+    const request = apiService.getLinkPreview(url)
+      .then(preview => {
+        this.store(url, preview);
+        return preview;
+      })
+      .catch(error => {
+        // Anything but "no preview" is retried later
+        if (isNoPreview(error)) {
+          this.store(url, null);
+        } else {
+          console.error('Failed to fetch link preview:', error);
+        }
+        return null;
+      })
+      .finally(() => this.inFlight.delete(url));
+
+    this.inFlight.set(url, request);
+    return request;
+  }
+
+  private store(url: string, preview: LinkPreview | null) {
+    if (!this.isEnabled) return;
+
+    this.cache = { ...this.cache, [url]: { preview, fetchedAt: Date.now() } };
+    if (!this.persistTimer) {
+      this.persistTimer = setTimeout(() => this.persist(), PERSIST_DELAY);
+    }
+  }
+
+  // Write out the newest entries that haven't gone stale
+  private async persist() {
+    this.persistTimer = null;
+    if (!this.userId) return;
+
+    const now = Date.now();
+    const fresh = Object.entries(this.cache)
+      .filter(([, entry]) => now - entry.fetchedAt <= CACHE_TTL)
+      .sort(([, a], [, b]) => b.fetchedAt - a.fetchedAt)
+      .slice(0, MAX_CACHED);
+    this.cache = Object.fromEntries(fresh);
+
+    try {
+      await AsyncStorage.setItem(`${CACHE_KEY_PREFIX}:${this.userId}`, JSON.stringify(this.cache));
+    } catch (error) {
+      console.error('Failed to persist link previews:', error);
+    }
+  }
+
+  // Event management
+  on(listener: LinkPreviewListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: LinkPreviewListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.isEnabled);
+      } catch (error) {
+        console.error('Error in link preview listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const linkPreviews = new LinkPreviewService();
+export default linkPreviews;
@@ -0,0 +1,41 @@
+/**
+ * Links in Messages
+ *
+ * Finds web links in message text so bubbles can make them tappable and
+ * pick one to preview.
+ */
+
+export interface TextPart {
+  text: string;
+  // Set on parts that are links, normalised to an absolute URL
+  url?: string;
+}
+
+const URL_PATTERN = /\b(?:https?:\/\/|www\.)[^\s<>"]+/gi;
+// Sentence punctuation right after a link isn't part of it
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]}]+$/;
+
+const toUrl = (match: string) => (/^www\./i.test(match) ? `https://${match}` : match);
+
+// Split text into alternating plain and link parts
+export const splitLinks = (text: string): TextPart[] => {
+  const parts: TextPart[] = [];
+  let last = 0;
+
+  for (const found of text.matchAll(URL_PATTERN)) {
+    const link = found[0].replace(TRAILING_PUNCTUATION, '');
+    const start = found.index ?? 0;
+    if (!link) continue;
+
+    if (start > last) parts.push({ text: text.slice(last, start) });
+    parts.push({ text: link, url: toUrl(link) });
+    last = start + link.length;
+  }
+
+  if (last < text.length) parts.push({ text: text.slice(last) });
+  return parts;
+};
+
+// The link a message gets a preview card for
+export const firstLink = (text: string): string | null =>
+  splitLinks(text).find(part => part.url)?.url ?? null;
@@ -0,0 +1,170 @@
+import nacl from 'tweetnacl';
+import { decodeBase64, decodeUTF8, encodeBase64, encodeUTF8 } from 'tweetnacl-util';
+import { getRandomBytes } from 'expo-crypto';
+import { Message } from './schemas';
+
+/**
+ * Message Crypto
+ *
+ * End-to-end encryption of message content with NaCl box (X25519 +
+ * XSalsa20-Poly1305). Every device has its own keypair, so a message is
+ * sealed once per recipient device, including the sender's own devices,
+ * and any of them can open it synchronously, wherever messages enter the app.
+ *
+ * An envelope names the key that sealed it. It only opens when that key is
+ * one we trust for the sender; otherwise the server (or anyone else) could
+ * seal a message with its own keypair and pass it off as the partner's.
+ *
+ * Holds only this device's identity and the trusted keys; key storage and
+ * exchange live in the encryption service.
+ */
+
+export interface KeyPair {
+  publicKey: string;
+  secretKey: string;
+}
+
+// e2ee2:{"from":<sender device key>,"boxes":{<recipient device key>:[<nonce>,<box>]}}, keys and boxes base64
+const ENVELOPE_PREFIX = 'e2ee2:';
+
+interface Envelope {
+  from: string;
+  boxes: Record<string, [string, string]>;
+}
+
+export const UNDECRYPTABLE_CONTENT = '🔒 This message can\'t be decrypted on this device';
+export const UNVERIFIED_CONTENT = '⚠️ This message was sealed with a key we don\'t trust for its sender, so it is hidden. Check the safety number to read it';
+
+// React Native has no crypto.getRandomValues; draw from the platform's CSPRNG
+nacl.setPRNG((output, length) => {
+  output.set(getRandomBytes(length));
+});
+
+let identity: { userId: string; publicKey: Uint8Array; secretKey: Uint8Array } | null = null;
+// Device keys allowed to seal messages for each user, ours included
+let trustedKeys: Record<string, string[]> = {};
+
+export const generateKeyPair = (): KeyPair => {
+  const keyPair = nacl.box.keyPair();
+  return {
+    publicKey: encodeBase64(keyPair.publicKey),
+    secretKey: encodeBase64(keyPair.secretKey),
+  };
+};
+
+export const setIdentity = (userId: string | null, keyPair: KeyPair | null) => {
+  identity = userId && keyPair && {
+    userId,
+    publicKey: decodeBase64(keyPair.publicKey),
+    secretKey: decodeBase64(keyPair.secretKey),
+  };
+  trustedKeys = {};
+};
+
+export const setTrustedKeys = (userId: string, publicKeys: string[]) => {
+  trustedKeys = { ...trustedKeys, [userId]: publicKeys };
+};
+
+export const isEncrypted = (content: string) => content.startsWith(ENVELOPE_PREFIX);
+
+// Placeholders shown instead of content that didn't open
+export const isSealed = (content: string) => content === UNDECRYPTABLE_CONTENT || content === UNVERIFIED_CONTENT;
+
+export const encryptContent = (content: string, recipientPublicKeys: string[]): string => {
+  if (!identity) {
+    throw new Error('Encryption keys are not loaded');
+  }
+
+  const secretKey = identity.secretKey;
+  const boxes: Envelope['boxes'] = {};
+  for (const publicKey of recipientPublicKeys) {
+    const nonce = nacl.randomBytes(nacl.box.nonceLength);
+    const box = nacl.box(decodeUTF8(content), nonce, decodeBase64(publicKey), secretKey);
+    boxes[publicKey] = [encodeBase64(nonce), encodeBase64(box)];
+  }
+  const envelope: Envelope = { from: encodeBase64(identity.publicKey), boxes };
+  return ENVELOPE_PREFIX + JSON.stringify(envelope);
+};
+
+// Plaintext passes through; envelopes we can't open or trust become a placeholder
+export const decryptContent = (content: string, senderId: string): string => {
+  if (!isEncrypted(content)) return content;
+  if (!identity) return UNDECRYPTABLE_CONTENT;
+
+  try {
+    const envelope: Envelope = JSON.parse(content.slice(ENVELOPE_PREFIX.length));
+    if (!trustedKeys[senderId]?.includes(envelope.from)) {
+      console.log(`Blocked a message from ${senderId} sealed with an untrusted key`);
+      return UNVERIFIED_CONTENT;
+    }
+
+    const sealed = envelope.boxes[encodeBase64(identity.publicKey)];
+    if (!sealed) return UNDECRYPTABLE_CONTENT;
+
+    const [nonce, box] = sealed;
+    const opened = nacl.box.open(decodeBase64(box), decodeBase64(nonce), decodeBase64(envelope.from), identity.secretKey);
+    return opened ? encodeUTF8(opened) : UNDECRYPTABLE_CONTENT;
+  } catch (error) {
+    console.error('Failed to decrypt message:', error);
+    return UNDECRYPTABLE_CONTENT;
+  }
+};
+
+// Content we sealed ourselves, e.g. a scheduled message held by the server
+export const decryptOwnContent = (content: string): string =>
+  decryptContent(content, identity?.userId ?? '');
+
+type Sealable = { content?: string; senderId?: string; sealedContent?: string | null };
+
+// Keeps the envelope of anything that didn't open, so it can be tried again once keys change
+const open = <T extends Sealable>(item: T): T => {
+  const envelope = item.sealedContent ?? item.content;
+  if (!isEncrypted(envelope)) return item;
+
+  const content = decryptContent(envelope, item.senderId);
+  return { ...item, content, sealedContent: isSealed(content) ? envelope : null };
+};
+
+/**
+ * Decrypt a message and the quote it carries. Also reopens messages that
+ * were sealed earlier, e.g. after the sender's new key was trusted.
+ */
+export const decryptMessage = <T extends Pick<Message, 'content' | 'senderId' | 'replyTo' | 'sealedContent'>>(
+  message: T
+): T => {
+  const opened = open(message);
+  const replyTo = message.replyTo && open(message.replyTo);
+  if (opened === message && replyTo === message.replyTo) return message;
+  return { ...opened, ...(replyTo && { replyTo }) } as T;
+};
+
+// SHA-512 rounds per fingerprint; slows down searching for a colliding key
+const FINGERPRINT_ITERATIONS = 1024;
+
+// 30 digits identifying one user's set of device keys, in groups of five
+const fingerprint = (userId: string, publicKeys: string[]): string[] => {
+  const keys = new Uint8Array([...publicKeys].sort().flatMap(publicKey => [...decodeBase64(publicKey)]));
+  let hash = nacl.hash(new Uint8Array([...decodeUTF8(userId), ...keys]));
+  for (let i = 1; i < FINGERPRINT_ITERATIONS; i++) {
+    hash = nacl.hash(new Uint8Array([...hash, ...keys]));
+  }
+
+  return Array.from({ length: 6 }, (_, chunk) => {
+    const value = Array.from(hash.slice(chunk * 5, chunk * 5 + 5))
+      .reduce((total, byte) => total * 256 + byte, 0);
+    return String(value % 100000).padStart(5, '0');
+  });
+};
+
+/**
+ * Twelve groups of five digits that both partners see identically when
+ * each holds the other's real device keys. Ordered by user id so it
+ * doesn't matter whose phone shows it; any new device changes it.
+ */
+export const safetyNumber = (
+  a: { userId: string; publicKeys: string[] },
+  b: { userId: string; publicKeys: string[] }
+): string[] => {
+  const [first, second] = [a, b].sort((x, y) => x.userId.localeCompare(y.userId));
+  return [...fingerprint(first.userId, first.publicKeys), ...fingerprint(second.userId, second.publicKeys)];
+};
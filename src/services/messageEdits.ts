@@ -0,0 +1,72 @@
+import apiService from './api';
+import websocketService, { MessageDeletedEvent, viaSocketOrApi } from './websocket';
+import encryptionService from './encryption';
+import { DeleteScope, Message } from './schemas';
+
+/**
+ * Message Edits
+ *
+ * Editing and deleting sent messages. Changes for everyone go over the
+ * socket so the partner sees them live (falling back to the API), and the
+ * helpers here are shared with the local store to apply incoming changes.
+ */
+
+// How long after sending a message can still be edited
+export const EDIT_WINDOW_MS = 15 * 60 * 1000;
+
+export const canEditMessage = (message: Message, userId?: string): boolean =>
+  message.senderId === userId &&
+  message.type === 'TEXT' &&
+  !message.deletedAt &&
+  Date.now() - new Date(message.createdAt).getTime() < EDIT_WINDOW_MS;
+
+export const canDeleteForEveryone = (message: Message, userId?: string): boolean =>
+  message.senderId === userId && !message.deletedAt;
+
+// What remains of a message deleted for everyone
+export const toTombstone = <T extends Message>(message: T, event: MessageDeletedEvent): T => ({
+  ...message,
+  content: '',
+  deletedAt: event.deletedAt,
+  reactions: [],
+  replyToId: null,
+  replyTo: null,
+});
+
+// Only what an edit changes, so locally merged reactions, pins and view-once state survive.
+// The sealed envelope goes too: a stale one would reopen to the pre-edit text.
+export const editChanges = (edited: Message): Pick<Message, 'content' | 'editedAt' | 'sealedContent'> => ({
+  content: edited.content,
+  editedAt: edited.editedAt ?? new Date().toISOString(),
+  sealedContent: edited.sealedContent ?? null,
+});
+
+// The new content is encrypted for the message's recipient like the original
+export const editMessage = async (message: Message, content: string): Promise<Message> => {
+  const encrypted = await encryptionService.encryptFor(message.recipientId, content);
+  const edited = await viaSocketOrApi<Message | undefined>(
+    () => websocketService.editMessage(message.id, encrypted),
+    () => apiService.editMessage(message.id, encrypted)
+  );
+  // The socket may confirm the edit without echoing the message back
+  return edited ?? { ...message, content, sealedContent: null, editedAt: new Date().toISOString() };
+};
+
+/**
+ * Delete a message. Deleting for everyone resolves with the tombstone event
+ * to apply locally; deleting for me only hides it from our own history.
+ */
+export const deleteMessage = async (messageId: string, scope: DeleteScope): Promise<MessageDeletedEvent | null> => {
+  if (scope === 'me') {
+    await apiService.deleteMessage(messageId, 'me');
+    return null;
+  }
+
+  return viaSocketOrApi(
+    () => websocketService.deleteMessage(messageId),
+    async () => {
+      await apiService.deleteMessage(messageId, 'everyone');
+      return { messageId, deletedAt: new Date().toISOString() };
+    }
+  );
+};
@@ -0,0 +1,27 @@
+import { Message } from './schemas';
+
+// m:ss for video and voice note lengths
+export const formatDuration = (ms: number): string => {
+  const totalSeconds = Math.round(ms / 1000);
+  return `${Math.floor(totalSeconds / 60)}:${String(totalSeconds % 60).padStart(2, '0')}`;
+};
+
+// One-line summary of a message for conversation lists and quoted replies
+export const messagePreviewText = (
+  message: Pick<Message, 'type' | 'content' | 'deletedAt'> & Partial<Pick<Message, 'viewOnce'>>
+): string => {
+  if (message.deletedAt) return '🚫 Message deleted';
+  // The caption stays hidden along with the media until it's opened
+  if (message.viewOnce) return message.type === 'VIDEO' ? '① View once video' : '① View once photo';
+
+  switch (message.type) {
+    case 'IMAGE':
+      return message.content ? `📷 ${message.content}` : '📷 Photo';
+    case 'VIDEO':
+      return message.content ? `🎥 ${message.content}` : '🎥 Video';
+    case 'VOICE':
+      return '🎤 Voice message';
+    default:
+      return message.content;
+  }
+};
@@ -0,0 +1,551 @@
+import * as SQLite from 'expo-sqlite';
+import outboxService, { OutboxDeliveredEvent } from './outbox';
+import websocketService, {
+  MessageDeletedEvent,
+  MessageExpiredEvent,
+  MessagePinEvent,
+  MessageReadEvent,
+  MessagesReadEvent,
+  ReactionEvent,
+} from './websocket';
+import { applyReaction } from './reactions';
+import { applyPin, sortPins } from './pins';
+import { editChanges, toTombstone } from './messageEdits';
+import { decryptMessage } from './messageCrypto';
+import { Message, MessageType } from './schemas';
+
+/**
+ * Local Message Store
+ *
+ * On-device SQLite copy of chat history, one database per signed-in user.
+ * Screens render from here immediately and reconcile with the server in the
+ * background; socket events are written through so history stays current
+ * (and readable) even when the app is offline.
+ */
+
+export interface PageOptions {
+  // Only return messages created before this ISO timestamp
+  before?: string;
+  limit?: number;
+}
+
+export interface SearchFilters {
+  // Restrict to one conversation (the partner's id)
+  conversationId?: string;
+  // 'me' for messages I sent, 'partner' for messages I received
+  sender?: 'me' | 'partner';
+  type?: MessageType;
+  // ISO timestamps bounding createdAt
+  after?: string;
+  before?: string;
+  limit?: number;
+}
+
+export interface StoredConversation {
+  conversationId: string;
+  lastMessage: Message;
+  unreadCount: number;
+}
+
+interface MessageRow {
+  data: string;
+}
+
+const DEFAULT_PAGE_SIZE = 30;
+const DEFAULT_SEARCH_LIMIT = 50;
+// setTimeout overflows past ~24.8 days; check for expired messages at least this often
+const MAX_EXPIRY_TIMER_DELAY = 60 * 60 * 1000;
+
+// Escape LIKE wildcards so the query matches literally
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const SCHEMA = `
+  PRAGMA journal_mode = WAL;
+  CREATE TABLE IF NOT EXISTS messages (
+    id TEXT PRIMARY KEY NOT NULL,
+    conversation_id TEXT NOT NULL,
+    sender_id TEXT NOT NULL,
+    status TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS idx_messages_conversation_created
+    ON messages (conversation_id, created_at);
+`;
+
+class MessageStore {
+  private db: SQLite.SQLiteDatabase | null = null;
+  private userId: string | null = null;
+  private opening: Promise<void> | null = null;
+  private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * Open (or create) the store for the signed-in user and start mirroring
+   * socket events into it.
+   */
+  open(userId: string): Promise<void> {
+    if (this.userId === userId && this.opening) {
+      return this.opening;
+    }
+
+    this.close();
+    this.userId = userId;
+    this.opening = (async () => {
+      const db = await SQLite.openDatabaseAsync(`messages_${userId}.db`);
+      await db.execAsync(SCHEMA);
+      // Closed or switched to another user while this was opening
+      if (this.userId !== userId) {
+        await db.closeAsync();
+        return;
+      }
+      this.db = db;
+      console.log('Local message store opened');
+    })();
+    this.purgeExpired();
+
+    websocketService.on('new_message', this.handleNewMessage);
+    websocketService.on('message_read', this.handleMessageRead);
+    websocketService.on('messages_read', this.handleMessagesRead);
+    websocketService.on('message_edited', this.handleMessageEdited);
+    websocketService.on('message_deleted', this.handleMessageDeleted);
+    websocketService.on('message_expired', this.handleMessageExpired);
+    websocketService.on('message_pinned', this.handleMessagePinned);
+    websocketService.on('message_unpinned', this.handleMessageUnpinned);
+    websocketService.on('reaction_added', this.handleReactionAdded);
+    websocketService.on('reaction_removed', this.handleReactionRemoved);
+    outboxService.on('delivered', this.handleOutboxDelivered);
+
+    return this.opening;
+  }
+
+  close() {
+    websocketService.off('new_message', this.handleNewMessage);
+    websocketService.off('message_read', this.handleMessageRead);
+    websocketService.off('messages_read', this.handleMessagesRead);
+    websocketService.off('message_edited', this.handleMessageEdited);
+    websocketService.off('message_deleted', this.handleMessageDeleted);
+    websocketService.off('message_expired', this.handleMessageExpired);
+    websocketService.off('message_pinned', this.handleMessagePinned);
+    websocketService.off('message_unpinned', this.handleMessageUnpinned);
+    websocketService.off('reaction_added', this.handleReactionAdded);
+    websocketService.off('reaction_removed', this.handleReactionRemoved);
+    outboxService.off('delivered', this.handleOutboxDelivered);
+    this.clearExpiryTimer();
+    this.db?.closeAsync().catch(error => console.error('Failed to close message store:', error));
+    this.db = null;
+    this.userId = null;
+    this.opening = null;
+  }
+
+  // The other participant identifies the conversation from our point of view
+  private conversationIdFor(message: Message): string {
+    return message.senderId === this.userId ? message.recipientId : message.senderId;
+  }
+
+  private async getDb(): Promise<SQLite.SQLiteDatabase | null> {
+    if (this.opening) {
+      try {
+        await this.opening;
+      } catch (error) {
+        console.error('Message store unavailable:', error);
+        return null;
+      }
+    }
+    return this.db;
+  }
+
+  async upsertMessages(messages: Message[]) {
+    const db = await this.getDb();
+    if (!db || messages.length === 0) return;
+
+    try {
+      await db.withTransactionAsync(async () => {
+        for (const message of messages) {
+          await db.runAsync(
+            `INSERT OR REPLACE INTO messages (id, conversation_id, sender_id, status, created_at, data)
+             VALUES (?, ?, ?, ?, ?, ?)`,
+            message.id,
+            this.conversationIdFor(message),
+            message.senderId,
+            message.status,
+            message.createdAt,
+            JSON.stringify(message)
+          );
+        }
+      });
+    } catch (error) {
+      console.error('Failed to store messages:', error);
+    }
+
+    if (messages.some(message => message.expiresAt)) {
+      this.armExpiryTimer();
+    }
+  }
+
+  async updateMessage(id: string, changes: Partial<Message>) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const row = await db.getFirstAsync<MessageRow>('SELECT data FROM messages WHERE id = ?', id);
+      if (!row) return;
+
+      const updated: Message = { ...JSON.parse(row.data), ...changes };
+      await db.runAsync(
+        'UPDATE messages SET status = ?, data = ? WHERE id = ?',
+        updated.status,
+        JSON.stringify(updated),
+        id
+      );
+    } catch (error) {
+      console.error('Failed to update stored message:', error);
+    }
+  }
+
+  // Mark a sender's messages in a conversation as read, up to a timestamp
+  async markReadUpTo(conversationId: string, senderId: string, upToCreatedAt: string, readAt: string) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      await db.runAsync(
+        `UPDATE messages
+         SET status = 'READ', data = json_set(data, '$.status', 'READ', '$.readAt', ?)
+         WHERE conversation_id = ? AND sender_id = ? AND created_at <= ? AND status != 'READ'`,
+        readAt, conversationId, senderId, upToCreatedAt
+      );
+    } catch (error) {
+      console.error('Failed to store read receipts:', error);
+    }
+  }
+
+  // Replace a message deleted for everyone with its tombstone
+  async markDeleted(event: MessageDeletedEvent) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const row = await db.getFirstAsync<MessageRow>('SELECT data FROM messages WHERE id = ?', event.messageId);
+      if (!row) return;
+
+      const tombstone = toTombstone(JSON.parse(row.data) as Message, event);
+      await db.runAsync('UPDATE messages SET data = ? WHERE id = ?', JSON.stringify(tombstone), event.messageId);
+    } catch (error) {
+      console.error('Failed to store deleted message:', error);
+    }
+  }
+
+  // Drop a message from local history (deleted for me)
+  async removeMessage(id: string) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      await db.runAsync('DELETE FROM messages WHERE id = ?', id);
+    } catch (error) {
+      console.error('Failed to remove stored message:', error);
+    }
+  }
+
+  // Delete disappearing messages whose time is up, then wait for the next one
+  async purgeExpired() {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const result = await db.runAsync(
+        `DELETE FROM messages
+         WHERE json_extract(data, '$.expiresAt') IS NOT NULL AND json_extract(data, '$.expiresAt') <= ?`,
+        new Date().toISOString()
+      );
+      if (result.changes > 0) {
+        console.log(`Purged ${result.changes} expired message(s)`);
+      }
+    } catch (error) {
+      console.error('Failed to purge expired messages:', error);
+    }
+
+    this.armExpiryTimer();
+  }
+
+  private async armExpiryTimer() {
+    this.clearExpiryTimer();
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const row = await db.getFirstAsync<{ next: string | null }>(
+        "SELECT MIN(json_extract(data, '$.expiresAt')) AS next FROM messages"
+      );
+      if (!row?.next || this.db !== db) return;
+
+      const delay = Math.min(Math.max(new Date(row.next).getTime() - Date.now(), 0), MAX_EXPIRY_TIMER_DELAY);
+      this.clearExpiryTimer();
+      this.expiryTimer = setTimeout(() => this.purgeExpired(), delay);
+    } catch (error) {
+      console.error('Failed to schedule message expiry:', error);
+    }
+  }
+
+  private clearExpiryTimer() {
+    if (this.expiryTimer) {
+      clearTimeout(this.expiryTimer);
+      this.expiryTimer = null;
+    }
+  }
+
+  async applyReaction(event: ReactionEvent, added: boolean) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const row = await db.getFirstAsync<MessageRow>('SELECT data FROM messages WHERE id = ?', event.messageId);
+      if (!row) return;
+
+      const updated = applyReaction(JSON.parse(row.data) as Message, event, added);
+      await db.runAsync('UPDATE messages SET data = ? WHERE id = ?', JSON.stringify(updated), event.messageId);
+    } catch (error) {
+      console.error('Failed to store reaction:', error);
+    }
+  }
+
+  async applyPin(event: MessagePinEvent, pinned: boolean) {
+    const db = await this.getDb();
+    if (!db) return;
+
+    try {
+      const row = await db.getFirstAsync<MessageRow>('SELECT data FROM messages WHERE id = ?', event.messageId);
+      if (!row) return;
+
+      const updated = applyPin(JSON.parse(row.data) as Message, event, pinned);
+      await db.runAsync('UPDATE messages SET data = ? WHERE id = ?', JSON.stringify(updated), event.messageId);
+    } catch (error) {
+      console.error('Failed to store pin:', error);
+    }
+  }
+
+  // Pinned messages of a conversation, most recently pinned first
+  async getPinned(conversationId: string): Promise<Message[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    try {
+      const rows = await db.getAllAsync<MessageRow>(
+        "SELECT data FROM messages WHERE conversation_id = ? AND json_extract(data, '$.pinnedAt') IS NOT NULL",
+        conversationId
+      );
+      return sortPins(rows.map(row => JSON.parse(row.data) as Message));
+    } catch (error) {
+      console.error('Failed to read pinned messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Newest page of a conversation (optionally before a cursor), returned in
+   * chronological order.
+   */
+  async getMessages(conversationId: string, options: PageOptions = {}): Promise<Message[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    const { before, limit = DEFAULT_PAGE_SIZE } = options;
+    try {
+      const rows = before
+        ? await db.getAllAsync<MessageRow>(
+          `SELECT data FROM messages WHERE conversation_id = ? AND created_at < ?
+           ORDER BY created_at DESC LIMIT ?`,
+          conversationId, before, limit
+        )
+        : await db.getAllAsync<MessageRow>(
+          `SELECT data FROM messages WHERE conversation_id = ?
+           ORDER BY created_at DESC LIMIT ?`,
+          conversationId, limit
+        );
+      return rows.map(row => JSON.parse(row.data) as Message).reverse();
+    } catch (error) {
+      console.error('Failed to read stored messages:', error);
+      return [];
+    }
+  }
+
+  // Everything stored for a conversation, oldest first
+  async getConversation(conversationId: string): Promise<Message[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    try {
+      const rows = await db.getAllAsync<MessageRow>(
+        'SELECT data FROM messages WHERE conversation_id = ? ORDER BY created_at ASC',
+        conversationId
+      );
+      return rows.map(row => JSON.parse(row.data) as Message);
+    } catch (error) {
+      console.error('Failed to read stored conversation:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Try again to open messages that arrived sealed with a key we didn't
+   * trust at the time. Resolves with the ones that changed.
+   */
+  async reopenSealed(conversationId: string): Promise<Message[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    try {
+      const rows = await db.getAllAsync<MessageRow>(
+        `SELECT data FROM messages WHERE conversation_id = ?
+          AND (json_extract(data, '$.sealedContent') IS NOT NULL
+            OR json_extract(data, '$.replyTo.sealedContent') IS NOT NULL)`,
+        conversationId
+      );
+      const reopened = rows
+        .map(row => JSON.parse(row.data) as Message)
+        .map(message => ({ before: message, after: decryptMessage(message) }))
+        .filter(({ before, after }) => after.content !== before.content || after.replyTo?.content !== before.replyTo?.content)
+        .map(({ after }) => after);
+      if (reopened.length > 0) {
+        await this.upsertMessages(reopened);
+      }
+      return reopened;
+    } catch (error) {
+      console.error('Failed to reopen sealed messages:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Case-insensitive substring search over message content, newest first.
+   * Deleted and view-once messages never match.
+   */
+  async search(query: string, filters: SearchFilters = {}): Promise<Message[]> {
+    const db = await this.getDb();
+    const term = query.trim();
+    if (!db || !term) return [];
+
+    const conditions = [
+      "json_extract(data, '$.content') LIKE ? ESCAPE '\\'",
+      "json_extract(data, '$.deletedAt') IS NULL",
+      "COALESCE(json_extract(data, '$.viewOnce'), 0) = 0",
+    ];
+    const params: (string | number)[] = [`%${escapeLike(term)}%`];
+
+    if (filters.conversationId) {
+      conditions.push('conversation_id = ?');
+      params.push(filters.conversationId);
+    }
+    if (filters.sender) {
+      conditions.push(filters.sender === 'me' ? 'sender_id != conversation_id' : 'sender_id = conversation_id');
+    }
+    if (filters.type) {
+      conditions.push("json_extract(data, '$.type') = ?");
+      params.push(filters.type);
+    }
+    if (filters.after) {
+      conditions.push('created_at >= ?');
+      params.push(filters.after);
+    }
+    if (filters.before) {
+      conditions.push('created_at < ?');
+      params.push(filters.before);
+    }
+    params.push(filters.limit ?? DEFAULT_SEARCH_LIMIT);
+
+    try {
+      const rows = await db.getAllAsync<MessageRow>(
+        `SELECT data FROM messages WHERE ${conditions.join(' AND ')}
+         ORDER BY created_at DESC LIMIT ?`,
+        ...params
+      );
+      return rows.map(row => JSON.parse(row.data) as Message);
+    } catch (error) {
+      console.error('Failed to search stored messages:', error);
+      return [];
+    }
+  }
+
+  // Last message and unread count for every stored conversation
+  async getConversations(): Promise<StoredConversation[]> {
+    const db = await this.getDb();
+    if (!db) return [];
+
+    try {
+      const latest = await db.getAllAsync<MessageRow & { conversation_id: string }>(
+        `SELECT m.conversation_id, m.data FROM messages m
+         JOIN (
+           SELECT conversation_id, MAX(created_at) AS latest FROM messages GROUP BY conversation_id
+         ) l ON m.conversation_id = l.conversation_id AND m.created_at = l.latest`
+      );
+      const unread = await db.getAllAsync<{ conversation_id: string; count: number }>(
+        `SELECT conversation_id, COUNT(*) AS count FROM messages
+         WHERE sender_id = conversation_id AND status != 'READ'
+         GROUP BY conversation_id`
+      );
+      const unreadById = new Map(unread.map(row => [row.conversation_id, row.count]));
+
+      return latest.map(row => ({
+        conversationId: row.conversation_id,
+        lastMessage: JSON.parse(row.data) as Message,
+        unreadCount: unreadById.get(row.conversation_id) || 0,
+      }));
+    } catch (error) {
+      console.error('Failed to read stored conversations:', error);
+      return [];
+    }
+  }
+
+  // Socket write-through
+  private handleNewMessage = (message: Message) => {
+    this.upsertMessages([message]);
+  };
+
+  private handleMessageRead = (data: MessageReadEvent) => {
+    this.updateMessage(data.messageId, { status: 'READ', readAt: data.readAt });
+  };
+
+  // The partner read our messages
+  private handleMessagesRead = (data: MessagesReadEvent) => {
+    if (!this.userId) return;
+    this.markReadUpTo(data.readBy, this.userId, data.upToCreatedAt, data.readAt);
+  };
+
+  private handleMessageEdited = (message: Message) => {
+    this.updateMessage(message.id, editChanges(message));
+  };
+
+  private handleMessageDeleted = (data: MessageDeletedEvent) => {
+    this.markDeleted(data);
+  };
+
+  private handleMessageExpired = (data: MessageExpiredEvent) => {
+    this.removeMessage(data.messageId);
+  };
+
+  private handleMessagePinned = (data: MessagePinEvent) => {
+    this.applyPin(data, true);
+  };
+
+  private handleMessageUnpinned = (data: MessagePinEvent) => {
+    this.applyPin(data, false);
+  };
+
+  private handleReactionAdded = (data: ReactionEvent) => {
+    this.applyReaction(data, true);
+  };
+
+  private handleReactionRemoved = (data: ReactionEvent) => {
+    this.applyReaction(data, false);
+  };
+
+  private handleOutboxDelivered = ({ message }: OutboxDeliveredEvent) => {
+    if (message) {
+      this.upsertMessages([message]);
+    }
+  };
+}
+
+// Export singleton instance
+export const messageStore = new MessageStore();
+export default messageStore;
@@ -0,0 +1,97 @@
+import { Message } from './schemas';
+
+/**
+ * Message Timeline
+ *
+ * Day separators and sender grouping for the chat list. Layout is worked
+ * out in one pass over the history so it stays cheap for long chats.
+ */
+
+// Consecutive messages from one sender this close together share a group
+export const GROUP_WINDOW_MS = 5 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface MessageLayout {
+  // Separator label to draw above this message when it is the first of its day
+  dayLabel: string | null;
+  // Continues the group of the message sent just before it
+  groupedWithPrevious: boolean;
+  // The next message continues this one's group
+  groupedWithNext: boolean;
+}
+
+type TimelineMessage = Pick<Message, 'id' | 'senderId' | 'createdAt'>;
+
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Milliseconds until the next local midnight, when "Today" labels go stale
+export const msUntilNextDay = (now: Date = new Date()): number =>
+  new Date(now.getFullYear(), now.getMonth(), now.getDate() + 1).getTime() - now.getTime();
+
+// "Today", "Yesterday", "Mon, 12 Feb", or with the year once it is not this year's
+export const formatDayLabel = (date: Date, now: Date = new Date()): string => {
+  // Rounded so a daylight saving change doesn't skew the day count
+  const daysAgo = Math.round((startOfDay(now) - startOfDay(date)) / DAY_MS);
+  if (daysAgo === 0) return 'Today';
+  if (daysAgo === 1) return 'Yesterday';
+
+  return date.toLocaleDateString([], {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    ...(date.getFullYear() !== now.getFullYear() && { year: 'numeric' }),
+  });
+};
+
+// Time of day shown under a message
+export const formatTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Full date and time for a tapped message
+export const formatExactTime = (timestamp: string): string =>
+  new Date(timestamp).toLocaleString([], {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * Layout for every message, keyed by id. `messages` must be in
+ * chronological order.
+ */
+export const layoutMessages = (
+  messages: TimelineMessage[],
+  now: Date = new Date()
+): Map<string, MessageLayout> => {
+  const layouts = new Map<string, MessageLayout>();
+  let previous: { message: TimelineMessage; time: number; day: number; layout: MessageLayout } | null = null;
+
+  for (const message of messages) {
+    const date = new Date(message.createdAt);
+    const time = date.getTime();
+    const day = startOfDay(date);
+    const startsDay = !previous || previous.day !== day;
+    const grouped = !startsDay &&
+      previous!.message.senderId === message.senderId &&
+      time - previous!.time <= GROUP_WINDOW_MS;
+
+    const layout: MessageLayout = {
+      dayLabel: startsDay ? formatDayLabel(date, now) : null,
+      groupedWithPrevious: grouped,
+      groupedWithNext: false,
+    };
+    if (grouped) {
+      previous!.layout.groupedWithNext = true;
+    }
+
+    layouts.set(message.id, layout);
+    previous = { message, time, day, layout };
+  }
+
+  return layouts;
+};
@@ -0,0 +1,404 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import apiService from './api';
+import websocketService, { viaSocketOrApi } from './websocket';
+import encryptionService, { EncryptionUnavailableError } from './encryption';
+import { Message, MessageType, SendMessageOptions } from './schemas';
+
+/**
+ * Chat Outbox
+ *
+ * Every outgoing chat message is written here first and only removed once
+ * the server has confirmed it. Items survive app restarts and are retried
+ * with exponential backoff until they are delivered or give up as failed.
+ * Attempts made while offline don't count, and failed items get another
+ * round once the connection is back.
+ */
+
+export type OutboxStatus = 'pending' | 'failed';
+
+// Local photo, video or voice note waiting to be uploaded before its message is sent
+export interface OutboxAttachment {
+  uri: string;
+  mimeType: string;
+  fileName: string;
+  width?: number;
+  height?: number;
+  duration?: number;
+  waveform?: number[];
+  // Set once the upload succeeded, so retries only resend the message
+  mediaId?: string;
+}
+
+export interface OutboxExtras {
+  replyToId?: string;
+  attachment?: OutboxAttachment;
+  // The attachment can be opened only once by the recipient
+  viewOnce?: boolean;
+}
+
+export interface OutboxItem {
+  clientId: string;
+  recipientId: string;
+  content: string;
+  type: MessageType;
+  replyToId?: string;
+  attachment?: OutboxAttachment;
+  viewOnce?: boolean;
+  createdAt: string;
+  attempts: number;
+  nextAttemptAt: number;
+  status: OutboxStatus;
+  // Why the item failed, when retrying won't help until the user does something
+  error?: string;
+}
+
+export interface OutboxDeliveredEvent {
+  clientId: string;
+  message?: Message;
+}
+
+export interface OutboxProgressEvent {
+  clientId: string;
+  // Upload progress between 0 and 1
+  progress: number;
+}
+
+type OutboxEventMap = {
+  changed: OutboxItem[];
+  delivered: OutboxDeliveredEvent;
+  progress: OutboxProgressEvent;
+};
+
+type OutboxListener<K extends keyof OutboxEventMap> = (data: OutboxEventMap[K]) => void;
+
+const STORAGE_KEY_PREFIX = 'chat_outbox';
+const MAX_ATTEMPTS = 5;
+const BASE_RETRY_DELAY = 2000;
+const MAX_RETRY_DELAY = 60000;
+
+export const generateClientId = (): string =>
+  `c_${Date.now().toString(36)}_${Math.random().toString(36).slice(2, 10)}`;
+
+class OutboxService {
+  private items: OutboxItem[] = [];
+  private userId: string | null = null;
+  private flushing = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners: { [K in keyof OutboxEventMap]: Set<OutboxListener<K>> } = {
+    changed: new Set(),
+    delivered: new Set(),
+    progress: new Set(),
+  };
+
+  /**
+   * Load the persisted outbox for a user and start delivering it.
+   */
+  async init(userId: string) {
+    if (this.userId === userId) {
+      this.flush();
+      return;
+    }
+
+    this.reset();
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      this.items = stored ? JSON.parse(stored) : [];
+      console.log(`Outbox loaded with ${this.items.length} item(s)`);
+    } catch (error) {
+      console.error('Failed to load outbox:', error);
+      this.items = [];
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    websocketService.on('connected', this.handleSocketConnected);
+
+    this.requeue();
+    this.notifyChanged();
+    this.flush();
+  }
+
+  reset() {
+    this.clearTimers();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    websocketService.off('connected', this.handleSocketConnected);
+    this.items = [];
+    this.userId = null;
+  }
+
+  getItems(recipientId?: string): OutboxItem[] {
+    return recipientId
+      ? this.items.filter(item => item.recipientId === recipientId)
+      : [...this.items];
+  }
+
+  async enqueue(
+    recipientId: string,
+    content: string,
+    type: MessageType = 'TEXT',
+    extras: OutboxExtras = {}
+  ): Promise<OutboxItem> {
+    const item: OutboxItem = {
+      clientId: generateClientId(),
+      recipientId,
+      content,
+      type,
+      ...extras,
+      createdAt: new Date().toISOString(),
+      attempts: 0,
+      nextAttemptAt: Date.now(),
+      status: 'pending',
+    };
+
+    this.items.push(item);
+    await this.persist();
+    this.notifyChanged();
+    this.flush();
+    return item;
+  }
+
+  async retry(clientId: string) {
+    const item = this.items.find(i => i.clientId === clientId);
+    if (!item) return;
+
+    item.status = 'pending';
+    item.error = undefined;
+    item.attempts = 0;
+    item.nextAttemptAt = Date.now();
+    await this.persist();
+    this.notifyChanged();
+    this.flush();
+  }
+
+  async discard(clientId: string) {
+    this.items = this.items.filter(i => i.clientId !== clientId);
+    await this.persist();
+    this.notifyChanged();
+  }
+
+  /**
+   * Match a server message against the outbox. Returns true when it was the
+   * echo of one of our pending items (e.g. the ack was lost to a timeout),
+   * which is then considered delivered.
+   */
+  acknowledge(message: Message): boolean {
+    if (message.senderId !== this.userId) return false;
+
+    // Prefer the client id round-tripped by the server; fall back to content
+    // matching for servers that do not echo it back.
+    const item = this.items.find(i => message.clientId && i.clientId === message.clientId)
+      || this.items.find(i =>
+        i.status === 'pending' &&
+        i.recipientId === message.recipientId &&
+        i.content === message.content
+      );
+
+    if (!item) return false;
+
+    this.markDelivered(item.clientId, message);
+    return true;
+  }
+
+  // Delivery loop
+  async flush() {
+    if (this.flushing || !this.userId) return;
+    this.flushing = true;
+
+    try {
+      const now = Date.now();
+      const due = this.items.filter(item =>
+        item.status === 'pending' && item.nextAttemptAt <= now
+      );
+
+      for (const item of due) {
+        await this.attempt(item);
+      }
+    } finally {
+      this.flushing = false;
+      this.scheduleNextFlush();
+    }
+  }
+
+  private async attempt(item: OutboxItem) {
+    item.attempts += 1;
+    console.log(`Delivering outbox item ${item.clientId} (attempt ${item.attempts}/${MAX_ATTEMPTS})`);
+
+    try {
+      if (item.attachment && !item.attachment.mediaId) {
+        await this.uploadAttachment(item, item.attachment);
+      }
+
+      // Stored in the clear on this device, encrypted only on the way out
+      const content = await encryptionService.encryptFor(item.recipientId, item.content);
+      const message = await viaSocketOrApi<Message | undefined>(
+        () => websocketService.sendMessage(item.recipientId, content, item.type, this.sendOptions(item)),
+        () => apiService.sendMessage(item.recipientId, content, item.type, this.sendOptions(item))
+      );
+      // The server's echo may have delivered it while the send was in flight
+      if (this.items.includes(item)) {
+        this.markDelivered(item.clientId, message);
+      }
+    } catch (error) {
+      console.error(`Failed to deliver outbox item ${item.clientId}:`, error instanceof Error ? error.message : error);
+      if (error instanceof EncryptionUnavailableError) {
+        // Never falls back to plaintext; waits for the user instead of retrying
+        item.attempts = MAX_ATTEMPTS;
+        item.error = error.message;
+      }
+      this.scheduleRetry(item, !item.error && !websocketService.connected);
+    }
+  }
+
+  private async uploadAttachment(item: OutboxItem, attachment: OutboxAttachment) {
+    const media = await apiService.uploadMedia(
+      { uri: attachment.uri, name: attachment.fileName, type: attachment.mimeType },
+      {
+        onProgress: progress => this.emit('progress', { clientId: item.clientId, progress }),
+        waveform: attachment.waveform,
+      }
+    );
+    console.log(`Uploaded attachment for outbox item ${item.clientId}`);
+    attachment.mediaId = media.id;
+    await this.persist();
+  }
+
+  private sendOptions(item: OutboxItem): SendMessageOptions {
+    return {
+      clientId: item.clientId,
+      replyToId: item.replyToId,
+      mediaId: item.attachment?.mediaId,
+      viewOnce: item.viewOnce,
+    };
+  }
+
+  private scheduleRetry(item: OutboxItem, offline = false) {
+    if (!this.items.includes(item)) return;
+
+    if (offline) {
+      // Doesn't count against the item; reconnecting flushes it right away
+      item.attempts -= 1;
+      item.nextAttemptAt = Date.now() + MAX_RETRY_DELAY;
+    } else if (item.attempts >= MAX_ATTEMPTS) {
+      item.status = 'failed';
+      console.log(`Outbox item ${item.clientId} failed after ${item.attempts} attempts`);
+    } else {
+      const delay = Math.min(BASE_RETRY_DELAY * 2 ** (item.attempts - 1), MAX_RETRY_DELAY);
+      item.nextAttemptAt = Date.now() + delay;
+    }
+
+    this.persist();
+    this.notifyChanged();
+    this.scheduleNextFlush();
+  }
+
+  private markDelivered(clientId: string, message?: Message) {
+    this.items = this.items.filter(i => i.clientId !== clientId);
+    this.persist();
+    this.notifyChanged();
+    this.emit('delivered', { clientId, message });
+  }
+
+  private scheduleNextFlush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+
+    const pending = this.items.filter(i => i.status === 'pending');
+    if (pending.length === 0) return;
+
+    const next = Math.min(...pending.map(i => i.nextAttemptAt));
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.flush();
+    }, Math.max(next - Date.now(), 0));
+  }
+
+  /**
+   * Give items another round once the connection may be back: backed-off
+   * items become due and failed ones start over. Items waiting for the user
+   * (see `error`) stay failed.
+   */
+  private requeue() {
+    const now = Date.now();
+    let changed = false;
+
+    for (const item of this.items) {
+      if (item.error) continue;
+      if (item.status === 'failed') {
+        item.status = 'pending';
+        item.attempts = 0;
+        changed = true;
+      }
+      item.nextAttemptAt = Math.min(item.nextAttemptAt, now);
+    }
+
+    if (changed) {
+      this.persist();
+      this.notifyChanged();
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.requeue();
+      this.flush();
+    }
+  };
+
+  private handleSocketConnected = () => {
+    this.requeue();
+    this.flush();
+  };
+
+  private clearTimers() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private get storageKey(): string {
+    return `${STORAGE_KEY_PREFIX}:${this.userId}`;
+  }
+
+  private async persist() {
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.items));
+    } catch (error) {
+      console.error('Failed to persist outbox:', error);
+    }
+  }
+
+  // Event management
+  on<K extends keyof OutboxEventMap>(event: K, listener: OutboxListener<K>) {
+    this.listeners[event].add(listener);
+  }
+
+  off<K extends keyof OutboxEventMap>(event: K, listener: OutboxListener<K>) {
+    this.listeners[event].delete(listener);
+  }
+
+  private emit<K extends keyof OutboxEventMap>(event: K, data: OutboxEventMap[K]) {
+    this.listeners[event].forEach(listener => {
+      try {
+        listener(data);
+      } catch (error) {
+        console.error(`Error in outbox listener for ${event}:`, error);
+      }
+    });
+  }
+
+  private notifyChanged() {
+    this.emit('changed', this.getItems());
+  }
+}
+
+// Export singleton instance
+export const outboxService = new OutboxService();
+export default outboxService;
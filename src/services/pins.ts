@@ -0,0 +1,36 @@
+import apiService from './api';
+import websocketService, { MessagePinEvent, viaSocketOrApi } from './websocket';
+import { Message } from './schemas';
+
+/**
+ * Pinned Messages
+ *
+ * Pins are shared by the couple: either partner can pin a message to the
+ * top of their chat and both see it. Helpers here apply pin events to
+ * messages (for the chat screen and the local store) and deliver our own
+ * pins over the socket with a REST fallback.
+ */
+
+// Enough for an address, a date and a promise without crowding the banner
+export const MAX_PINS = 5;
+
+// Our own pin comes back as a broadcast too; applying it again changes nothing
+export const applyPin = <T extends Message>(message: T, event: MessagePinEvent, pinned: boolean): T => ({
+  ...message,
+  pinnedAt: pinned ? message.pinnedAt || event.pinnedAt || new Date().toISOString() : null,
+  pinnedBy: pinned ? event.userId : null,
+});
+
+// Pins still worth showing, most recently pinned first
+export const sortPins = <T extends Message>(messages: T[]): T[] =>
+  messages
+    .filter(message => message.pinnedAt && !message.deletedAt)
+    .sort((a, b) => (b.pinnedAt || '').localeCompare(a.pinnedAt || ''));
+
+// Pin or unpin on the server
+export const sendPin = async (messageId: string, pinned: boolean): Promise<void> => {
+  await viaSocketOrApi<unknown>(
+    () => (pinned ? websocketService.pinMessage(messageId) : websocketService.unpinMessage(messageId)),
+    () => (pinned ? apiService.pinMessage(messageId) : apiService.unpinMessage(messageId))
+  );
+};
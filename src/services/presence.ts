@@ -0,0 +1,32 @@
+import { UserPresence } from './websocket';
+
+/**
+ * Presence
+ *
+ * Display helpers for the online/last-seen/typing state tracked by
+ * WebSocketService.
+ */
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+// How often screens showing "last seen" should re-render
+export const LAST_SEEN_REFRESH_MS = MINUTE;
+
+// "just now", "5 min ago", "3 h ago", "yesterday", or a date
+export const formatLastSeen = (lastSeenAt: string, now: number = Date.now()): string => {
+  const elapsed = Math.max(now - new Date(lastSeenAt).getTime(), 0);
+
+  if (elapsed < MINUTE) return 'just now';
+  if (elapsed < HOUR) return `${Math.floor(elapsed / MINUTE)} min ago`;
+  if (elapsed < DAY) return `${Math.floor(elapsed / HOUR)} h ago`;
+  if (elapsed < 2 * DAY) return 'yesterday';
+  return new Date(lastSeenAt).toLocaleDateString();
+};
+
+export const presenceLabel = (presence: UserPresence): string => {
+  if (presence.online) return 'Online';
+  if (presence.lastSeenAt) return `last seen ${formatLastSeen(presence.lastSeenAt)}`;
+  return 'Offline';
+};
@@ -0,0 +1,59 @@
+import apiService from './api';
+import websocketService, { ReactionEvent, viaSocketOrApi } from './websocket';
+import { Message, Reaction } from './schemas';
+
+/**
+ * Message Reactions
+ *
+ * Helpers shared by the chat screen and the local store for applying
+ * reaction events to messages, plus socket-first delivery of our own
+ * reactions with a REST fallback.
+ */
+
+export const REACTION_EMOJIS = ['💖', '😍', '😂', '😮', '😢', '🙏'];
+
+export interface ReactionSummary {
+  emoji: string;
+  count: number;
+  reactedByMe: boolean;
+}
+
+/**
+ * Apply a reaction added/removed event to a message. Idempotent, so the
+ * optimistic local update and the server broadcast can both be applied.
+ */
+export const applyReaction = <T extends Message>(message: T, event: ReactionEvent, added: boolean): T => {
+  const others = (message.reactions || []).filter(r =>
+    !(r.userId === event.userId && r.emoji === event.emoji)
+  );
+  const reactions: Reaction[] = added
+    ? [...others, { emoji: event.emoji, userId: event.userId, createdAt: event.createdAt }]
+    : others;
+
+  return { ...message, reactions };
+};
+
+// Group reactions by emoji in the order each emoji was first used
+export const summarizeReactions = (reactions: Reaction[] | undefined, userId?: string): ReactionSummary[] => {
+  const byEmoji = new Map<string, ReactionSummary>();
+
+  (reactions || []).forEach(reaction => {
+    const summary = byEmoji.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, reactedByMe: false };
+    summary.count += 1;
+    summary.reactedByMe = summary.reactedByMe || reaction.userId === userId;
+    byEmoji.set(reaction.emoji, summary);
+  });
+
+  return Array.from(byEmoji.values());
+};
+
+export const hasReacted = (message: Message, emoji: string, userId?: string): boolean =>
+  !!message.reactions?.some(r => r.emoji === emoji && r.userId === userId);
+
+// Add or remove our reaction on the server
+export const sendReaction = async (messageId: string, emoji: string, add: boolean): Promise<void> => {
+  await viaSocketOrApi<unknown>(
+    () => (add ? websocketService.addReaction(messageId, emoji) : websocketService.removeReaction(messageId, emoji)),
+    () => (add ? apiService.addReaction(messageId, emoji) : apiService.removeReaction(messageId, emoji))
+  );
+};
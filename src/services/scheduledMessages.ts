@@ -0,0 +1,269 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import axios from 'axios';
+import { AppState, AppStateStatus, NativeEventSubscription } from 'react-native';
+import apiService from './api';
+import outboxService from './outbox';
+import encryptionService, { EncryptionUnavailableError } from './encryption';
+import { MessageType, ScheduledMessage, UpdateScheduledMessageRequest } from './schemas';
+
+/**
+ * Scheduled Messages
+ *
+ * Messages to send later. The server holds them and sends them at the
+ * chosen time; when it can't (no scheduling support, or we are offline)
+ * they are kept on this device and handed to the outbox once due, which
+ * happens while the app is open or the next time it comes to the foreground.
+ */
+
+export interface ScheduledItem extends ScheduledMessage {
+  // Held on this device rather than by the server
+  local?: boolean;
+}
+
+type ScheduledListener = (items: ScheduledItem[]) => void;
+
+const STORAGE_KEY_PREFIX = 'chat_scheduled';
+// Responses meaning the server has no scheduling endpoint
+const UNSUPPORTED_STATUSES = [404, 405, 501];
+// setTimeout overflows past ~24.8 days; re-arm at least this often
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+const isUnsupported = (error: unknown): boolean =>
+  axios.isAxiosError(error) && UNSUPPORTED_STATUSES.includes(error.response?.status ?? 0);
+
+const generateLocalId = () =>
+  `local-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+class ScheduledMessageService {
+  private userId: string | null = null;
+  private serverItems: ScheduledItem[] = [];
+  private localItems: ScheduledItem[] = [];
+  // Unknown until the first request; false once the server turned scheduling down
+  private serverSupported: boolean | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private appStateSubscription: NativeEventSubscription | null = null;
+  private listeners = new Set<ScheduledListener>();
+
+  async init(userId: string) {
+    if (this.userId === userId) return;
+
+    this.reset();
+    this.userId = userId;
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      this.localItems = stored ? JSON.parse(stored) : [];
+    } catch (error) {
+      console.error('Failed to load scheduled messages:', error);
+    }
+
+    this.appStateSubscription = AppState.addEventListener('change', this.handleAppStateChange);
+    this.notify();
+    this.sendDue();
+  }
+
+  reset() {
+    this.clearTimer();
+    this.appStateSubscription?.remove();
+    this.appStateSubscription = null;
+    this.userId = null;
+    this.serverItems = [];
+    this.localItems = [];
+    this.serverSupported = null;
+  }
+
+  // Everything waiting to be sent to a recipient, soonest first
+  getItems(recipientId: string): ScheduledItem[] {
+    const now = new Date().toISOString();
+    return [...this.serverItems, ...this.localItems]
+      // Server items past their time have been sent; the next refresh drops them
+      .filter(item => item.recipientId === recipientId && (item.local || item.sendAt > now))
+      .sort((a, b) => a.sendAt.localeCompare(b.sendAt));
+  }
+
+  // Reload the server's list for a recipient
+  async refresh(recipientId: string) {
+    if (this.serverSupported === false) return;
+
+    try {
+      const items = await apiService.getScheduledMessages(recipientId);
+      this.serverSupported = true;
+      this.serverItems = [
+        ...this.serverItems.filter(item => item.recipientId !== recipientId),
+        ...items,
+      ];
+      this.notify();
+    } catch (error) {
+      if (isUnsupported(error)) {
+        this.serverSupported = false;
+      } else {
+        console.error('Failed to load scheduled messages:', error);
+      }
+    }
+  }
+
+  async schedule(
+    recipientId: string,
+    content: string,
+    sendAt: Date,
+    options: { type?: MessageType; replyToId?: string } = {}
+  ): Promise<ScheduledItem> {
+    const request = {
+      recipientId,
+      content,
+      type: options.type || 'TEXT',
+      sendAt: sendAt.toISOString(),
+      replyToId: options.replyToId,
+    };
+
+    if (this.serverSupported !== false) {
+      try {
+        // The server holds it until it's due, so it only ever sees ciphertext
+        const scheduled = await apiService.scheduleMessage({
+          ...request,
+          content: await encryptionService.encryptFor(recipientId, content),
+        });
+        this.serverSupported = true;
+        this.serverItems = [...this.serverItems, scheduled];
+        this.notify();
+        return scheduled;
+      } catch (error: unknown) {
+        // Offline or unsupported: fall back to sending from this device
+        if (isUnsupported(error)) {
+          this.serverSupported = false;
+        } else if ((axios.isAxiosError(error) && error.response) || error instanceof EncryptionUnavailableError) {
+          throw error;
+        }
+      }
+    }
+
+    const item: ScheduledItem = {
+      ...request,
+      id: generateLocalId(),
+      createdAt: new Date().toISOString(),
+      local: true,
+    };
+    this.localItems = [...this.localItems, item];
+    await this.persist();
+    this.notify();
+    this.armTimer();
+    return item;
+  }
+
+  async update(item: ScheduledItem, changes: UpdateScheduledMessageRequest): Promise<ScheduledItem> {
+    if (item.local) {
+      const updated = { ...item, ...changes };
+      this.localItems = this.localItems.map(i => i.id === item.id ? updated : i);
+      await this.persist();
+      this.notify();
+      this.armTimer();
+      return updated;
+    }
+
+    const updated = await apiService.updateScheduledMessage(item.id, {
+      ...changes,
+      ...(changes.content && { content: await encryptionService.encryptFor(item.recipientId, changes.content) }),
+    });
+    this.serverItems = this.serverItems.map(i => i.id === item.id ? updated : i);
+    this.notify();
+    return updated;
+  }
+
+  async cancel(item: ScheduledItem) {
+    if (item.local) {
+      this.localItems = this.localItems.filter(i => i.id !== item.id);
+      await this.persist();
+      this.notify();
+      this.armTimer();
+      return;
+    }
+
+    await apiService.cancelScheduledMessage(item.id);
+    this.serverItems = this.serverItems.filter(i => i.id !== item.id);
+    this.notify();
+  }
+
+  // Hand every due local item to the outbox, which takes care of delivery
+  private async sendDue() {
+    this.clearTimer();
+    if (!this.userId || AppState.currentState !== 'active') return;
+
+    const now = new Date().toISOString();
+    const due = this.localItems.filter(item => item.sendAt <= now);
+    if (due.length > 0) {
+      this.localItems = this.localItems.filter(item => item.sendAt > now);
+      await this.persist();
+      this.notify();
+
+      for (const item of due) {
+        await outboxService.enqueue(item.recipientId, item.content, item.type, {
+          replyToId: item.replyToId ?? undefined,
+        });
+      }
+    }
+
+    this.armTimer();
+  }
+
+  // Wake up for the next local item while the app stays open
+  private armTimer() {
+    this.clearTimer();
+    if (!this.userId || this.localItems.length === 0) return;
+
+    const next = Math.min(...this.localItems.map(item => new Date(item.sendAt).getTime()));
+    const delay = Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_DELAY);
+    this.timer = setTimeout(() => this.sendDue(), delay);
+  }
+
+  private clearTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private handleAppStateChange = (state: AppStateStatus) => {
+    if (state === 'active') {
+      this.sendDue();
+    } else {
+      this.clearTimer();
+    }
+  };
+
+  private get storageKey(): string {
+    return `${STORAGE_KEY_PREFIX}:${this.userId}`;
+  }
+
+  private async persist() {
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.localItems));
+    } catch (error) {
+      console.error('Failed to persist scheduled messages:', error);
+    }
+  }
+
+  // Event management
+  on(listener: ScheduledListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: ScheduledListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    const items = [...this.serverItems, ...this.localItems];
+    this.listeners.forEach(listener => {
+      try {
+        listener(items);
+      } catch (error) {
+        console.error('Error in scheduled messages listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const scheduledMessages = new ScheduledMessageService();
+export default scheduledMessages;
@@ -0,0 +1,263 @@
+import { z } from 'zod';
+
+/**
+ * API Contract Schemas
+ *
+ * Request/response DTOs for the REST API. Every response is parsed through
+ * these schemas, so a backend contract change surfaces as an ApiContractError
+ * instead of `undefined` values deep inside a screen.
+ */
+
+// Users
+export const UserSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  fullName: z.string().nullish(),
+  avatarUrl: z.string().nullish(),
+  role: z.string().optional(),
+  lastSeenAt: z.string().nullish(),
+}).passthrough();
+
+export const UserListSchema = z.array(UserSchema);
+
+export const UpdateUserRequestSchema = z.object({
+  fullName: z.string().optional(),
+  avatarUrl: z.string().optional(),
+});
+
+// Public key of one of a user's devices; every device has its own keypair
+export const DeviceKeySchema = z.object({
+  userId: z.string(),
+  deviceId: z.string(),
+  publicKey: z.string(),
+  updatedAt: z.string().nullish(),
+});
+
+export const DeviceKeyListSchema = z.array(DeviceKeySchema);
+
+// Auth
+export const AuthResponseSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().optional(),
+  user: UserSchema,
+}).passthrough();
+
+export const RefreshTokenResponseSchema = z.object({
+  access_token: z.string(),
+  refresh_token: z.string().optional(),
+}).passthrough();
+
+// Messages
+export const MessageTypeSchema = z.enum(['TEXT', 'IMAGE', 'VIDEO', 'VOICE', 'EMOJI']);
+
+export const MessageStatusSchema = z.enum(['SENT', 'DELIVERED', 'READ']);
+
+export const ReactionSchema = z.object({
+  emoji: z.string(),
+  userId: z.string(),
+  createdAt: z.string().optional(),
+}).passthrough();
+
+// Uploaded photo, video or voice note attached to an IMAGE, VIDEO or VOICE message
+export const MediaSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  thumbnailUrl: z.string().nullish(),
+  mimeType: z.string(),
+  width: z.number().nullish(),
+  height: z.number().nullish(),
+  // Milliseconds, for videos and voice notes
+  duration: z.number().nullish(),
+  // Voice note amplitude samples, normalized to 0-1
+  waveform: z.array(z.number()).nullish(),
+}).passthrough();
+
+// Snapshot of the replied-to message, embedded by the server so the quote
+// renders even when the original is not loaded
+export const ReplyPreviewSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  senderId: z.string(),
+  type: MessageTypeSchema.optional(),
+  // Lets a tap on the quote page straight back to the original
+  createdAt: z.string().optional(),
+  // Local only: the envelope of a quote that couldn't be opened on this device
+  sealedContent: z.string().nullish(),
+}).passthrough();
+
+export const MessageSchema = z.object({
+  id: z.string(),
+  content: z.string(),
+  senderId: z.string(),
+  recipientId: z.string(),
+  createdAt: z.string(),
+  sender: UserSchema,
+  recipient: UserSchema,
+  type: MessageTypeSchema,
+  status: MessageStatusSchema,
+  readAt: z.string().nullish(),
+  clientId: z.string().nullish(),
+  reactions: z.array(ReactionSchema).optional(),
+  replyToId: z.string().nullish(),
+  replyTo: ReplyPreviewSchema.nullish(),
+  media: MediaSchema.nullish(),
+  editedAt: z.string().nullish(),
+  // Set when the sender deleted the message for everyone; content is blanked
+  deletedAt: z.string().nullish(),
+  // Disappearing messages are purged everywhere once this passes
+  expiresAt: z.string().nullish(),
+  // Media the recipient can open only once
+  viewOnce: z.boolean().nullish(),
+  // Pinned to the top of the conversation for both partners
+  pinnedAt: z.string().nullish(),
+  pinnedBy: z.string().nullish(),
+  // Local only: the envelope of content that couldn't be opened or verified
+  // on this device, kept to try again once the sender's keys are trusted
+  sealedContent: z.string().nullish(),
+}).passthrough();
+
+export const MessageListSchema = z.array(MessageSchema);
+
+export const SendMessageRequestSchema = z.object({
+  recipientId: z.string(),
+  content: z.string(),
+  type: MessageTypeSchema,
+  clientId: z.string().optional(),
+  replyToId: z.string().optional(),
+  mediaId: z.string().optional(),
+  viewOnce: z.boolean().optional(),
+});
+
+export const EditMessageRequestSchema = z.object({
+  content: z.string(),
+});
+
+export const DeleteScopeSchema = z.enum(['everyone', 'me']);
+
+// Unfurled summary of a web page linked in a message
+export const LinkPreviewSchema = z.object({
+  url: z.string(),
+  title: z.string().nullish(),
+  description: z.string().nullish(),
+  imageUrl: z.string().nullish(),
+  siteName: z.string().nullish(),
+});
+
+// Settings the couple shares for their conversation
+export const ConversationSettingsSchema = z.object({
+  partnerId: z.string(),
+  // Seconds after sending that new messages disappear; null keeps them
+  disappearAfter: z.number().nullable(),
+  updatedAt: z.string().nullish(),
+});
+
+export const UpdateConversationSettingsRequestSchema = z.object({
+  disappearAfter: z.number().nullable(),
+});
+
+// Message held back by the server until `sendAt`
+export const ScheduledMessageSchema = z.object({
+  id: z.string(),
+  recipientId: z.string(),
+  content: z.string(),
+  type: MessageTypeSchema,
+  sendAt: z.string(),
+  createdAt: z.string(),
+  replyToId: z.string().nullish(),
+}).passthrough();
+
+export const ScheduledMessageListSchema = z.array(ScheduledMessageSchema);
+
+export const ScheduleMessageRequestSchema = z.object({
+  recipientId: z.string(),
+  content: z.string(),
+  type: MessageTypeSchema,
+  sendAt: z.string(),
+  replyToId: z.string().optional(),
+});
+
+export const UpdateScheduledMessageRequestSchema = z.object({
+  content: z.string().optional(),
+  sendAt: z.string().optional(),
+});
+
+// Photos
+export const PhotoSchema = z.object({
+  id: z.string(),
+  url: z.string(),
+  caption: z.string().nullish(),
+  uploadedById: z.string().optional(),
+  createdAt: z.string(),
+}).passthrough();
+
+export const PhotoListSchema = z.array(PhotoSchema);
+
+// Video calls
+export const VideoCallStatusSchema = z.enum(['INITIATED', 'RINGING', 'ACTIVE', 'ENDED', 'MISSED', 'DECLINED']);
+
+export const VideoCallSchema = z.object({
+  id: z.string(),
+  callerId: z.string(),
+  calleeId: z.string(),
+  status: VideoCallStatusSchema,
+  startedAt: z.string().nullish(),
+  endedAt: z.string().nullish(),
+  duration: z.number().nullish(),
+  createdAt: z.string(),
+}).passthrough();
+
+export const VideoCallListSchema = z.array(VideoCallSchema);
+
+// Proposals
+export const ProposalStatusSchema = z.enum(['PENDING', 'ACCEPTED', 'DECLINED']);
+
+export const ProposalSchema = z.object({
+  id: z.string(),
+  proposerId: z.string(),
+  recipientId: z.string().nullish(),
+  title: z.string(),
+  message: z.string(),
+  status: ProposalStatusSchema,
+  scheduledFor: z.string().nullish(),
+  respondedAt: z.string().nullish(),
+  createdAt: z.string(),
+}).passthrough();
+
+export const ProposalListSchema = z.array(ProposalSchema);
+
+export const CreateProposalRequestSchema = z.object({
+  recipientId: z.string().optional(),
+  title: z.string(),
+  message: z.string(),
+  scheduledFor: z.string().optional(),
+});
+
+// Inferred DTO types
+export type User = z.infer<typeof UserSchema>;
+export type UpdateUserRequest = z.infer<typeof UpdateUserRequestSchema>;
+export type DeviceKey = z.infer<typeof DeviceKeySchema>;
+export type AuthResponse = z.infer<typeof AuthResponseSchema>;
+export type RefreshTokenResponse = z.infer<typeof RefreshTokenResponseSchema>;
+export type MessageType = z.infer<typeof MessageTypeSchema>;
+export type MessageStatus = z.infer<typeof MessageStatusSchema>;
+export type Reaction = z.infer<typeof ReactionSchema>;
+export type Media = z.infer<typeof MediaSchema>;
+export type ReplyPreview = z.infer<typeof ReplyPreviewSchema>;
+export type Message = z.infer<typeof MessageSchema>;
+export type SendMessageRequest = z.infer<typeof SendMessageRequestSchema>;
+export type EditMessageRequest = z.infer<typeof EditMessageRequestSchema>;
+export type DeleteScope = z.infer<typeof DeleteScopeSchema>;
+export type LinkPreview = z.infer<typeof LinkPreviewSchema>;
+export type ConversationSettings = z.infer<typeof ConversationSettingsSchema>;
+export type UpdateConversationSettingsRequest = z.infer<typeof UpdateConversationSettingsRequestSchema>;
+export type ScheduledMessage = z.infer<typeof ScheduledMessageSchema>;
+export type ScheduleMessageRequest = z.infer<typeof ScheduleMessageRequestSchema>;
+export type UpdateScheduledMessageRequest = z.infer<typeof UpdateScheduledMessageRequestSchema>;
+// Optional extras carried alongside a message's recipient, content and type
+export type SendMessageOptions = Omit<SendMessageRequest, 'recipientId' | 'content' | 'type'>;
+export type Photo = z.infer<typeof PhotoSchema>;
+export type VideoCallStatus = z.infer<typeof VideoCallStatusSchema>;
+export type VideoCall = z.infer<typeof VideoCallSchema>;
+export type ProposalStatus = z.infer<typeof ProposalStatusSchema>;
+export type Proposal = z.infer<typeof ProposalSchema>;
+export type CreateProposalRequest = z.infer<typeof CreateProposalRequestSchema>;
@@ -0,0 +1,268 @@
+import { ConversationSettings, Message, MessageType, SendMessageOptions, User } from './schemas';
+
+/**
+ * WebSocket Event Map
+ *
+ * Single source of truth for every event exchanged with the chat gateway.
+ * WebSocketService types `on`/`off`/`request` against these maps, so a
+ * misspelled or unbridged event name is a compile error.
+ */
+
+// Payloads
+export interface TypingEvent {
+  userId: string;
+  user: User;
+  isTyping: boolean;
+}
+
+export interface MessageReadEvent {
+  messageId: string;
+  readBy: string;
+  readAt: string;
+}
+
+// Everything the reader received from the other participant up to and
+// including `upToMessageId` has been read
+export interface MessagesReadEvent {
+  readBy: string;
+  upToMessageId: string;
+  upToCreatedAt: string;
+  readAt: string;
+}
+
+export interface RoomEvent {
+  roomId: string;
+  recipientId: string;
+}
+
+export interface UserJoinedRoomEvent {
+  userId: string;
+  user: User;
+  roomId: string;
+}
+
+export interface UserOnlineEvent {
+  userId: string;
+  user: User;
+}
+
+export interface UserOfflineEvent {
+  userId: string;
+  lastSeenAt?: string;
+}
+
+export interface ActiveUser {
+  id: string;
+  fullName: string;
+  email: string;
+  avatarUrl?: string;
+  connectedAt: string;
+  socketId: string;
+}
+
+export interface ActiveUsersEvent {
+  activeUsers: ActiveUser[];
+}
+
+// What WebSocketService currently knows about another user
+export interface UserPresence {
+  userId: string;
+  online: boolean;
+  // When the user was last connected; null until the server tells us
+  lastSeenAt: string | null;
+  typing: boolean;
+}
+
+export interface ChatInvitation {
+  id: string;
+  senderId: string;
+  recipientId: string;
+  message: string;
+  createdAt: string;
+  status: 'PENDING' | 'ACCEPTED' | 'REJECTED';
+  sender: {
+    id: string;
+    fullName: string;
+    email: string;
+    avatarUrl?: string;
+  };
+}
+
+export interface ChatInvitationSentAck {
+  invitationId: string;
+  recipientId: string;
+}
+
+export interface ChatInvitationAcceptedAck {
+  invitationId: string;
+  roomId: string;
+}
+
+export interface ChatInvitationRejectedAck {
+  invitationId: string;
+}
+
+export interface MessageDeletedEvent {
+  messageId: string;
+  deletedAt: string;
+  deletedBy?: string;
+}
+
+// A disappearing message ran out, or a view-once message was opened
+export interface MessageExpiredEvent {
+  messageId: string;
+  expiredAt: string;
+}
+
+export interface MessagePinEvent {
+  messageId: string;
+  // Who pinned or unpinned the message
+  userId: string;
+  pinnedAt?: string;
+}
+
+export interface ReactionEvent {
+  messageId: string;
+  userId: string;
+  emoji: string;
+  createdAt?: string;
+}
+
+export interface ReactionPayload {
+  messageId: string;
+  emoji: string;
+}
+
+export interface SocketErrorEvent {
+  message: string;
+  [key: string]: unknown;
+}
+
+export interface SendMessagePayload extends SendMessageOptions {
+  recipientId: string;
+  content: string;
+  type: MessageType;
+}
+
+// Events pushed by the server
+export interface ServerToClientEvents {
+  new_message: (message: Message) => void;
+  message_read: (data: MessageReadEvent) => void;
+  messages_read: (data: MessagesReadEvent) => void;
+  message_edited: (message: Message) => void;
+  message_deleted: (data: MessageDeletedEvent) => void;
+  message_expired: (data: MessageExpiredEvent) => void;
+  message_pinned: (data: MessagePinEvent) => void;
+  message_unpinned: (data: MessagePinEvent) => void;
+  conversation_settings_updated: (settings: ConversationSettings) => void;
+  reaction_added: (data: ReactionEvent) => void;
+  reaction_removed: (data: ReactionEvent) => void;
+  room_joined: (data: RoomEvent) => void;
+  room_left: (data: RoomEvent) => void;
+  user_joined_room: (data: UserJoinedRoomEvent) => void;
+  user_typing: (data: TypingEvent) => void;
+  user_online: (data: UserOnlineEvent) => void;
+  user_offline: (data: UserOfflineEvent) => void;
+  active_users_list: (data: ActiveUsersEvent) => void;
+  active_users_updated: (data: ActiveUsersEvent) => void;
+  chat_invitation_received: (invitation: ChatInvitation) => void;
+  chat_invitation_sent: (data: ChatInvitationSentAck) => void;
+  chat_invitation_accepted: (data: ChatInvitationAcceptedAck) => void;
+  chat_invitation_rejected: (data: ChatInvitationRejectedAck) => void;
+  error: (error: SocketErrorEvent) => void;
+}
+
+// Acknowledged client emits: payload sent and result the server confirms with
+export interface ClientRequests {
+  send_message: { payload: SendMessagePayload; response: Message };
+  edit_message: { payload: { messageId: string; content: string }; response: Message };
+  delete_message: { payload: { messageId: string }; response: MessageDeletedEvent };
+  expire_message: { payload: { messageId: string }; response: MessageExpiredEvent };
+  pin_message: { payload: { messageId: string }; response: MessagePinEvent };
+  unpin_message: { payload: { messageId: string }; response: MessagePinEvent };
+  add_reaction: { payload: ReactionPayload; response: ReactionEvent };
+  remove_reaction: { payload: ReactionPayload; response: ReactionEvent };
+  send_chat_invitation: { payload: { recipientId: string; message: string }; response: ChatInvitationSentAck };
+  accept_chat_invitation: { payload: { invitationId: string }; response: ChatInvitationAcceptedAck };
+  reject_chat_invitation: { payload: { invitationId: string }; response: ChatInvitationRejectedAck };
+}
+
+export interface SocketAckEnvelope<T> {
+  success: boolean;
+  data?: T;
+  error?: string | { message: string };
+  message?: string;
+}
+
+// Servers may answer with a bare payload or a `{ success, data, error }` envelope
+export type SocketAck<T> = T | SocketAckEnvelope<T>;
+
+export const isAckEnvelope = <T extends object>(response: SocketAck<T>): response is SocketAckEnvelope<T> =>
+  typeof response === 'object' && response !== null && ('success' in response || 'error' in response);
+
+// Fire-and-forget client emits
+export interface ClientNotifications {
+  join_room: (payload: { recipientId: string }) => void;
+  leave_room: (payload: { recipientId: string }) => void;
+  mark_message_read: (payload: { messageId: string }) => void;
+  mark_messages_read: (payload: { partnerId: string; upToMessageId: string }) => void;
+  typing: (payload: { recipientId: string; isTyping: boolean }) => void;
+  get_active_users: () => void;
+  authenticate: (payload: { token: string }) => void;
+}
+
+export type ClientToServerEvents = ClientNotifications & {
+  [E in keyof ClientRequests]: (
+    payload: ClientRequests[E]['payload'],
+    ack: (response: SocketAck<ClientRequests[E]['response']>) => void
+  ) => void;
+};
+
+// Events raised by WebSocketService itself about the connection
+export interface ServiceEvents {
+  connected: (data: { userId: string | null }) => void;
+  disconnected: (data: { reason: string }) => void;
+  // Fired after a dropped connection comes back and rooms were re-joined
+  reconnected: (data: { rooms: string[] }) => void;
+  // A user's online, last-seen or typing state changed
+  presence_changed: (data: UserPresence) => void;
+}
+
+export type WebSocketEvents = ServerToClientEvents & ServiceEvents;
+export type WebSocketEventName = keyof WebSocketEvents;
+export type WebSocketEventPayload<E extends WebSocketEventName> = Parameters<WebSocketEvents[E]>[0];
+
+export type RequestEvent = keyof ClientRequests;
+export type RequestPayload<E extends RequestEvent> = ClientRequests[E]['payload'];
+export type RequestResult<E extends RequestEvent> = ClientRequests[E]['response'];
+
+// Every server event is bridged to service listeners; the Record type makes
+// adding an event to ServerToClientEvents without bridging it a compile error.
+const SERVER_EVENTS: Record<keyof ServerToClientEvents, true> = {
+  new_message: true,
+  message_read: true,
+  messages_read: true,
+  message_edited: true,
+  message_deleted: true,
+  message_expired: true,
+  message_pinned: true,
+  message_unpinned: true,
+  conversation_settings_updated: true,
+  reaction_added: true,
+  reaction_removed: true,
+  room_joined: true,
+  room_left: true,
+  user_joined_room: true,
+  user_typing: true,
+  user_online: true,
+  user_offline: true,
+  active_users_list: true,
+  active_users_updated: true,
+  chat_invitation_received: true,
+  chat_invitation_sent: true,
+  chat_invitation_accepted: true,
+  chat_invitation_rejected: true,
+  error: true,
+};
+
+export const SERVER_EVENT_NAMES = Object.keys(SERVER_EVENTS) as (keyof ServerToClientEvents)[];
@@ -0,0 +1,138 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import websocketService, { MessageDeletedEvent, MessageExpiredEvent } from './websocket';
+import { Message } from './schemas';
+
+/**
+ * Starred Messages
+ *
+ * Private favourites across all conversations, kept on this device only;
+ * the partner never sees what was starred. A copy of each message is kept
+ * so the starred list shows without loading every conversation, and it
+ * follows edits, deletions and expiry of the original.
+ */
+
+export interface StarredMessage {
+  message: Message;
+  starredAt: string;
+}
+
+type StarredListener = (starred: StarredMessage[]) => void;
+
+const STORAGE_KEY_PREFIX = 'chat_starred';
+
+// View-once media is meant to be seen once, so it can't be kept around
+export const canStar = (message: Message): boolean => !message.deletedAt && !message.viewOnce;
+
+class StarredStore {
+  private userId: string | null = null;
+  private starred: Record<string, StarredMessage> = {};
+  private listeners = new Set<StarredListener>();
+
+  async init(userId: string) {
+    if (this.userId === userId) return;
+
+    this.reset();
+    this.userId = userId;
+    websocketService.on('message_edited', this.handleMessageEdited);
+    websocketService.on('message_deleted', this.handleMessageGone);
+    websocketService.on('message_expired', this.handleMessageGone);
+
+    try {
+      const stored = await AsyncStorage.getItem(this.storageKey);
+      this.starred = stored ? JSON.parse(stored) : {};
+      this.notify();
+    } catch (error) {
+      console.error('Failed to load starred messages:', error);
+    }
+  }
+
+  reset() {
+    websocketService.off('message_edited', this.handleMessageEdited);
+    websocketService.off('message_deleted', this.handleMessageGone);
+    websocketService.off('message_expired', this.handleMessageGone);
+    this.userId = null;
+    this.starred = {};
+    this.notify();
+  }
+
+  isStarred(messageId: string): boolean {
+    return !!this.starred[messageId];
+  }
+
+  // Most recently starred first
+  getAll(): StarredMessage[] {
+    return Object.values(this.starred).sort((a, b) => b.starredAt.localeCompare(a.starredAt));
+  }
+
+  async toggle(message: Message) {
+    if (this.starred[message.id]) {
+      await this.unstar(message.id);
+      return;
+    }
+    if (!canStar(message)) return;
+
+    this.starred = {
+      ...this.starred,
+      [message.id]: { message, starredAt: new Date().toISOString() },
+    };
+    await this.changed();
+  }
+
+  async unstar(messageId: string) {
+    if (!this.starred[messageId]) return;
+
+    const { [messageId]: _removed, ...rest } = this.starred;
+    this.starred = rest;
+    await this.changed();
+  }
+
+  private handleMessageEdited = (message: Message) => {
+    const entry = this.starred[message.id];
+    if (!entry) return;
+
+    this.starred = { ...this.starred, [message.id]: { ...entry, message: { ...entry.message, ...message } } };
+    this.changed();
+  };
+
+  private handleMessageGone = (data: MessageDeletedEvent | MessageExpiredEvent) => {
+    this.unstar(data.messageId);
+  };
+
+  private get storageKey(): string {
+    return `${STORAGE_KEY_PREFIX}:${this.userId}`;
+  }
+
+  private async changed() {
+    this.notify();
+    if (!this.userId) return;
+    try {
+      await AsyncStorage.setItem(this.storageKey, JSON.stringify(this.starred));
+    } catch (error) {
+      console.error('Failed to persist starred messages:', error);
+    }
+  }
+
+  // Event management
+  on(listener: StarredListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: StarredListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    const starred = this.getAll();
+    this.listeners.forEach(listener => {
+      try {
+        listener(starred);
+      } catch (error) {
+        console.error('Error in starred store listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const starredStore = new StarredStore();
+export default starredStore;
@@ -0,0 +1,128 @@
+import { AppState, Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+import messageStore from './messageStore';
+import websocketService from './websocket';
+import { Message } from './schemas';
+
+/**
+ * Unread Store
+ *
+ * Unread message counts per conversation (keyed by partner id) for the
+ * whole app. Seeded from the local message store, bumped by incoming
+ * messages outside the open chat, and mirrored to the app icon badge.
+ */
+
+export type UnreadCounts = Record<string, number>;
+
+type UnreadListener = (counts: UnreadCounts) => void;
+
+class UnreadStore {
+  private counts: UnreadCounts = {};
+  private userId: string | null = null;
+  // Partner whose chat is on screen; their messages are read as they arrive
+  // unless the app is in the background
+  private activeConversationId: string | null = null;
+  private listeners = new Set<UnreadListener>();
+
+  async init(userId: string) {
+    if (this.userId === userId) return;
+
+    this.reset();
+    this.userId = userId;
+    websocketService.on('new_message', this.handleNewMessage);
+
+    const stored = await messageStore.getConversations();
+    this.setCounts(Object.fromEntries(
+      stored.map(({ conversationId, unreadCount }) => [conversationId, unreadCount])
+    ));
+
+    this.requestBadgePermission();
+  }
+
+  reset() {
+    websocketService.off('new_message', this.handleNewMessage);
+    this.userId = null;
+    this.activeConversationId = null;
+    this.counts = {};
+    this.notify();
+  }
+
+  getCounts(): UnreadCounts {
+    return this.counts;
+  }
+
+  getTotal(): number {
+    return Object.values(this.counts).reduce((total, count) => total + count, 0);
+  }
+
+  setActiveConversation(partnerId: string | null) {
+    this.activeConversationId = partnerId;
+  }
+
+  setCount(partnerId: string, count: number) {
+    if ((this.counts[partnerId] || 0) === count) return;
+
+    const { [partnerId]: _previous, ...rest } = this.counts;
+    this.counts = count > 0 ? { ...rest, [partnerId]: count } : rest;
+    this.notify();
+  }
+
+  // Replace counts wholesale, e.g. after the conversation list synced with the server
+  setCounts(counts: UnreadCounts) {
+    this.counts = Object.fromEntries(Object.entries(counts).filter(([, count]) => count > 0));
+    this.notify();
+  }
+
+  private handleNewMessage = (message: Message) => {
+    if (message.recipientId !== this.userId || message.status === 'READ') return;
+    if (message.senderId === this.activeConversationId && AppState.currentState === 'active') return;
+
+    this.setCount(message.senderId, (this.counts[message.senderId] || 0) + 1);
+  };
+
+  private async requestBadgePermission() {
+    // Android launchers show badges without asking; iOS needs notification permission
+    if (Platform.OS !== 'ios') return;
+
+    try {
+      const permissions = await Notifications.getPermissionsAsync();
+      if (!permissions.granted && permissions.canAskAgain) {
+        await Notifications.requestPermissionsAsync({
+          ios: { allowBadge: true, allowAlert: false, allowSound: false },
+        });
+      }
+    } catch (error) {
+      console.error('Failed to request badge permission:', error);
+    }
+  }
+
+  private updateBadge() {
+    Notifications.setBadgeCountAsync(this.getTotal()).catch(error =>
+      console.error('Failed to update app badge:', error)
+    );
+  }
+
+  // Event management
+  on(listener: UnreadListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: UnreadListener) {
+    this.listeners.delete(listener);
+  }
+
+  private notify() {
+    this.updateBadge();
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.counts);
+      } catch (error) {
+        console.error('Error in unread store listener:', error);
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const unreadStore = new UnreadStore();
+export default unreadStore;
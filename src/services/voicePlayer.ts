@@ -0,0 +1,152 @@
+import { Audio, AVPlaybackStatus } from 'expo-av';
+
+/**
+ * Voice Note Player
+ *
+ * Plays one voice note at a time. The sound lives here rather than in the
+ * bubble that started it, so playback carries on when the bubble scrolls
+ * out of view and starting another note stops the current one.
+ */
+
+export interface VoicePlaybackStatus {
+  messageId: string | null;
+  isPlaying: boolean;
+  positionMillis: number;
+  durationMillis: number;
+  rate: number;
+}
+
+type VoicePlayerListener = (status: VoicePlaybackStatus) => void;
+
+export const PLAYBACK_RATES = [1, 1.5, 2];
+
+class VoicePlayerService {
+  private sound: Audio.Sound | null = null;
+  private rate = 1;
+  private status: VoicePlaybackStatus = this.idleStatus();
+  private listeners = new Set<VoicePlayerListener>();
+
+  getStatus(): VoicePlaybackStatus {
+    return this.status;
+  }
+
+  // Play/pause a note, stopping whichever other note is playing
+  async toggle(messageId: string, uri: string) {
+    if (this.sound && this.status.messageId === messageId) {
+      try {
+        if (this.status.isPlaying) {
+          await this.sound.pauseAsync();
+        } else {
+          await this.sound.playAsync();
+        }
+      } catch (error) {
+        console.error('Failed to toggle voice note:', error);
+      }
+      return;
+    }
+
+    await this.stop();
+    this.update({ messageId });
+
+    try {
+      await Audio.setAudioModeAsync({ allowsRecordingIOS: false, playsInSilentModeIOS: true });
+      const { sound } = await Audio.Sound.createAsync(
+        { uri },
+        { shouldPlay: true, rate: this.rate, shouldCorrectPitch: true, progressUpdateIntervalMillis: 100 },
+        status => this.handlePlaybackStatus(messageId, status)
+      );
+
+      // Another note was started while this one loaded
+      if (this.status.messageId !== messageId) {
+        await sound.unloadAsync();
+        return;
+      }
+      this.sound = sound;
+    } catch (error) {
+      console.error('Failed to play voice note:', error);
+      this.update(this.idleStatus());
+    }
+  }
+
+  async setRate(rate: number) {
+    this.rate = rate;
+    this.update({ rate });
+
+    try {
+      await this.sound?.setRateAsync(rate, true);
+    } catch (error) {
+      console.error('Failed to change playback rate:', error);
+    }
+  }
+
+  async stop() {
+    const sound = this.sound;
+    this.sound = null;
+    this.update(this.idleStatus());
+
+    if (sound) {
+      try {
+        await sound.unloadAsync();
+      } catch (error) {
+        console.error('Failed to unload voice note:', error);
+      }
+    }
+  }
+
+  private handlePlaybackStatus(messageId: string, status: AVPlaybackStatus) {
+    if (this.status.messageId !== messageId) return;
+
+    if (!status.isLoaded) {
+      if ('error' in status && status.error) {
+        console.error('Voice note playback error:', status.error);
+        this.stop();
+      }
+      return;
+    }
+
+    if (status.didJustFinish) {
+      this.stop();
+      return;
+    }
+
+    this.update({
+      isPlaying: status.isPlaying,
+      positionMillis: status.positionMillis,
+      durationMillis: status.durationMillis ?? this.status.durationMillis,
+    });
+  }
+
+  private idleStatus(): VoicePlaybackStatus {
+    return {
+      messageId: null,
+      isPlaying: false,
+      positionMillis: 0,
+      durationMillis: 0,
+      rate: this.rate,
+    };
+  }
+
+  private update(changes: Partial<VoicePlaybackStatus>) {
+    this.status = { ...this.status, ...changes };
+    this.listeners.forEach(listener => {
+      try {
+        listener(this.status);
+      } catch (error) {
+        console.error('Error in voice player listener:', error);
+      }
+    });
+  }
+
+  // Event management
+  on(listener: VoicePlayerListener) {
+    this.listeners.add(listener);
+  }
+
+  off(listener: VoicePlayerListener) {
+    this.listeners.delete(listener);
+  }
+}
+
+// Export singleton instance
+export const voicePlayer = new VoicePlayerService();
+export default voicePlayer;
@@ -1,64 +1,112 @@
 import { io, Socket } from 'socket.io-client';
 import * as SecureStore from 'expo-secure-store';
 import { ENV } from '../config/env';
+import { Message, MessageType, SendMessageOptions, User } from './schemas';
+import { decryptMessage } from './messageCrypto';
+import {
+  ActiveUsersEvent,
+  ChatInvitationAcceptedAck,
+  ChatInvitationRejectedAck,
+  ChatInvitationSentAck,
+  ClientToServerEvents,
+  MessageDeletedEvent,
+  MessageExpiredEvent,
+  MessagePinEvent,
+  ReactionEvent,
+  RequestEvent,
+  RequestPayload,
+  RequestResult,
+  SERVER_EVENT_NAMES,
+  ServerToClientEvents,
+  SocketAck,
+  isAckEnvelope,
+  TypingEvent,
+  UserOfflineEvent,
+  UserOnlineEvent,
+  UserPresence,
+  WebSocketEventName,
+  WebSocketEventPayload,
+} from './socketEvents';
 
 // Event types
-export interface Message {
-  id: string;
-  content: string;
-  senderId: string;
-  recipientId: string;
-  createdAt: string;
-  sender: {
-    id: string;
-    fullName: string;
-    email: string;
-    avatarUrl?: string;
-  };
-  recipient: {
-    id: string;
-    fullName: string;
-    email: string;
-    avatarUrl?: string;
-  };
-  type: string;
-  status: string;
-  readAt?: string;
+export type { Message, User };
+export type {
+  ActiveUser,
+  ActiveUsersEvent,
+  ChatInvitation,
+  ChatInvitationAcceptedAck,
+  ChatInvitationRejectedAck,
+  ChatInvitationSentAck,
+  MessageDeletedEvent,
+  MessageExpiredEvent,
+  MessagePinEvent,
+  MessageReadEvent,
+  MessagesReadEvent,
+  ReactionEvent,
+  RoomEvent,
+  SocketErrorEvent,
+  TypingEvent,
+  UserOfflineEvent,
+  UserOnlineEvent,
+  UserPresence,
+  WebSocketEventName,
+  WebSocketEventPayload,
+} from './socketEvents';
+
+export interface RequestOptions {
+  timeout?: number;
 }
 
-export interface User {
-  id: string;
-  fullName: string;
-  email: string;
-  avatarUrl?: string;
-}
+export type SocketRequestErrorCode = 'NOT_CONNECTED' | 'TIMEOUT' | 'SERVER_ERROR';
 
-export interface TypingEvent {
-  userId: string;
-  user: User;
-  isTyping: boolean;
-}
+// Thrown when an acknowledged emit is not confirmed by the server
+export class SocketRequestError extends Error {
+  code: SocketRequestErrorCode;
+  event: string;
 
-export interface MessageReadEvent {
-  messageId: string;
-  readBy: string;
-  readAt: string;
+  constructor(code: SocketRequestErrorCode, event: string, message: string) {
+    super(message);
+    this.name = 'SocketRequestError';
+    this.code = code;
+    this.event = event;
+  }
 }
 
+// Send at most one "still typing" emit per interval while the user types
+const TYPING_THROTTLE_MS = 2000;
+// Stop typing once the keyboard has been idle this long
+const TYPING_IDLE_MS = 3000;
+// Drop a partner's typing state when no refresh arrives in time
+const TYPING_EXPIRY_MS = 5000;
+
 // Event listeners type
-type EventListener<T = any> = (data: T) => void;
+type EventListener<E extends WebSocketEventName> = (data: WebSocketEventPayload<E>) => void;
 
 class WebSocketService {
-  private socket: Socket | null = null;
+  private socket: Socket<ServerToClientEvents, ClientToServerEvents> | null = null;
   private isConnected = false;
   private reconnectAttempts = 0;
   private maxReconnectAttempts = ENV.WEBSOCKET_RECONNECT_ATTEMPTS;
   private reconnectDelay = ENV.WEBSOCKET_RECONNECT_DELAY;
   private currentUserId: string | null = null;
-  private eventListeners = new Map<string, Set<EventListener>>();
+  private eventListeners: { [E in WebSocketEventName]?: Set<EventListener<E>> } = {};
+  // Rooms the app asked to be in; re-joined automatically after a reconnect
+  private joinedRooms = new Set<string>();
+  private hasConnected = false;
+  // Online/last-seen/typing state of other users, fed by server events
+  private presence = new Map<string, UserPresence>();
+  private typingExpiryTimers = new Map<string, ReturnType<typeof setTimeout>>();
+  // Our own typing state per recipient, for throttling emits
+  private outgoingTyping = new Map<string, { sentAt: number; idleTimer: ReturnType<typeof setTimeout> }>();
 
   constructor() {
     console.log('WebSocketService initialized');
+    this.on('user_online', this.handleUserOnline);
+    this.on('user_offline', this.handleUserOffline);
+    this.on('active_users_list', this.handleActiveUsers);
+    this.on('active_users_updated', this.handleActiveUsers);
+    this.on('user_typing', this.handleUserTyping);
+    this.on('new_message', this.handleMessageFromTyper);
   }
 
   async connect(userId?: string): Promise<boolean> {
@@ -91,6 +139,9 @@ class WebSocketService {
         reconnectionDelay: this.reconnectDelay,
       });
 
+      // Bridge server events once per socket so reconnects don't duplicate them
+      this.setupEventListeners();
+
       return new Promise((resolve) => {
         if (!this.socket) {
           resolve(false);
@@ -98,13 +149,28 @@ class WebSocketService {
         }
 
         this.socket.on('connect', () => {
-          console.log('WebSocket connected successfully');
+          const isReconnect = this.hasConnected;
+          console.log(isReconnect ? 'WebSocket reconnected' : 'WebSocket connected successfully');
           this.isConnected = true;
+          this.hasConnected = true;
           this.reconnectAttempts = 0;
-          this.setupEventListeners();
+          this.emit('connected', { userId: this.currentUserId });
+          // Presence missed while offline is stale; ask for a fresh list
+          this.getActiveUsers();
+          // Includes rooms asked for before the first connection came up
+          this.rejoinRooms();
+
+          if (isReconnect) {
+            this.emit('reconnected', { rooms: Array.from(this.joinedRooms) });
+          }
           resolve(true);
         });
 
+        this.socket.io.on('reconnect_attempt', (attempt) => {
+          console.log(`WebSocket reconnect attempt ${attempt}/${this.maxReconnectAttempts}`);
+          this.reconnectAttempts = attempt;
+        });
+
         this.socket.on('connect_error', (error) => {
           console.error('WebSocket connection error:', error);
           this.isConnected = false;
@@ -114,13 +180,9 @@ class WebSocketService {
         this.socket.on('disconnect', (reason) => {
           console.log('WebSocket disconnected:', reason);
           this.isConnected = false;
+          this.clearOnlineStates();
           this.emit('disconnected', { reason });
         });
-
-        this.socket.on('error', (error) => {
-          console.error('WebSocket error:', error);
-          this.emit('error', error);
-        });
       });
     } catch (error) {
       console.error('Failed to connect to WebSocket:', error);
@@ -152,62 +214,39 @@ class WebSocketService {
   }
 
   private setupEventListeners() {
-    if (!this.socket) return;
-
-    // Message events
-    this.socket.on('new_message', (message: Message) => {
-      console.log('Received new message:', message);
-      this.emit('new_message', message);
-    });
-
-    this.socket.on('message_read', (data: MessageReadEvent) => {
-      console.log('Message read:', data);
-      this.emit('message_read', data);
-    });
-
-    // Room events
-    this.socket.on('room_joined', (data: any) => {
-      console.log('Room joined:', data);
-      this.emit('room_joined', data);
-    });
-
-    this.socket.on('room_left', (data: any) => {
-      console.log('Room left:', data);
-      this.emit('room_left', data);
-    });
-
-    // Typing events
-    this.socket.on('user_typing', (data: TypingEvent) => {
-      console.log('User typing:', data);
-      this.emit('user_typing', data);
-    });
-
-    // User presence events
-    this.socket.on('user_online', (data: { userId: string; user: User }) => {
-      console.log('User online:', data);
-      this.emit('user_online', data);
-    });
-
-    this.socket.on('user_offline', (data: { userId: string }) => {
-      console.log('User offline:', data);
-      this.emit('user_offline', data);
+    const socket = this.socket;
+    if (!socket) return;
+
+    SERVER_EVENT_NAMES.forEach(event => {
+      socket.on(event, (data: unknown) => {
+        if (event === 'error') {
+          console.error('WebSocket error:', data);
+        } else {
+          console.log(`Received ${event}`);
+        }
+        // socket.io's event map types each payload; listeners only ever see message content in the clear
+        const payload = event === 'new_message' || event === 'message_edited' ? decryptMessage(data as Message) : data;
+        this.emit(event, payload as WebSocketEventPayload<typeof event>);
+      });
     });
+  }
 
-    // Room events
-    this.socket.on('room_joined', (data: { roomId: string; recipientId: string }) => {
-      console.log('Room joined:', data);
-      this.emit('room_joined', data);
-    });
+  /**
+   * Hand a refreshed access token to the socket. Future reconnects use it,
+   * and a live connection re-authenticates in place instead of reconnecting.
+   */
+  updateAuthToken(token: string) {
+    if (!this.socket) return;
 
-    this.socket.on('room_left', (data: { roomId: string; recipientId: string }) => {
-      console.log('Room left:', data);
-      this.emit('room_left', data);
-    });
+    this.socket.auth = {
+      token,
+      userId: this.currentUserId,
+    };
 
-    this.socket.on('user_joined_room', (data: { userId: string; user: User; roomId: string }) => {
-      console.log('User joined room:', data);
-      this.emit('user_joined_room', data);
-    });
+    if (this.socket.connected) {
+      console.log('Re-authenticating WebSocket with refreshed token');
+      this.socket.emit('authenticate', { token });
+    }
   }
 
   disconnect() {
@@ -216,14 +255,24 @@ class WebSocketService {
       this.socket.disconnect();
       this.socket = null;
       this.isConnected = false;
+      this.hasConnected = false;
       this.currentUserId = null;
+      this.joinedRooms.clear();
+      this.presence.clear();
+      this.typingExpiryTimers.forEach(timer => clearTimeout(timer));
+      this.typingExpiryTimers.clear();
+      this.outgoingTyping.forEach(({ idleTimer }) => clearTimeout(idleTimer));
+      this.outgoingTyping.clear();
     }
   }
 
   // Room management
   joinRoom(recipientId: string) {
+    // Remember the room even while offline so the next connect joins it
+    this.joinedRooms.add(recipientId);
+
     if (!this.socket?.connected) {
-      console.error('Cannot join room: WebSocket not connected');
+      console.log(`Will join room with recipient ${recipientId} once connected`);
       return;
     }
 
@@ -232,6 +281,8 @@ class WebSocketService {
   }
 
   leaveRoom(recipientId: string) {
+    this.joinedRooms.delete(recipientId);
+
     if (!this.socket?.connected) {
       console.error('Cannot leave room: WebSocket not connected');
       return;
@@ -241,20 +292,116 @@ class WebSocketService {
     this.socket.emit('leave_room', { recipientId });
   }
 
-  // Message operations
-  sendMessage(recipientId: string, content: string, type: string = 'TEXT') {
-    if (!this.socket?.connected) {
-      console.error('Cannot send message: WebSocket not connected');
-      return false;
-    }
+  private rejoinRooms() {
+    if (!this.socket?.connected) return;
+
+    this.joinedRooms.forEach(recipientId => {
+      console.log(`Re-joining room with recipient: ${recipientId}`);
+      this.socket!.emit('join_room', { recipientId });
+    });
+  }
+
+  /**
+   * Emit an event and wait for the server's acknowledgement.
+   * Resolves with the acknowledged payload, or undefined when the server
+   * confirms without one; rejects with a SocketRequestError
+   * when offline, when the server reports an error, or after `timeout` ms.
+   */
+  request<E extends RequestEvent>(
+    event: E,
+    payload: RequestPayload<E>,
+    options: RequestOptions = {}
+  ): Promise<RequestResult<E> | undefined> {
+    const { timeout = ENV.WEBSOCKET_TIMEOUT } = options;
+
+    return new Promise<RequestResult<E> | undefined>((resolve, reject) => {
+      if (!this.socket?.connected) {
+        console.error(`Cannot emit ${event}: WebSocket not connected`);
+        reject(new SocketRequestError('NOT_CONNECTED', event, 'WebSocket not connected'));
+        return;
+      }
+
+      console.log(`Requesting ${event}`);
+      // The event map guarantees the payload/ack pairing; socket.io's generic
+      // emit typing cannot follow a generic event name, so emit untyped here.
+      (this.socket as Socket).timeout(timeout).emit(
+        event,
+        payload,
+        (err: Error | null, response: SocketAck<RequestResult<E>>) => {
+          if (err) {
+            console.error(`No acknowledgement for ${event} within ${timeout}ms`);
+            reject(new SocketRequestError('TIMEOUT', event, `Server did not confirm ${event} in time`));
+            return;
+          }
+
+          // Accept both `{ success, data }` envelopes and bare payloads
+          if (!isAckEnvelope(response)) {
+            resolve(response);
+            return;
+          }
+
+          if (response.error || !response.success) {
+            const { error } = response;
+            const message = (typeof error === 'object' ? error.message : error)
+              || response.message
+              || `Server rejected ${event}`;
+            console.error(`Server rejected ${event}:`, message);
+            reject(new SocketRequestError('SERVER_ERROR', event, message));
+            return;
+          }
+
+          // A bare `{ success: true }` confirms the request without echoing a result
+          resolve(response.data);
+        }
+      );
+    });
+  }
 
-    console.log(`Sending message to ${recipientId}:`, content);
-    this.socket.emit('send_message', {
+  // Message operations
+  sendMessage(
+    recipientId: string,
+    content: string,
+    type: MessageType = 'TEXT',
+    options: SendMessageOptions = {}
+  ): Promise<Message | undefined> {
+    console.log(`Sending ${type} message to ${recipientId}`);
+    return this.request('send_message', {
       recipientId,
       content,
       type,
-    });
-    return true;
+      ...options,
+    }).then(message => message && decryptMessage(message));
+  }
+
+  // Resolves without a message when the server confirms the edit without echoing it
+  editMessage(messageId: string, content: string): Promise<Message | undefined> {
+    console.log(`Editing message ${messageId}`);
+    return this.request('edit_message', { messageId, content }).then(message => message && decryptMessage(message));
+  }
+
+  // Deletes for everyone; deleting only for ourselves goes through the API
+  deleteMessage(messageId: string): Promise<MessageDeletedEvent> {
+    console.log(`Deleting message for everyone: ${messageId}`);
+    return this.request('delete_message', { messageId })
+      .then(event => event ?? { messageId, deletedAt: new Date().toISOString() });
+  }
+
+  // Purge a disappearing or opened view-once message from both devices
+  expireMessage(messageId: string): Promise<MessageExpiredEvent> {
+    console.log(`Expiring message: ${messageId}`);
+    return this.request('expire_message', { messageId })
+      .then(event => event ?? { messageId, expiredAt: new Date().toISOString() });
+  }
+
+  // Pins are shared, so both partners see them change live
+  pinMessage(messageId: string): Promise<MessagePinEvent | undefined> {
+    console.log(`Pinning message: ${messageId}`);
+    return this.request('pin_message', { messageId });
+  }
+
+  unpinMessage(messageId: string): Promise<MessagePinEvent | undefined> {
+    console.log(`Unpinning message: ${messageId}`);
+    return this.request('unpin_message', { messageId });
   }
 
   markMessageAsRead(messageId: string) {
@@ -267,8 +414,60 @@ class WebSocketService {
     this.socket.emit('mark_message_read', { messageId });
   }
 
-  // Typing indicators
+  // Mark everything received from a partner up to a message as read in one emit
+  markMessagesRead(partnerId: string, upToMessageId: string): boolean {
+    if (!this.socket?.connected) {
+      console.error('Cannot mark messages as read: WebSocket not connected');
+      return false;
+    }
+
+    console.log(`Marking messages from ${partnerId} as read up to ${upToMessageId}`);
+    this.socket.emit('mark_messages_read', { partnerId, upToMessageId });
+    return true;
+  }
+
+  // Reactions
+  addReaction(messageId: string, emoji: string): Promise<ReactionEvent | undefined> {
+    console.log(`Reacting to message ${messageId}`);
+    return this.request('add_reaction', { messageId, emoji });
+  }
+
+  removeReaction(messageId: string, emoji: string): Promise<ReactionEvent | undefined> {
+    console.log(`Removing reaction from message ${messageId}`);
+    return this.request('remove_reaction', { messageId, emoji });
+  }
+
+  /**
+   * Report typing to a recipient. Call on every keystroke: emits are
+   * throttled to one refresh per TYPING_THROTTLE_MS, and typing stops by
+   * itself once input has been idle for TYPING_IDLE_MS.
+   */
   sendTypingStatus(recipientId: string, isTyping: boolean) {
+    const current = this.outgoingTyping.get(recipientId);
+    if (current) {
+      clearTimeout(current.idleTimer);
+    }
+
+    if (!isTyping) {
+      this.outgoingTyping.delete(recipientId);
+      if (current) {
+        this.emitTyping(recipientId, false);
+      }
+      return;
+    }
+
+    const now = Date.now();
+    const due = !current || now - current.sentAt >= TYPING_THROTTLE_MS;
+    if (due) {
+      this.emitTyping(recipientId, true);
+    }
+    this.outgoingTyping.set(recipientId, {
+      sentAt: due ? now : current!.sentAt,
+      idleTimer: setTimeout(() => this.sendTypingStatus(recipientId, false), TYPING_IDLE_MS),
+    });
+  }
+
+  private emitTyping(recipientId: string, isTyping: boolean) {
     if (!this.socket?.connected) {
       console.error('Cannot send typing status: WebSocket not connected');
       return;
@@ -280,6 +479,90 @@ class WebSocketService {
     });
   }
 
+  // Presence
+  getPresence(userId: string): UserPresence {
+    return this.presence.get(userId) || { userId, online: false, lastSeenAt: null, typing: false };
+  }
+
+  // Fill in last-seen times from user records fetched over the API
+  seedPresence(users: User[]) {
+    users.forEach(user => {
+      const current = this.getPresence(user.id);
+      if (!user.lastSeenAt || current.online) return;
+      if (current.lastSeenAt && current.lastSeenAt >= user.lastSeenAt) return;
+      this.updatePresence(user.id, { lastSeenAt: user.lastSeenAt });
+    });
+  }
+
+  private updatePresence(userId: string, changes: Partial<UserPresence>) {
+    const current = this.getPresence(userId);
+    const next = { ...current, ...changes };
+    if (
+      next.online === current.online &&
+      next.lastSeenAt === current.lastSeenAt &&
+      next.typing === current.typing &&
+      this.presence.has(userId)
+    ) {
+      return;
+    }
+
+    this.presence.set(userId, next);
+    this.emit('presence_changed', next);
+  }
+
+  private setTyping(userId: string, typing: boolean) {
+    const timer = this.typingExpiryTimers.get(userId);
+    if (timer) {
+      clearTimeout(timer);
+      this.typingExpiryTimers.delete(userId);
+    }
+    if (typing) {
+      this.typingExpiryTimers.set(userId, setTimeout(() => this.setTyping(userId, false), TYPING_EXPIRY_MS));
+    }
+    this.updatePresence(userId, { typing });
+  }
+
+  private handleUserOnline = (data: UserOnlineEvent) => {
+    this.updatePresence(data.userId, { online: true });
+  };
+
+  private handleUserOffline = (data: UserOfflineEvent) => {
+    this.setTyping(data.userId, false);
+    this.updatePresence(data.userId, {
+      online: false,
+      lastSeenAt: data.lastSeenAt || new Date().toISOString(),
+    });
+  };
+
+  private handleActiveUsers = (data: ActiveUsersEvent) => {
+    const activeIds = new Set(data.activeUsers.map(u => u.id));
+    activeIds.forEach(userId => this.updatePresence(userId, { online: true }));
+    this.presence.forEach(({ online }, userId) => {
+      if (online && !activeIds.has(userId)) {
+        this.updatePresence(userId, { online: false, lastSeenAt: new Date().toISOString() });
+      }
+    });
+  };
+
+  private handleUserTyping = (data: TypingEvent) => {
+    this.setTyping(data.userId, data.isTyping);
+  };
+
+  // A message arriving means its sender has stopped typing it
+  private handleMessageFromTyper = (message: Message) => {
+    if (this.presence.get(message.senderId)?.typing) {
+      this.setTyping(message.senderId, false);
+    }
+  };
+
+  // We can't see anyone while disconnected; keep last-seen, drop online/typing
+  private clearOnlineStates() {
+    this.presence.forEach(({ online, typing }, userId) => {
+      if (typing) this.setTyping(userId, false);
+      if (online) this.updatePresence(userId, { online: false });
+    });
+  }
+
   // Chat invitation operations
   getActiveUsers() {
     if (!this.socket?.connected) {
@@ -291,74 +574,48 @@ class WebSocketService {
     this.socket.emit('get_active_users');
   }
 
-  sendChatInvitation(recipientId: string, message: string) {
-    if (!this.socket?.connected) {
-      console.error('Cannot send chat invitation: WebSocket not connected');
-      return false;
-    }
-
-    console.log(`Sending chat invitation to ${recipientId}:`, message);
-    this.socket.emit('send_chat_invitation', {
+  sendChatInvitation(recipientId: string, message: string): Promise<ChatInvitationSentAck | undefined> {
+    console.log(`Sending chat invitation to ${recipientId}`);
+    return this.request('send_chat_invitation', {
       recipientId,
       message,
     });
-    return true;
   }
 
-  acceptChatInvitation(invitationId: string) {
-    if (!this.socket?.connected) {
-      console.error('Cannot accept chat invitation: WebSocket not connected');
-      return false;
-    }
-
+  acceptChatInvitation(invitationId: string): Promise<ChatInvitationAcceptedAck | undefined> {
     console.log(`Accepting chat invitation: ${invitationId}`);
-    this.socket.emit('accept_chat_invitation', { invitationId });
-    return true;
+    return this.request('accept_chat_invitation', { invitationId });
   }
 
-  rejectChatInvitation(invitationId: string) {
-    if (!this.socket?.connected) {
-      console.error('Cannot reject chat invitation: WebSocket not connected');
-      return false;
-    }
-
+  rejectChatInvitation(invitationId: string): Promise<ChatInvitationRejectedAck | undefined> {
     console.log(`Rejecting chat invitation: ${invitationId}`);
-    this.socket.emit('reject_chat_invitation', { invitationId });
-    return true;
+    return this.request('reject_chat_invitation', { invitationId });
   }
 
-  // Generic emit method for custom events
-  emitEvent(event: string, data?: any) {
-    if (!this.socket?.connected) {
-      console.error(`Cannot emit ${event}: WebSocket not connected`);
-      return false;
-    }
-
-    console.log(`Emitting ${event}:`, data);
-    this.socket.emit(event, data);
-    return true;
+  // Generic acknowledged emit
+  emitEvent<E extends RequestEvent>(event: E, data: RequestPayload<E>, options?: RequestOptions): Promise<RequestResult<E> | undefined> {
+    return this.request(event, data, options);
   }
 
   // Event management
-  on<T = any>(event: string, listener: EventListener<T>) {
-    if (!this.eventListeners.has(event)) {
-      this.eventListeners.set(event, new Set());
-    }
-    this.eventListeners.get(event)!.add(listener);
+  on<E extends WebSocketEventName>(event: E, listener: EventListener<E>) {
+    const listeners = this.eventListeners[event] ?? new Set<EventListener<E>>();
+    listeners.add(listener);
+    this.eventListeners[event] = listeners;
   }
 
-  off<T = any>(event: string, listener: EventListener<T>) {
-    const listeners = this.eventListeners.get(event);
+  off<E extends WebSocketEventName>(event: E, listener: EventListener<E>) {
+    const listeners = this.eventListeners[event];
     if (listeners) {
       listeners.delete(listener);
       if (listeners.size === 0) {
-        this.eventListeners.delete(event);
+        delete this.eventListeners[event];
       }
     }
   }
 
-  private emit<T = any>(event: string, data: T) {
-    const listeners = this.eventListeners.get(event);
+  private emit<E extends WebSocketEventName>(event: E, data: WebSocketEventPayload<E>) {
+    const listeners = this.eventListeners[event];
     if (listeners) {
       listeners.forEach(listener => {
         try {
@@ -381,9 +638,16 @@ class WebSocketService {
 
   // Utility methods
   async reconnect(): Promise<boolean> {
+    const userId = this.currentUserId;
+    const rooms = Array.from(this.joinedRooms);
     this.disconnect();
     await new Promise(resolve => setTimeout(resolve, this.reconnectDelay));
-    return this.connect(this.currentUserId || undefined);
+    const connected = await this.connect(userId || undefined);
+    if (connected) {
+      rooms.forEach(recipientId => this.joinRoom(recipientId));
+      this.emit('reconnected', { rooms });
+    }
+    return connected;
   }
 
   async isAuthenticated(): Promise<boolean> {
@@ -412,3 +676,20 @@ class WebSocketService {
 // Export singleton instance
 export const websocketService = new WebSocketService();
 export default websocketService;
+
+/**
+ * Run a change over the socket when connected, so the partner sees it live;
+ * otherwise, or if the socket drops before the emit, through the API.
+ */
+export const viaSocketOrApi = async <T>(socketCall: () => Promise<T>, apiCall: () => Promise<T>): Promise<T> => {
+  if (websocketService.connected) {
+    try {
+      return await socketCall();
+    } catch (error) {
+      if (!(error instanceof SocketRequestError && error.code === 'NOT_CONNECTED')) {
+        throw error;
+      }
+    }
+  }
+  return apiCall();
+};